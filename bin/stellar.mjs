@@ -0,0 +1,8 @@
+#!/usr/bin/env node
+// TypeScript のソースを tsx で読み込んで CLI を実行する
+import { register } from 'tsx/esm/api';
+
+register();
+
+const { main } = await import('../src/cli/index.ts');
+await main();
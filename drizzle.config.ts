@@ -5,7 +5,7 @@ export default defineConfig({
   out: './drizzle/migrations',
   dialect: 'sqlite',
   dbCredentials: {
-    url: './data/stellar.db',
+    url: process.env.DATABASE_PATH ?? './data/stellar.db',
   },
   verbose: true,
   strict: true,
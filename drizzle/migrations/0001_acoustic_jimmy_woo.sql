@@ -0,0 +1,3 @@
+ALTER TABLE `repository_metrics` ADD `releases_count` integer;--> statement-breakpoint
+ALTER TABLE `repository_metrics` ADD `license_spdx_id` text;--> statement-breakpoint
+ALTER TABLE `repository_metrics` ADD `languages` text;
\ No newline at end of file
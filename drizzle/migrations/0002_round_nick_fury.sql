@@ -0,0 +1,14 @@
+CREATE TABLE `api_response_cache` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`cache_key` text NOT NULL,
+	`method` text NOT NULL,
+	`url` text NOT NULL,
+	`status` integer NOT NULL,
+	`etag` text,
+	`last_modified` text,
+	`headers` text,
+	`body` text,
+	`fetched_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `api_response_cache_cache_key_unique` ON `api_response_cache` (`cache_key`);
\ No newline at end of file
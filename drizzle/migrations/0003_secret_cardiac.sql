@@ -0,0 +1 @@
+ALTER TABLE `repository_metrics` ADD `has_readme` integer;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `repository_metrics` ADD `has_security_policy` integer;--> statement-breakpoint
+ALTER TABLE `repository_metrics` ADD `has_issue_template` integer;--> statement-breakpoint
+ALTER TABLE `repository_metrics` ADD `has_pull_request_template` integer;
\ No newline at end of file
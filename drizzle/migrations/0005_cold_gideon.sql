@@ -0,0 +1,5 @@
+ALTER TABLE `repository_metrics` ADD `median_issue_close_time_days` real;--> statement-breakpoint
+ALTER TABLE `repository_metrics` ADD `median_pr_merge_time_days` real;--> statement-breakpoint
+ALTER TABLE `repository_metrics` ADD `avg_first_response_time_days` real;--> statement-breakpoint
+ALTER TABLE `repository_metrics` ADD `median_first_response_time_days` real;--> statement-breakpoint
+ALTER TABLE `repository_metrics` ADD `responsiveness_sample_size` integer;
\ No newline at end of file
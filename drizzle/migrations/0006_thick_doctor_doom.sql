@@ -0,0 +1 @@
+ALTER TABLE `collection_batches` ADD `checkpoint` text;
\ No newline at end of file
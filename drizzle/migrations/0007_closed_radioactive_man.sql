@@ -0,0 +1,19 @@
+CREATE TABLE `repository_snapshots` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`repository_id` integer NOT NULL,
+	`batch_id` integer,
+	`stars_count` integer,
+	`forks_count` integer,
+	`watchers_count` integer,
+	`size` integer,
+	`open_issues_count` integer,
+	`pushed_at` text,
+	`updated_at` text,
+	`archived` integer,
+	`disabled` integer,
+	`captured_at` text NOT NULL,
+	FOREIGN KEY (`repository_id`) REFERENCES `repositories`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`batch_id`) REFERENCES `collection_batches`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `repository_snapshots_repository_captured_idx` ON `repository_snapshots` (`repository_id`,`captured_at`);
\ No newline at end of file
@@ -0,0 +1,28 @@
+CREATE TABLE `evaluation_results` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`run_id` integer NOT NULL,
+	`repository_id` integer NOT NULL,
+	`stage_id` integer NOT NULL,
+	`status` text NOT NULL,
+	`score` real,
+	`details` text,
+	`evaluated_at` text DEFAULT (datetime('now')),
+	FOREIGN KEY (`run_id`) REFERENCES `evaluation_runs`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`repository_id`) REFERENCES `repositories`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`stage_id`) REFERENCES `filtering_stages`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `evaluation_results_run_repository_stage_idx` ON `evaluation_results` (`run_id`,`repository_id`,`stage_id`);--> statement-breakpoint
+CREATE TABLE `evaluation_runs` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`criteria` text NOT NULL,
+	`pipeline_mode` text NOT NULL,
+	`criteria_source` text,
+	`status` text NOT NULL,
+	`total_evaluated` integer,
+	`total_passed` integer,
+	`started_at` text DEFAULT (datetime('now')),
+	`completed_at` text,
+	`error_message` text
+);
@@ -0,0 +1,31 @@
+CREATE TABLE `filter_runs` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`batch_id` integer,
+	`criteria` text,
+	`pipeline_version` integer NOT NULL,
+	`pipeline_mode` text NOT NULL,
+	`created_at` text DEFAULT (datetime('now')),
+	FOREIGN KEY (`batch_id`) REFERENCES `collection_batches`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+-- 既存の結果は移行用の実行（pipeline_version = 0）にまとめ、リポジトリ・ステージごとに最新の行だけを残す
+INSERT INTO `filter_runs` (`pipeline_version`, `pipeline_mode`) SELECT 0, 'short-circuit' WHERE EXISTS (SELECT 1 FROM `repository_filter_status`);--> statement-breakpoint
+CREATE TABLE `__new_repository_filter_status` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`run_id` integer NOT NULL,
+	`repository_id` integer NOT NULL,
+	`stage_id` integer NOT NULL,
+	`status` text NOT NULL,
+	`score` real,
+	`details` text,
+	`evaluated_at` text DEFAULT (datetime('now')),
+	FOREIGN KEY (`run_id`) REFERENCES `filter_runs`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`repository_id`) REFERENCES `repositories`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`stage_id`) REFERENCES `filtering_stages`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+INSERT INTO `__new_repository_filter_status`("id", "run_id", "repository_id", "stage_id", "status", "score", "details", "evaluated_at") SELECT "id", (SELECT max("id") FROM `filter_runs` WHERE "pipeline_version" = 0), "repository_id", "stage_id", "status", "score", "details", "evaluated_at" FROM `repository_filter_status` WHERE "id" IN (SELECT max("id") FROM `repository_filter_status` GROUP BY "repository_id", "stage_id");--> statement-breakpoint
+DROP TABLE `repository_filter_status`;--> statement-breakpoint
+ALTER TABLE `__new_repository_filter_status` RENAME TO `repository_filter_status`;--> statement-breakpoint
+CREATE UNIQUE INDEX `repository_filter_status_repository_run_stage_idx` ON `repository_filter_status` (`repository_id`,`run_id`,`stage_id`);--> statement-breakpoint
+CREATE VIEW `latest_filter_status` AS select "id", "run_id", "repository_id", "stage_id", "status", "score", "details", "evaluated_at" from "repository_filter_status" where "repository_filter_status"."run_id" = (SELECT max(latest.run_id) FROM "repository_filter_status" latest WHERE latest.repository_id = "repository_filter_status"."repository_id");
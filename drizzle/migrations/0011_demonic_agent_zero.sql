@@ -0,0 +1,20 @@
+-- これまで quality_assessments に書き込む処理はなかったため、フィルター実行に属さない行は引き継がない
+DROP TABLE `quality_assessments`;--> statement-breakpoint
+CREATE TABLE `quality_assessments` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`run_id` integer NOT NULL,
+	`repository_id` integer NOT NULL,
+	`popularity_score` real NOT NULL,
+	`activity_score` real NOT NULL,
+	`quality_score` real NOT NULL,
+	`community_score` real NOT NULL,
+	`overall_score` real NOT NULL,
+	`popularity_rank` integer,
+	`overall_rank` integer,
+	`assessment_version` text NOT NULL,
+	`assessed_at` text DEFAULT (datetime('now')),
+	FOREIGN KEY (`run_id`) REFERENCES `filter_runs`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`repository_id`) REFERENCES `repositories`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `quality_assessments_run_repository_idx` ON `quality_assessments` (`run_id`,`repository_id`);
@@ -0,0 +1,2 @@
+-- details は JSON.stringify した文字列を json モードの列に保存していたため二重にエンコードされている。evaluation_results と同じくオブジェクトとして保存し直す
+UPDATE `repository_filter_status` SET `details` = json_extract(`details`, '$') WHERE json_valid(`details`) AND json_type(`details`) = 'text';
@@ -1,5 +1,5 @@
 import { sql } from 'drizzle-orm';
-import { integer, real, sqliteTable, text } from 'drizzle-orm/sqlite-core';
+import { index, integer, real, sqliteTable, sqliteView, text, uniqueIndex } from 'drizzle-orm/sqlite-core';
 
 // 1. リポジトリ基本情報
 export const repositories = sqliteTable('repositories', {
@@ -47,20 +47,33 @@ export const filtering_stages = sqliteTable('filtering_stages', {
   created_at: text('created_at').default(sql`(datetime('now'))`),
 });
 
-// 3. リポジトリフィルタリング状況
-export const repository_filter_status = sqliteTable('repository_filter_status', {
-  id: integer('id').primaryKey(),
-  repository_id: integer('repository_id')
-    .notNull()
-    .references(() => repositories.id),
-  stage_id: integer('stage_id')
-    .notNull()
-    .references(() => filtering_stages.id),
-  status: text('status', { enum: ['pending', 'passed', 'failed', 'skipped'] }).notNull(),
-  score: real('score'),
-  details: text('details', { mode: 'json' }),
-  evaluated_at: text('evaluated_at').default(sql`(datetime('now'))`),
-});
+// 3. リポジトリフィルタリング状況（フィルター実行・リポジトリ・ステージごとに1行）
+export const repository_filter_status = sqliteTable(
+  'repository_filter_status',
+  {
+    id: integer('id').primaryKey(),
+    run_id: integer('run_id')
+      .notNull()
+      .references(() => filter_runs.id),
+    repository_id: integer('repository_id')
+      .notNull()
+      .references(() => repositories.id),
+    stage_id: integer('stage_id')
+      .notNull()
+      .references(() => filtering_stages.id),
+    status: text('status', { enum: ['pending', 'passed', 'failed', 'skipped'] }).notNull(),
+    score: real('score'),
+    details: text('details', { mode: 'json' }),
+    evaluated_at: text('evaluated_at').default(sql`(datetime('now'))`),
+  },
+  (table) => [
+    uniqueIndex('repository_filter_status_repository_run_stage_idx').on(
+      table.repository_id,
+      table.run_id,
+      table.stage_id,
+    ),
+  ],
+);
 
 // 4. 詳細メトリクス（時系列対応）
 export const repository_metrics = sqliteTable('repository_metrics', {
@@ -74,19 +87,33 @@ export const repository_metrics = sqliteTable('repository_metrics', {
   commits_count: integer('commits_count'),
   branches_count: integer('branches_count'),
   tags_count: integer('tags_count'),
+  releases_count: integer('releases_count'),
 
   // コミュニティ健全性
   avg_issue_close_time_days: real('avg_issue_close_time_days'),
+  median_issue_close_time_days: real('median_issue_close_time_days'),
   avg_pr_merge_time_days: real('avg_pr_merge_time_days'),
+  median_pr_merge_time_days: real('median_pr_merge_time_days'),
+  avg_first_response_time_days: real('avg_first_response_time_days'),
+  median_first_response_time_days: real('median_first_response_time_days'),
   issue_response_rate: real('issue_response_rate'),
   pr_acceptance_rate: real('pr_acceptance_rate'),
+  responsiveness_sample_size: integer('responsiveness_sample_size'),
 
   // コード品質指標
+  has_readme: integer('has_readme', { mode: 'boolean' }),
   readme_quality_score: real('readme_quality_score'),
   has_tests: integer('has_tests', { mode: 'boolean' }),
   has_ci: integer('has_ci', { mode: 'boolean' }),
   has_contributing_guide: integer('has_contributing_guide', { mode: 'boolean' }),
   has_code_of_conduct: integer('has_code_of_conduct', { mode: 'boolean' }),
+  has_security_policy: integer('has_security_policy', { mode: 'boolean' }),
+  has_issue_template: integer('has_issue_template', { mode: 'boolean' }),
+  has_pull_request_template: integer('has_pull_request_template', { mode: 'boolean' }),
+
+  // ライセンス・言語構成
+  license_spdx_id: text('license_spdx_id'),
+  languages: text('languages', { mode: 'json' }),
 
   // 外部指標
   npm_weekly_downloads: integer('npm_weekly_downloads'),
@@ -96,28 +123,35 @@ export const repository_metrics = sqliteTable('repository_metrics', {
   collected_at: text('collected_at').default(sql`(datetime('now'))`),
 });
 
-// 5. 品質評価結果
-export const quality_assessments = sqliteTable('quality_assessments', {
-  id: integer('id').primaryKey(),
-  repository_id: integer('repository_id')
-    .notNull()
-    .references(() => repositories.id),
+// 5. 品質評価結果（フィルター実行・リポジトリごとに1行。順位は同じ実行で評価したリポジトリの中での順位）
+export const quality_assessments = sqliteTable(
+  'quality_assessments',
+  {
+    id: integer('id').primaryKey(),
+    run_id: integer('run_id')
+      .notNull()
+      .references(() => filter_runs.id),
+    repository_id: integer('repository_id')
+      .notNull()
+      .references(() => repositories.id),
 
-  // 複合スコア
-  popularity_score: real('popularity_score').notNull(),
-  activity_score: real('activity_score').notNull(),
-  quality_score: real('quality_score').notNull(),
-  community_score: real('community_score').notNull(),
-  overall_score: real('overall_score').notNull(),
+    // 複合スコア
+    popularity_score: real('popularity_score').notNull(),
+    activity_score: real('activity_score').notNull(),
+    quality_score: real('quality_score').notNull(),
+    community_score: real('community_score').notNull(),
+    overall_score: real('overall_score').notNull(),
 
-  // ランキング情報
-  popularity_rank: integer('popularity_rank'),
-  overall_rank: integer('overall_rank'),
+    // ランキング情報
+    popularity_rank: integer('popularity_rank'),
+    overall_rank: integer('overall_rank'),
 
-  // 評価メタデータ
-  assessment_version: text('assessment_version').notNull(),
-  assessed_at: text('assessed_at').default(sql`(datetime('now'))`),
-});
+    // 評価メタデータ
+    assessment_version: text('assessment_version').notNull(),
+    assessed_at: text('assessed_at').default(sql`(datetime('now'))`),
+  },
+  (table) => [uniqueIndex('quality_assessments_run_repository_idx').on(table.run_id, table.repository_id)],
+);
 
 // 6. 収集バッチ管理
 export const collection_batches = sqliteTable('collection_batches', {
@@ -131,6 +165,10 @@ export const collection_batches = sqliteTable('collection_batches', {
   started_at: text('started_at').default(sql`(datetime('now'))`),
   completed_at: text('completed_at'),
   error_message: text('error_message'),
+  // 中断・再開用のチェックポイント（検索カーソルと処理済みリポジトリID）
+  checkpoint: text('checkpoint', { mode: 'json' }),
+  // 実行中に定期的に更新される進捗（ステージごとの通過数・API呼び出し数・残りレート制限・ETA）
+  progress: text('progress', { mode: 'json' }),
 });
 
 // 7. バッチ-リポジトリ関連
@@ -144,3 +182,105 @@ export const batch_repositories = sqliteTable('batch_repositories', {
     .references(() => repositories.id),
   added_at: text('added_at').default(sql`(datetime('now'))`),
 });
+
+// 8. GitHub APIレスポンスキャッシュ（条件付きリクエスト用）
+export const api_response_cache = sqliteTable('api_response_cache', {
+  id: integer('id').primaryKey(),
+  cache_key: text('cache_key').notNull().unique(),
+  method: text('method').notNull(),
+  url: text('url').notNull(),
+  status: integer('status').notNull(),
+  etag: text('etag'),
+  last_modified: text('last_modified'),
+  headers: text('headers', { mode: 'json' }),
+  body: text('body', { mode: 'json' }),
+  fetched_at: text('fetched_at').notNull(),
+});
+
+// 9. リポジトリスナップショット（収集・リフレッシュごとの基本メトリクスの時系列）
+export const repository_snapshots = sqliteTable(
+  'repository_snapshots',
+  {
+    id: integer('id').primaryKey(),
+    repository_id: integer('repository_id')
+      .notNull()
+      .references(() => repositories.id),
+    batch_id: integer('batch_id').references(() => collection_batches.id),
+
+    stars_count: integer('stars_count'),
+    forks_count: integer('forks_count'),
+    watchers_count: integer('watchers_count'),
+    size: integer('size'),
+    open_issues_count: integer('open_issues_count'),
+    pushed_at: text('pushed_at'),
+    updated_at: text('updated_at'),
+    archived: integer('archived', { mode: 'boolean' }),
+    disabled: integer('disabled', { mode: 'boolean' }),
+
+    captured_at: text('captured_at').notNull(),
+  },
+  (table) => [index('repository_snapshots_repository_captured_idx').on(table.repository_id, table.captured_at)],
+);
+
+// 10. 保存済みリポジトリの再評価の実行（評価に使った基準のスナップショット）
+export const evaluation_runs = sqliteTable('evaluation_runs', {
+  id: integer('id').primaryKey(),
+  name: text('name').notNull(),
+  criteria: text('criteria', { mode: 'json' }).notNull(),
+  pipeline_mode: text('pipeline_mode', { enum: ['short-circuit', 'evaluate-all'] }).notNull(),
+  // 基準を読み込んだファイル（既定の基準なら null）
+  criteria_source: text('criteria_source'),
+  status: text('status', { enum: ['running', 'completed', 'failed'] }).notNull(),
+  total_evaluated: integer('total_evaluated'),
+  total_passed: integer('total_passed'),
+  started_at: text('started_at').default(sql`(datetime('now'))`),
+  completed_at: text('completed_at'),
+  error_message: text('error_message'),
+});
+
+// 11. 再評価の結果（実行・リポジトリ・ステージごとに1行）
+export const evaluation_results = sqliteTable(
+  'evaluation_results',
+  {
+    id: integer('id').primaryKey(),
+    run_id: integer('run_id')
+      .notNull()
+      .references(() => evaluation_runs.id),
+    repository_id: integer('repository_id')
+      .notNull()
+      .references(() => repositories.id),
+    stage_id: integer('stage_id')
+      .notNull()
+      .references(() => filtering_stages.id),
+    status: text('status', { enum: ['pending', 'passed', 'failed', 'skipped'] }).notNull(),
+    score: real('score'),
+    details: text('details', { mode: 'json' }),
+    evaluated_at: text('evaluated_at').default(sql`(datetime('now'))`),
+  },
+  (table) => [
+    uniqueIndex('evaluation_results_run_repository_stage_idx').on(table.run_id, table.repository_id, table.stage_id),
+  ],
+);
+
+// 12. 収集時のフィルター実行（評価に使った基準とパイプラインのバージョンのスナップショット）
+export const filter_runs = sqliteTable('filter_runs', {
+  id: integer('id').primaryKey(),
+  // 実行したバッチ（バッチ導入前の結果をまとめた移行用の実行は null）
+  batch_id: integer('batch_id').references(() => collection_batches.id),
+  // 移行用の実行では基準が分からないため null
+  criteria: text('criteria', { mode: 'json' }),
+  // 移行用の実行は 0
+  pipeline_version: integer('pipeline_version').notNull(),
+  pipeline_mode: text('pipeline_mode', { enum: ['short-circuit', 'evaluate-all'] }).notNull(),
+  created_at: text('created_at').default(sql`(datetime('now'))`),
+});
+
+// リポジトリごとに最後に評価したフィルター実行の結果だけを返すビュー（集計・エクスポートはこちらを読む）
+export const latest_filter_status = sqliteView('latest_filter_status').as((qb) =>
+  qb
+    .select()
+    .from(repository_filter_status)
+    .where(
+      sql`${repository_filter_status.run_id} = (SELECT max(latest.run_id) FROM ${repository_filter_status} latest WHERE latest.repository_id = ${repository_filter_status.repository_id})`,
+    ),
+);
@@ -4,10 +4,13 @@
  */
 
 import { and, avg, count, desc, eq, max, min } from 'drizzle-orm';
-import { collection_batches, filtering_stages, repositories, repository_filter_status } from '../../drizzle/schema.js';
-import { getDatabase } from '../../src/repository/database.js';
+import { collection_batches, filtering_stages, latest_filter_status, repositories } from '../../drizzle/schema.js';
+import { createLogger } from '../../src/logging/logger.js';
+import { type StellarDatabase, getDatabase } from '../../src/repository/database.js';
 
-const printBatchInfo = async (db: ReturnType<typeof getDatabase>) => {
+const logger = createLogger('AnalyzeResults');
+
+const printBatchInfo = async (db: StellarDatabase) => {
   const latestBatch = await db.select().from(collection_batches).orderBy(desc(collection_batches.started_at)).limit(1);
 
   if (latestBatch.length > 0) {
@@ -22,7 +25,7 @@ const printBatchInfo = async (db: ReturnType<typeof getDatabase>) => {
   }
 };
 
-const printRepositoryStats = async (db: ReturnType<typeof getDatabase>) => {
+const printRepositoryStats = async (db: StellarDatabase) => {
   const totalRepos = await db.select({ count: count() }).from(repositories);
   console.log(`Total Repositories Collected: ${totalRepos[0]?.count ?? 0}`);
 
@@ -54,7 +57,7 @@ const printRepositoryStats = async (db: ReturnType<typeof getDatabase>) => {
   return totalRepos[0]?.count ?? 0;
 };
 
-const printFilterStats = async (db: ReturnType<typeof getDatabase>) => {
+const printFilterStats = async (db: StellarDatabase) => {
   const stages = await db.select().from(filtering_stages).orderBy(filtering_stages.order_index);
 
   console.log('');
@@ -62,13 +65,13 @@ const printFilterStats = async (db: ReturnType<typeof getDatabase>) => {
   for (const stage of stages) {
     const total = await db
       .select({ count: count() })
-      .from(repository_filter_status)
-      .where(eq(repository_filter_status.stage_id, stage.id));
+      .from(latest_filter_status)
+      .where(eq(latest_filter_status.stage_id, stage.id));
 
     const passed = await db
       .select({ count: count() })
-      .from(repository_filter_status)
-      .where(and(eq(repository_filter_status.stage_id, stage.id), eq(repository_filter_status.status, 'passed')));
+      .from(latest_filter_status)
+      .where(and(eq(latest_filter_status.stage_id, stage.id), eq(latest_filter_status.status, 'passed')));
 
     const passRate =
       (total[0]?.count ?? 0) > 0 ? (((passed[0]?.count ?? 0) / (total[0]?.count ?? 1)) * 100).toFixed(1) : '0.0';
@@ -142,9 +145,9 @@ const main = async () => {
   // 全ステージを通過したリポジトリ
   const allStagesPassed = await db
     .select({ count: count() })
-    .from(repository_filter_status)
-    .where(eq(repository_filter_status.status, 'passed'))
-    .groupBy(repository_filter_status.repository_id)
+    .from(latest_filter_status)
+    .where(eq(latest_filter_status.status, 'passed'))
+    .groupBy(latest_filter_status.repository_id)
     .having(eq(count(), stages.length));
 
   console.log(`   Repositories passing ALL stages: ${allStagesPassed.length}`);
@@ -168,4 +171,7 @@ const main = async () => {
   console.log('   • Use this data for comparative studies');
 };
 
-main().catch(console.error);
+main().catch((error) => {
+  logger.error('Fatal error during result analysis', { error });
+  process.exit(1);
+});
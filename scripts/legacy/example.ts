@@ -8,11 +8,15 @@
 
 import 'dotenv/config';
 import { RepositoryCollector } from '../../src/core/collector.js';
+import { createLogger } from '../../src/logging/logger.js';
+import { getDatabase } from '../../src/repository/database.js';
+
+const logger = createLogger('Example');
 
 const main = async () => {
   // 環境変数チェック
   if (!process.env.GITHUB_TOKEN) {
-    console.error('❌ GITHUB_TOKEN environment variable is required');
+    logger.error('GITHUB_TOKEN environment variable is required');
     console.log('Create a .env file with: GITHUB_TOKEN=your_github_token');
     process.exit(1);
   }
@@ -21,7 +25,7 @@ const main = async () => {
   console.log('='.repeat(50));
 
   // コレクターを初期化
-  const collector = new RepositoryCollector(process.env.GITHUB_TOKEN);
+  const collector = new RepositoryCollector(process.env.GITHUB_TOKEN, getDatabase());
 
   // フィルタリング設定（テスト用の小さな値）
   const config = {
@@ -87,10 +91,7 @@ const main = async () => {
     console.log('   - Run analysis queries on the collected data');
     console.log('   - Adjust criteria and collect more repositories');
   } catch (error) {
-    console.error('');
-    console.error('❌ Error during collection:');
-    console.error(error instanceof Error ? error.message : error);
-    console.error('');
+    logger.error('Error during collection', { error });
     console.log('🔧 Troubleshooting:');
     console.log('   - Check your GitHub token is valid');
     console.log('   - Ensure you have internet connection');
@@ -101,6 +102,6 @@ const main = async () => {
 
 // メイン実行
 main().catch((error) => {
-  console.error('Fatal error:', error);
+  logger.error('Fatal error', { error });
   process.exit(1);
 });
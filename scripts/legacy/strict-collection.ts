@@ -8,11 +8,15 @@
 
 import 'dotenv/config';
 import { RepositoryCollector } from '../../src/core/collector.js';
+import { createLogger } from '../../src/logging/logger.js';
+import { getDatabase } from '../../src/repository/database.js';
+
+const logger = createLogger('StrictCollection');
 
 const main = async () => {
   // 環境変数チェック
   if (!process.env.GITHUB_TOKEN) {
-    console.error('❌ GITHUB_TOKEN environment variable is required');
+    logger.error('GITHUB_TOKEN environment variable is required');
     console.log('Create a .env file with: GITHUB_TOKEN=your_github_token');
     process.exit(1);
   }
@@ -23,7 +27,7 @@ const main = async () => {
   console.log('');
 
   // コレクターを初期化
-  const collector = new RepositoryCollector(process.env.GITHUB_TOKEN);
+  const collector = new RepositoryCollector(process.env.GITHUB_TOKEN, getDatabase());
 
   // 厳格な基準設定（現状実装で完全動作する部分のみ）
   const config = {
@@ -50,7 +54,7 @@ const main = async () => {
         has_readme: true, // 目標値（現在は無視される）
         min_readme_quality: 0.8, // 目標値（現在は無視される）
         has_license: true, // 実装済み: ライセンス必須
-        max_issue_close_time: 30, // 目標値（現在は無視される）
+        max_issue_close_time: 30, // イシュークローズ日数の中央値の上限
       },
     },
   };
@@ -113,10 +117,7 @@ const main = async () => {
     console.log('   - Analyze project quality distribution');
     console.log('   - Export data for further analysis');
   } catch (error) {
-    console.error('');
-    console.error('❌ Strict collection failed:');
-    console.error(error instanceof Error ? error.message : error);
-    console.error('');
+    logger.error('Strict collection failed', { error });
     console.log('🔧 Troubleshooting:');
     console.log('   - Check your GitHub token permissions');
     console.log('   - Verify internet connectivity');
@@ -128,6 +129,6 @@ const main = async () => {
 
 // メイン実行
 main().catch((error) => {
-  console.error('Fatal error during strict collection:', error);
+  logger.error('Fatal error during strict collection', { error });
   process.exit(1);
 });
@@ -7,6 +7,9 @@
 
 import 'dotenv/config';
 import { spawn } from 'node:child_process';
+import { createLogger } from '../../src/logging/logger.js';
+
+const logger = createLogger('LargeScaleCollectionManager');
 
 class LargeScaleCollectionManager {
   private startTime: number;
@@ -31,24 +34,21 @@ class LargeScaleCollectionManager {
       this.validateEnvironment();
 
       // Phase 1: 品質重視収集
-      console.log('🚀 Starting Phase 1: Quality Collection...');
+      logger.info('Starting Phase 1: Quality Collection');
       await this.executePhase('phase1', 'Quality-focused collection (700 repos)');
 
       // Phase 2: 時系列分散収集
-      console.log('🚀 Starting Phase 2: Temporal Collection...');
+      logger.info('Starting Phase 2: Temporal Collection');
       await this.executePhase('phase2', 'Temporal distribution (300 repos)');
 
       // Phase 3: 分析とエクスポート
-      console.log('🚀 Starting Phase 3: Analysis and Export...');
+      logger.info('Starting Phase 3: Analysis and Export');
       await this.executeFinalPhase();
 
       // 完了レポート
       await this.generateCompletionReport();
     } catch (error) {
-      console.error('');
-      console.error('❌ Large scale collection failed:');
-      console.error(error instanceof Error ? error.message : error);
-      console.error('');
+      logger.error('Large scale collection failed', { error });
       this.printRecoveryInstructions();
       process.exit(1);
     }
@@ -75,11 +75,11 @@ class LargeScaleCollectionManager {
       await this.runScript(phaseScript);
 
       const duration = (Date.now() - startTime) / 1000;
-      console.log(`✅ Phase completed in ${duration.toFixed(1)} seconds`);
+      logger.info(`Phase completed in ${duration.toFixed(1)} seconds`, { phase: phaseScript });
       console.log('');
     } catch (error) {
       const duration = (Date.now() - startTime) / 1000;
-      console.error(`❌ Phase failed after ${duration.toFixed(1)} seconds`);
+      logger.error(`Phase failed after ${duration.toFixed(1)} seconds`, { phase: phaseScript });
       throw error;
     }
   }
@@ -104,7 +104,7 @@ class LargeScaleCollectionManager {
       console.log('');
     } catch (error) {
       // 分析フェーズのエラーは警告として扱う（データ収集は成功しているため）
-      console.warn('⚠️ Analysis phase encountered issues, but data collection succeeded');
+      logger.warn('Analysis phase encountered issues, but data collection succeeded', { error });
       console.warn('You can run analysis manually with: npm run comprehensive-analysis');
       console.warn('');
     }
@@ -206,6 +206,6 @@ const main = async () => {
 };
 
 main().catch((error) => {
-  console.error('Fatal error during large scale collection:', error);
+  logger.error('Fatal error during large scale collection', { error });
   process.exit(1);
 });
@@ -9,6 +9,10 @@ import 'dotenv/config';
 import { AdaptiveTierManager, type AdaptiveTierResult, type TierConfig } from '../../src/core/adaptive-tier.js';
 import { RepositoryCollector } from '../../src/core/collector.js';
 import { DatabaseInitializer } from '../../src/core/database-initializer.js';
+import { createLogger } from '../../src/logging/logger.js';
+import { getDatabase } from '../../src/repository/database.js';
+
+const logger = createLogger('Phase1QualityCollector');
 
 class Phase1QualityCollector {
   private collector: RepositoryCollector;
@@ -16,7 +20,7 @@ class Phase1QualityCollector {
   private startTime: number;
 
   constructor(githubToken: string) {
-    this.collector = new RepositoryCollector(githubToken);
+    this.collector = new RepositoryCollector(githubToken, getDatabase());
     this.tierManager = new AdaptiveTierManager();
     this.startTime = Date.now();
   }
@@ -55,10 +59,7 @@ class Phase1QualityCollector {
       // 5. 最終結果
       await this.generateFinalReport(adjustmentResult);
     } catch (error) {
-      console.error('');
-      console.error('❌ Phase 1 collection failed:');
-      console.error(error instanceof Error ? error.message : error);
-      console.error('');
+      logger.error('Phase 1 collection failed', { error });
       this.printTroubleshooting();
       process.exit(1);
     }
@@ -67,7 +68,7 @@ class Phase1QualityCollector {
   private async initializeDatabase(): Promise<void> {
     console.log('🔧 Initializing database and filtering stages...');
 
-    const initializer = new DatabaseInitializer();
+    const initializer = new DatabaseInitializer(getDatabase());
     await initializer.initialize();
 
     console.log('✅ Database initialization completed');
@@ -85,7 +86,7 @@ class Phase1QualityCollector {
   }
 
   private async executeTierCollection(tiers: TierConfig[]): Promise<TierConfig[]> {
-    console.log('🚀 Starting tier-based collection...');
+    logger.info('Starting tier-based collection');
     console.log('');
 
     for (const tier of tiers) {
@@ -120,7 +121,7 @@ class Phase1QualityCollector {
           await this.delay(2000); // 2秒待機
         }
       } catch (error) {
-        console.error(`   ❌ Failed to collect ${tier.name}:`, error);
+        logger.error(`Failed to collect ${tier.name}`, { error });
         tier.actualCount = 0;
       }
     }
@@ -198,7 +199,7 @@ class Phase1QualityCollector {
           await this.collector.collectRepositories(config);
           console.log(`   ✅ Additional collection completed for ${tier.name}`);
         } catch (error) {
-          console.error(`   ❌ Additional collection failed for ${tier.name}:`, error);
+          logger.error(`Additional collection failed for ${tier.name}`, { error });
         }
       }
     }
@@ -263,7 +264,7 @@ class Phase1QualityCollector {
 const main = async () => {
   // 環境変数チェック
   if (!process.env.GITHUB_TOKEN) {
-    console.error('❌ GITHUB_TOKEN environment variable is required');
+    logger.error('GITHUB_TOKEN environment variable is required');
     console.log('Create a .env file with: GITHUB_TOKEN=your_github_token');
     process.exit(1);
   }
@@ -273,6 +274,6 @@ const main = async () => {
 };
 
 main().catch((error) => {
-  console.error('Fatal error during Phase 1 collection:', error);
+  logger.error('Fatal error during Phase 1 collection', { error });
   process.exit(1);
 });
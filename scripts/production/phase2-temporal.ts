@@ -7,6 +7,10 @@
 
 import 'dotenv/config';
 import { type CollectionConfig, RepositoryCollector } from '../../src/core/collector.js';
+import { createLogger } from '../../src/logging/logger.js';
+import { getDatabase } from '../../src/repository/database.js';
+
+const logger = createLogger('Phase2TemporalCollector');
 
 interface TemporalTier {
   year: number;
@@ -22,7 +26,7 @@ class Phase2TemporalCollector {
   private readonly TOTAL_TARGET = 300;
 
   constructor(githubToken: string) {
-    this.collector = new RepositoryCollector(githubToken);
+    this.collector = new RepositoryCollector(githubToken, getDatabase());
     this.startTime = Date.now();
   }
 
@@ -50,10 +54,7 @@ class Phase2TemporalCollector {
       // 5. 最終結果
       await this.generateFinalReport(collectionResults);
     } catch (error) {
-      console.error('');
-      console.error('❌ Phase 2 collection failed:');
-      console.error(error instanceof Error ? error.message : error);
-      console.error('');
+      logger.error('Phase 2 collection failed', { error });
       this.printTroubleshooting();
       process.exit(1);
     }
@@ -109,7 +110,7 @@ class Phase2TemporalCollector {
   }
 
   private async executeTemporalCollection(tiers: TemporalTier[]): Promise<TemporalTier[]> {
-    console.log('🚀 Starting temporal collection...');
+    logger.info('Starting temporal collection');
     console.log('');
 
     for (const tier of tiers) {
@@ -149,7 +150,7 @@ class Phase2TemporalCollector {
           await this.delay(3000); // 3秒待機
         }
       } catch (error) {
-        console.error(`   ❌ Failed to collect ${tier.year} projects:`, error);
+        logger.error(`Failed to collect ${tier.year} projects`, { error });
         tier.actualCount = 0;
       }
     }
@@ -276,7 +277,7 @@ class Phase2TemporalCollector {
           compensationTier.actualCount += shortfall;
           console.log('✅ Balance adjustment completed');
         } catch (error) {
-          console.error('❌ Balance adjustment failed:', error);
+          logger.error('Balance adjustment failed', { error });
         }
       }
     } else {
@@ -347,7 +348,7 @@ class Phase2TemporalCollector {
 const main = async () => {
   // 環境変数チェック
   if (!process.env.GITHUB_TOKEN) {
-    console.error('❌ GITHUB_TOKEN environment variable is required');
+    logger.error('GITHUB_TOKEN environment variable is required');
     console.log('Create a .env file with: GITHUB_TOKEN=your_github_token');
     process.exit(1);
   }
@@ -357,6 +358,6 @@ const main = async () => {
 };
 
 main().catch((error) => {
-  console.error('Fatal error during Phase 2 collection:', error);
+  logger.error('Fatal error during Phase 2 collection', { error });
   process.exit(1);
 });
@@ -1,5 +1,102 @@
 import { Octokit } from '@octokit/rest';
-import type { GitHubApiLicense, GitHubApiOwner, GitHubApiRepositoryRaw, GitHubRepository } from '../types/index.js';
+import { createLogger } from '../logging/logger.js';
+import type { StellarDatabase } from '../repository/database.js';
+import type {
+  GitHubApiLicense,
+  GitHubApiOwner,
+  GitHubApiRepositoryRaw,
+  GitHubCommunityProfile,
+  GitHubGraphQLActorRaw,
+  GitHubGraphQLIssueActivityRaw,
+  GitHubGraphQLRepositoryRaw,
+  GitHubRepository,
+  GitHubRepositoryDetails,
+  GitHubRepositoryTree,
+  IssueActivityItem,
+  RepositoryActivityCounts,
+} from '../types/index.js';
+import {
+  RateLimitScheduler,
+  type RateLimitSchedulerOptions,
+  RateLimitWaitAbortedError,
+} from './rate-limit-scheduler.js';
+import { FixtureNotFoundError, RecordingTransport, type TransportOptions } from './recording-transport.js';
+import { CacheMissError, ResponseCache, type ResponseCacheOptions } from './response-cache.js';
+import {
+  SEARCH_RESULT_CAP,
+  type SearchCursor,
+  type SearchSlice,
+  createSearchCursor,
+  splitSlice,
+} from './search-slicer.js';
+import { TokenPool, type TokenUsage } from './token-pool.js';
+
+const logger = createLogger('GitHubClient');
+
+// GraphQL node limits allow roughly 50 repositories with these fields per query
+const GRAPHQL_BATCH_SIZE = 50;
+
+const REPOSITORY_FIELDS_FRAGMENT = `fragment RepositoryFields on Repository {
+  databaseId
+  nameWithOwner
+  name
+  owner { login __typename }
+  description
+  primaryLanguage { name }
+  languages(first: 20, orderBy: { field: SIZE, direction: DESC }) { edges { size node { name } } }
+  licenseInfo { name spdxId }
+  homepageUrl
+  repositoryTopics(first: 20) { nodes { topic { name } } }
+  createdAt
+  updatedAt
+  pushedAt
+  stargazerCount
+  forkCount
+  watchers { totalCount }
+  diskUsage
+  issues(states: OPEN) { totalCount }
+  pullRequests(states: OPEN) { totalCount }
+  releases { totalCount }
+  hasIssuesEnabled
+  hasProjectsEnabled
+  hasWikiEnabled
+  isArchived
+  isDisabled
+  defaultBranchRef { target { ... on Commit { history { totalCount } } } }
+}`;
+
+// Recent window sampled per repository for responsiveness metrics
+const ACTIVITY_SAMPLE_SIZE = 50;
+const ACTIVITY_RESPONSES_PER_ITEM = 10;
+
+const ACTIVITY_SAMPLE_QUERY = `query ($owner: String!, $name: String!, $size: Int!, $responses: Int!) {
+  repository(owner: $owner, name: $name) {
+    issues(first: $size, orderBy: { field: CREATED_AT, direction: DESC }) {
+      nodes {
+        createdAt
+        closedAt
+        author { login __typename }
+        comments(first: $responses) { nodes { createdAt author { login __typename } } }
+      }
+    }
+    pullRequests(first: $size, orderBy: { field: CREATED_AT, direction: DESC }) {
+      nodes {
+        createdAt
+        closedAt
+        mergedAt
+        author { login __typename }
+        comments(first: $responses) { nodes { createdAt author { login __typename } } }
+        reviews(first: $responses) { nodes { createdAt author { login __typename } } }
+      }
+    }
+  }
+}`;
+
+type CountableRoute =
+  | 'GET /repos/{owner}/{repo}/contributors'
+  | 'GET /repos/{owner}/{repo}/commits'
+  | 'GET /repos/{owner}/{repo}/branches'
+  | 'GET /repos/{owner}/{repo}/tags';
 
 export class GitHubApiError extends Error {
   constructor(
@@ -12,101 +109,266 @@ export class GitHubApiError extends Error {
   }
 }
 
+type SearchSort = 'stars' | 'forks' | 'help-wanted-issues' | 'updated';
+
+export interface SearchPage {
+  repositories: GitHubRepository[];
+  cursor: SearchCursor;
+}
+
+export interface GitHubClientOptions {
+  scheduler?: RateLimitSchedulerOptions;
+  cache?: ResponseCacheOptions;
+  transport?: TransportOptions;
+  // Connection the response cache is stored in; the cache stays disabled without one
+  database?: StellarDatabase;
+}
+
 export class GitHubClient {
   private octokit: Octokit;
+  private tokenPool: TokenPool;
+  private scheduler: RateLimitScheduler;
+  private cache: ResponseCache | null;
 
-  constructor(token: string) {
-    if (!token) {
+  constructor(tokens: string | string[], options: GitHubClientOptions = {}) {
+    const tokenList = (Array.isArray(tokens) ? tokens : [tokens]).filter((token) => token);
+    if (tokenList.length === 0) {
       throw new Error('GitHub token is required');
     }
 
+    // Authentication is applied per request from the token pool instead of Octokit's auth option
     this.octokit = new Octokit({
-      auth: token,
       userAgent: 'stellar-js/1.0.0',
     });
 
-    console.info('[GitHubClient] Initialized with authentication');
+    // Recording and replay sit closest to the network so the scheduler and cache behave as in production
+    if (options.transport && options.transport.mode !== 'live') {
+      const transport = new RecordingTransport(options.transport);
+      this.octokit.hook.wrap('request', (request, requestOptions) => transport.handle(requestOptions, request));
+      logger.info(
+        `${transport.mode === 'record' ? 'Recording' : 'Replaying'} API traffic (fixtures: ${options.transport.fixturesDir})`,
+      );
+    }
+
+    // Every request goes through the scheduler so rate limits are handled in one place
+    this.tokenPool = new TokenPool(tokenList);
+    this.scheduler = new RateLimitScheduler(this.tokenPool, options.scheduler);
+    this.octokit.hook.wrap('request', (request, requestOptions) => {
+      const pinnedToken = parseAuthorizationToken(requestOptions.headers.authorization);
+
+      return this.scheduler.schedule(
+        RateLimitScheduler.bucketFor(requestOptions.url),
+        (token) =>
+          request({ ...requestOptions, headers: { ...requestOptions.headers, authorization: `token ${token}` } }),
+        pinnedToken,
+      );
+    });
+
+    // The cache wraps the scheduler so cached and 304 responses never wait on rate limits
+    this.cache =
+      options.cache && options.cache.mode !== 'off' && options.database
+        ? new ResponseCache(options.cache, options.database)
+        : null;
+    if (this.cache) {
+      const cache = this.cache;
+      this.octokit.hook.wrap('request', (request, requestOptions) => cache.handle(requestOptions, request));
+      logger.info(`Response cache enabled (mode: ${cache.mode})`);
+    }
+
+    logger.info(`Initialized with authentication (${this.tokenPool.size} token(s))`);
+  }
+
+  /**
+   * Aborting the signal ends pending rate-limit waits with RateLimitWaitAbortedError.
+   */
+  useAbortSignal(signal: AbortSignal | undefined): void {
+    this.scheduler.useSignal(signal);
   }
 
   async checkRateLimit(): Promise<void> {
-    try {
-      const { data: rateLimit } = await this.octokit.rest.rateLimit.get();
+    if (this.cache?.mode === 'cache-only') {
+      logger.info('Cache-only mode, skipping rate limit check');
+      return;
+    }
 
-      const core = rateLimit.rate;
-      const search = rateLimit.resources.search;
+    for (const entry of this.tokenPool.entries()) {
+      if (entry.revoked) continue;
 
-      console.info(
-        `[GitHubClient] Rate limit - Core: ${core.remaining}/${core.limit}, Search: ${search.remaining}/${search.limit}`,
-      );
+      try {
+        const { data: rateLimit } = await this.octokit.rest.rateLimit.get({
+          headers: { authorization: `token ${entry.token}` },
+        });
 
-      if (core.remaining < 100) {
-        const resetTime = new Date(core.reset * 1000);
-        console.warn(`[GitHubClient] Low core rate limit: ${core.remaining}, resets at ${resetTime.toISOString()}`);
-      }
+        const core = rateLimit.rate;
+        const search = rateLimit.resources.search;
+
+        this.tokenPool.updateBudget(entry, 'core', core);
+        this.tokenPool.updateBudget(entry, 'search', search);
+        if (rateLimit.resources.graphql) {
+          this.tokenPool.updateBudget(entry, 'graphql', rateLimit.resources.graphql);
+        }
 
-      if (search.remaining < 10) {
-        const resetTime = new Date(search.reset * 1000);
-        console.warn(`[GitHubClient] Low search rate limit: ${search.remaining}, resets at ${resetTime.toISOString()}`);
+        logger.info(
+          `Rate limit ${entry.label} - Core: ${core.remaining}/${core.limit}, Search: ${search.remaining}/${search.limit}, Requests made: ${entry.requests}`,
+        );
+
+        if (core.remaining < 100) {
+          const resetTime = new Date(core.reset * 1000);
+          logger.warn(`Low core rate limit on ${entry.label}: ${core.remaining}, resets at ${resetTime.toISOString()}`);
+        }
+
+        if (search.remaining < 10) {
+          const resetTime = new Date(search.reset * 1000);
+          logger.warn(
+            `Low search rate limit on ${entry.label}: ${search.remaining}, resets at ${resetTime.toISOString()}`,
+          );
+        }
+      } catch (error) {
+        if (error && typeof error === 'object' && 'status' in error && error.status === 401) {
+          this.tokenPool.revoke(entry);
+          continue;
+        }
+        logger.error(`Failed to check rate limit for ${entry.label}`, { error });
       }
-    } catch (error) {
-      console.error('[GitHubClient] Failed to check rate limit:', error);
     }
   }
 
+  getTokenUsage(): TokenUsage[] {
+    return this.tokenPool.getUsage();
+  }
+
   async searchRepositories(
     query: string,
-    sort?: 'stars' | 'forks' | 'help-wanted-issues' | 'updated',
+    sort?: SearchSort,
     order?: 'desc' | 'asc',
     maxResults = 1000,
   ): Promise<GitHubRepository[]> {
-    console.info(`[GitHubClient] Starting repository search: ${query}`);
+    const repositories: GitHubRepository[] = [];
+
+    for await (const page of this.searchRepositoryPages(query, sort, order, maxResults)) {
+      repositories.push(...page.repositories);
+    }
+
+    logger.info(`Successfully collected ${repositories.length} repositories`);
+    return repositories;
+  }
+
+  /**
+   * Search page by page. Each yielded page carries the cursor positioned after
+   * it, so a consumer can checkpoint the cursor and pass it back to continue
+   * the search later from the following page.
+   */
+  async *searchRepositoryPages(
+    query: string,
+    sort?: SearchSort,
+    order?: 'desc' | 'asc',
+    maxResults = 1000,
+    cursor?: SearchCursor,
+  ): AsyncGenerator<SearchPage> {
+    logger.info(`${cursor ? 'Resuming' : 'Starting'} repository search: ${query}`);
+
+    const state: SearchCursor = cursor ? structuredClone(cursor) : createSearchCursor(query);
+    // Results are keyed by id so overlapping slices never produce duplicates
+    const seen = new Set<number>();
 
     try {
       await this.checkRateLimit();
 
-      const allResults: GitHubApiRepositoryRaw[] = [];
-      let page = 1;
-      const perPage = 100;
-
-      while (allResults.length < maxResults) {
-        const { data } = await this.octokit.rest.search.repos({
-          q: query,
-          sort: sort || 'stars',
-          order: order || 'desc',
-          per_page: Math.min(perPage, maxResults - allResults.length),
-          page,
-        });
+      while (state.slices.length > 0 && state.collected < maxResults) {
+        const repositories = await this.searchNextPage(state, sort, order, maxResults, seen);
 
-        if (data.items.length === 0) {
-          break;
+        if (repositories) {
+          yield { repositories, cursor: structuredClone(state) };
         }
+      }
+    } catch (error) {
+      throw this.handleError(error, `Failed to search repositories with query: ${query}`);
+    }
+  }
 
-        allResults.push(...data.items);
-        console.info(
-          `[GitHubClient] Retrieved ${allResults.length}/${Math.min(data.total_count, maxResults)} repositories`,
-        );
-
-        if (data.items.length < perPage || allResults.length >= maxResults) {
-          break;
-        }
+  /**
+   * Fetch the page the cursor points at and advance the cursor past it. When
+   * the current slice matches more results than the Search API will return,
+   * it is replaced by narrower slices and null is returned instead of a page.
+   */
+  private async searchNextPage(
+    state: SearchCursor,
+    sort: SearchSort | undefined,
+    order: 'desc' | 'asc' | undefined,
+    maxResults: number,
+    seen: Set<number>,
+  ): Promise<GitHubRepository[] | null> {
+    const perPage = 100;
+    const slice = state.slices[0] as SearchSlice;
+
+    const { data } = await this.octokit.rest.search.repos({
+      q: slice.query,
+      sort: sort || 'stars',
+      order: order || 'desc',
+      per_page: perPage,
+      page: state.page,
+    });
 
-        page++;
+    if (state.totalFound === undefined && state.collected === 0 && state.page === 1) {
+      state.totalFound = data.total_count;
+    }
 
-        // Rate limiting: Search API has stricter limits
-        await this.delay(1000);
+    if (state.page === 1 && data.total_count > SEARCH_RESULT_CAP) {
+      const children = await this.splitSearchSlice(slice, data.total_count);
+      if (children) {
+        state.slices.splice(0, 1, ...children);
+        return null;
       }
+    }
 
-      const repositories = allResults.slice(0, maxResults).map((repo) => this.transformSearchResult(repo));
+    const fresh = data.items.filter((item) => !seen.has(item.id)).slice(0, maxResults - state.collected);
+    for (const item of fresh) {
+      seen.add(item.id);
+    }
+    state.collected += fresh.length;
 
-      console.info(`[GitHubClient] Successfully collected ${repositories.length} repositories`);
-      return repositories;
-    } catch (error) {
-      throw this.handleError(error, `Failed to search repositories with query: ${query}`);
+    logger.info(
+      `Retrieved ${state.collected} repositories (slice: ${slice.query}, page ${state.page}, total ${data.total_count})`,
+    );
+
+    if (data.items.length < perPage || state.page * perPage >= Math.min(data.total_count, SEARCH_RESULT_CAP)) {
+      state.slices.shift();
+      state.page = 1;
+    } else {
+      state.page++;
     }
+
+    return fresh.map((item) => this.transformSearchResult(item));
+  }
+
+  private async splitSearchSlice(slice: SearchSlice, totalCount: number): Promise<SearchSlice[] | null> {
+    const starCeiling = slice.stars.max === null ? await this.getStarCeiling(slice.query) : undefined;
+    const children = splitSlice(slice, starCeiling);
+
+    if (!children) {
+      logger.warn(
+        `Cannot split slice further, results truncated to ${SEARCH_RESULT_CAP}/${totalCount}: ${slice.query}`,
+      );
+      return null;
+    }
+
+    logger.info(`Slice exceeds search cap (${totalCount} results), splitting: ${slice.query}`);
+    return children;
+  }
+
+  private async getStarCeiling(query: string): Promise<number> {
+    const { data } = await this.octokit.rest.search.repos({
+      q: query,
+      sort: 'stars',
+      order: 'desc',
+      per_page: 1,
+    });
+
+    return data.items[0]?.stargazers_count ?? 0;
   }
 
   async getRepositoryDetails(owner: string, repo: string): Promise<GitHubRepository> {
-    console.debug(`[GitHubClient] Fetching details for ${owner}/${repo}`);
+    logger.debug(`Fetching details for ${owner}/${repo}`);
 
     try {
       const { data: repository } = await this.octokit.rest.repos.get({
@@ -120,27 +382,250 @@ export class GitHubClient {
     }
   }
 
+  /**
+   * Fetch details for many repositories at once through the GraphQL API.
+   * Repositories that no longer exist or are inaccessible are left out of the result.
+   */
+  async getRepositoriesDetailsBatch(
+    fullNames: string[],
+    batchSize = GRAPHQL_BATCH_SIZE,
+  ): Promise<GitHubRepositoryDetails[]> {
+    const details: GitHubRepositoryDetails[] = [];
+
+    for (let i = 0; i < fullNames.length; i += batchSize) {
+      const chunk = fullNames.slice(i, i + batchSize);
+      logger.debug(`Fetching GraphQL details for ${chunk.length} repositories`);
+
+      const nodes = await this.queryRepositoryNodes(chunk);
+      for (const node of nodes) {
+        details.push(this.transformGraphQLRepository(node));
+      }
+    }
+
+    return details;
+  }
+
+  private async queryRepositoryNodes(fullNames: string[]): Promise<GitHubGraphQLRepositoryRaw[]> {
+    const variables: Record<string, string> = {};
+    const declarations: string[] = [];
+    const selections: string[] = [];
+
+    fullNames.forEach((fullName, index) => {
+      const [owner = '', name = ''] = fullName.split('/');
+      variables[`owner${index}`] = owner;
+      variables[`name${index}`] = name;
+      declarations.push(`$owner${index}: String!`, `$name${index}: String!`);
+      selections.push(`r${index}: repository(owner: $owner${index}, name: $name${index}) { ...RepositoryFields }`);
+    });
+
+    const query = `query (${declarations.join(', ')}) {\n${selections.join('\n')}\n}\n${REPOSITORY_FIELDS_FRAGMENT}`;
+
+    let data: Record<string, GitHubGraphQLRepositoryRaw | null>;
+    try {
+      data = await this.octokit.graphql<Record<string, GitHubGraphQLRepositoryRaw | null>>(query, variables);
+    } catch (error) {
+      // Missing repositories are reported as errors alongside the partial data
+      if (error && typeof error === 'object' && 'data' in error && error.data && typeof error.data === 'object') {
+        logger.warn(`GraphQL query returned partial data: ${error instanceof Error ? error.message : 'unknown error'}`);
+        data = error.data as Record<string, GitHubGraphQLRepositoryRaw | null>;
+      } else {
+        throw this.handleError(error, `Failed to fetch GraphQL details for ${fullNames.length} repositories`);
+      }
+    }
+
+    return Object.values(data).filter((node): node is GitHubGraphQLRepositoryRaw => node !== null);
+  }
+
   async getRepositoryContributors(owner: string, repo: string): Promise<number> {
     try {
-      // Get total count from Link header or count contributors
-      const response = await this.octokit.rest.repos.listContributors({
+      return (await this.countListItems('GET /repos/{owner}/{repo}/contributors', owner, repo)) ?? 0;
+    } catch (error) {
+      if (error instanceof RateLimitWaitAbortedError) throw error;
+      logger.warn(`Failed to get contributors for ${owner}/${repo}`, { error });
+      return 0;
+    }
+  }
+
+  /**
+   * Exact contributor, commit, branch and tag counts. A count is null when
+   * GitHub refuses to list it (e.g. contributor lists of very large repositories).
+   */
+  async getRepositoryActivityCounts(owner: string, repo: string): Promise<RepositoryActivityCounts> {
+    const count = async (route: CountableRoute): Promise<number | null> => {
+      try {
+        return await this.countListItems(route, owner, repo);
+      } catch (error) {
+        if (error instanceof RateLimitWaitAbortedError) throw error;
+        logger.warn(`Failed to count ${route} for ${owner}/${repo}`, { error });
+        return null;
+      }
+    };
+
+    return {
+      contributors_count: await count('GET /repos/{owner}/{repo}/contributors'),
+      commits_count: await count('GET /repos/{owner}/{repo}/commits'),
+      branches_count: await count('GET /repos/{owner}/{repo}/branches'),
+      tags_count: await count('GET /repos/{owner}/{repo}/tags'),
+    };
+  }
+
+  /**
+   * Fetch the decoded README of a repository, or null when it has none.
+   */
+  async getRepositoryReadme(owner: string, repo: string): Promise<string | null> {
+    try {
+      const { data } = await this.octokit.rest.repos.getReadme({ owner, repo });
+
+      if (typeof data.content !== 'string') {
+        return null;
+      }
+      return Buffer.from(data.content, (data.encoding as BufferEncoding) || 'base64').toString('utf-8');
+    } catch (error) {
+      if (error && typeof error === 'object' && 'status' in error && error.status === 404) {
+        return null;
+      }
+      throw this.handleError(error, `Failed to get README for ${owner}/${repo}`);
+    }
+  }
+
+  /**
+   * Community profile of a repository, or null when GitHub has none for it.
+   */
+  async getCommunityProfile(owner: string, repo: string): Promise<GitHubCommunityProfile | null> {
+    try {
+      const { data } = await this.octokit.rest.repos.getCommunityProfileMetrics({ owner, repo });
+
+      return {
+        health_percentage: typeof data.health_percentage === 'number' ? data.health_percentage : null,
+        files: {
+          contributing: Boolean(data.files?.contributing),
+          code_of_conduct: Boolean(data.files?.code_of_conduct ?? data.files?.code_of_conduct_file),
+          issue_template: Boolean(data.files?.issue_template),
+          pull_request_template: Boolean(data.files?.pull_request_template),
+        },
+      };
+    } catch (error) {
+      if (error && typeof error === 'object' && 'status' in error && error.status === 404) {
+        return null;
+      }
+      throw this.handleError(error, `Failed to get community profile for ${owner}/${repo}`);
+    }
+  }
+
+  /**
+   * All paths of the default-branch tree, or null for empty repositories.
+   */
+  async getRepositoryTree(owner: string, repo: string): Promise<GitHubRepositoryTree | null> {
+    try {
+      const { data } = await this.octokit.rest.git.getTree({ owner, repo, tree_sha: 'HEAD', recursive: 'true' });
+
+      return {
+        paths: data.tree.map((entry) => entry.path).filter((path): path is string => typeof path === 'string'),
+        truncated: data.truncated,
+      };
+    } catch (error) {
+      const status = error && typeof error === 'object' && 'status' in error ? error.status : undefined;
+
+      // Empty repositories have no HEAD (404 or 409)
+      if (status === 404 || status === 409) return null;
+      throw this.handleError(error, `Failed to get tree for ${owner}/${repo}`);
+    }
+  }
+
+  /**
+   * The most recent issues and pull requests of a repository with their first
+   * comments and reviews, or null when the repository cannot be resolved.
+   */
+  async getIssueActivitySample(
+    owner: string,
+    repo: string,
+    size = ACTIVITY_SAMPLE_SIZE,
+  ): Promise<IssueActivityItem[] | null> {
+    type SampleData = {
+      repository: {
+        issues?: { nodes?: (GitHubGraphQLIssueActivityRaw | null)[] | null } | null;
+        pullRequests?: { nodes?: (GitHubGraphQLIssueActivityRaw | null)[] | null } | null;
+      } | null;
+    };
+
+    let data: SampleData;
+    try {
+      data = await this.octokit.graphql<SampleData>(ACTIVITY_SAMPLE_QUERY, {
         owner,
-        repo,
-        per_page: 100,
+        name: repo,
+        size,
+        responses: ACTIVITY_RESPONSES_PER_ITEM,
       });
-
-      // For large repos, estimate from first page
-      if (response.data.length === 100) {
-        // This is an approximation - for exact count, we'd need to paginate
-        console.debug(`[GitHubClient] Estimating contributors count for ${owner}/${repo} (>100)`);
-        return 100;
+    } catch (error) {
+      if (error && typeof error === 'object' && 'data' in error && error.data && typeof error.data === 'object') {
+        data = error.data as SampleData;
+      } else {
+        throw this.handleError(error, `Failed to sample issue activity for ${owner}/${repo}`);
       }
+    }
 
-      return response.data.length;
+    if (!data.repository) {
+      return null;
+    }
+
+    const issues = (data.repository.issues?.nodes ?? []).map((node) => this.transformActivityItem('issue', node));
+    const pullRequests = (data.repository.pullRequests?.nodes ?? []).map((node) =>
+      this.transformActivityItem('pull_request', node),
+    );
+
+    return [...issues, ...pullRequests].filter((item): item is IssueActivityItem => item !== null);
+  }
+
+  /**
+   * Count the items of a list endpoint with a single request: with per_page=1
+   * the page number of the Link header's `last` relation equals the item count.
+   */
+  private async countListItems(route: CountableRoute, owner: string, repo: string): Promise<number | null> {
+    try {
+      const response = await this.octokit.request(route, { owner, repo, per_page: 1 });
+      const lastPage = parseLastPage(response.headers.link);
+
+      return lastPage ?? (Array.isArray(response.data) ? response.data.length : 0);
     } catch (error) {
-      console.warn(`[GitHubClient] Failed to get contributors for ${owner}/${repo}:`, error);
-      return 0;
+      const status = error && typeof error === 'object' && 'status' in error ? error.status : undefined;
+
+      // Empty repositories answer 409 for commit listings
+      if (status === 409) return 0;
+      // Contributor lists of very large repositories are not available through the API
+      if (status === 403 && route.endsWith('/contributors')) return null;
+
+      throw error;
+    }
+  }
+
+  private transformActivityItem(
+    kind: IssueActivityItem['kind'],
+    node: GitHubGraphQLIssueActivityRaw | null,
+  ): IssueActivityItem | null {
+    if (!node?.createdAt) {
+      return null;
     }
+
+    const responses = [...(node.comments?.nodes ?? []), ...(node.reviews?.nodes ?? [])]
+      .filter((response): response is { createdAt: string; author?: GitHubGraphQLActorRaw | null } =>
+        Boolean(response?.createdAt),
+      )
+      .map((response) => ({
+        author: response.author?.login ?? null,
+        author_is_bot: isBotActor(response.author),
+        created_at: response.createdAt,
+      }))
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+    return {
+      kind,
+      author: node.author?.login ?? null,
+      author_is_bot: isBotActor(node.author),
+      created_at: node.createdAt,
+      closed_at: node.closedAt ?? null,
+      merged_at: node.mergedAt ?? null,
+      responses,
+    };
   }
 
   private transformRepository(repo: GitHubApiRepositoryRaw): GitHubRepository {
@@ -195,11 +680,76 @@ export class GitHubClient {
     };
   }
 
+  private transformGraphQLRepository(node: GitHubGraphQLRepositoryRaw): GitHubRepositoryDetails {
+    const languages: Record<string, number> = {};
+    for (const edge of node.languages?.edges ?? []) {
+      if (edge?.node?.name) {
+        languages[edge.node.name] = edge.size ?? 0;
+      }
+    }
+
+    const [owner = '', name = ''] = (node.nameWithOwner ?? '').split('/');
+    const openIssues = (node.issues?.totalCount ?? 0) + (node.pullRequests?.totalCount ?? 0);
+
+    // Reuse the REST transformation so both sources produce identical repositories
+    const repository = this.transformRepository({
+      id: node.databaseId ?? undefined,
+      full_name: node.nameWithOwner,
+      name: node.name ?? name,
+      owner: {
+        login: node.owner?.login ?? owner,
+        type: node.owner?.__typename,
+      },
+      description: node.description,
+      language: node.primaryLanguage?.name ?? null,
+      license: node.licenseInfo?.name ? { name: node.licenseInfo.name } : null,
+      homepage: node.homepageUrl || null,
+      topics: (node.repositoryTopics?.nodes ?? []).map((topicNode) => topicNode?.topic?.name),
+      created_at: node.createdAt,
+      updated_at: node.updatedAt,
+      pushed_at: node.pushedAt,
+      stargazers_count: node.stargazerCount,
+      forks_count: node.forkCount,
+      watchers_count: node.watchers?.totalCount,
+      size: node.diskUsage ?? undefined,
+      // REST counts open pull requests as issues as well
+      open_issues_count: openIssues,
+      has_issues: node.hasIssuesEnabled,
+      has_projects: node.hasProjectsEnabled,
+      has_wiki: node.hasWikiEnabled,
+      archived: node.isArchived,
+      disabled: node.isDisabled,
+    });
+
+    return {
+      repository,
+      metrics: {
+        languages,
+        license_spdx_id: node.licenseInfo?.spdxId ?? null,
+        commits_count: node.defaultBranchRef?.target?.history?.totalCount ?? null,
+        releases_count: node.releases?.totalCount ?? 0,
+      },
+    };
+  }
+
   private transformSearchResult(repo: GitHubApiRepositoryRaw): GitHubRepository {
     return this.transformRepository(repo);
   }
 
   private handleError(error: unknown, context: string): never {
+    // A pause ended a rate-limit wait; callers tell it apart from API failures
+    if (error instanceof RateLimitWaitAbortedError) {
+      throw error;
+    }
+
+    if (error instanceof CacheMissError) {
+      throw new GitHubApiError(`${context}: ${error.message} (cache-only mode)`, undefined, error);
+    }
+
+    if (error instanceof FixtureNotFoundError) {
+      throw new GitHubApiError(`${context}: ${error.message} (replay mode)`, undefined, error);
+    }
+
     if (error && typeof error === 'object' && 'status' in error) {
       const octokitError = error as { status: number; message?: string };
 
@@ -212,6 +762,8 @@ export class GitHubClient {
             403,
             error,
           );
+        case 429:
+          throw new GitHubApiError(`${context}: Rate limit exceeded and retries were exhausted.`, 429, error);
         case 404:
           throw new GitHubApiError(
             `${context}: Resource not found. The repository may not exist or be private.`,
@@ -235,8 +787,19 @@ export class GitHubClient {
 
     throw new GitHubApiError(`${context}: Unknown error occurred`, undefined, error);
   }
+}
 
-  private delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
+function parseLastPage(link: string | undefined): number | null {
+  const match = link?.match(/[?&]page=(\d+)[^>]*>;\s*rel="last"/);
+  return match?.[1] ? Number.parseInt(match[1], 10) : null;
+}
+
+function isBotActor(actor: GitHubGraphQLActorRaw | null | undefined): boolean {
+  if (!actor) return false;
+  return actor.__typename === 'Bot' || /\[bot\]$|-bot$/i.test(actor.login ?? '');
+}
+
+function parseAuthorizationToken(header: unknown): string | undefined {
+  if (typeof header !== 'string') return undefined;
+  return header.replace(/^(token|bearer)\s+/i, '') || undefined;
 }
@@ -0,0 +1,315 @@
+/**
+ * Central request scheduler for GitHub API rate limits.
+ *
+ * Tracks the primary rate-limit budget of each token and bucket from
+ * `x-ratelimit-*` response headers, rotates to the token with the most
+ * remaining quota, pauses requests until a bucket resets once every token is
+ * exhausted, and retries rate-limited or transiently failing requests with
+ * exponential backoff and jitter. Aborting the `signal` option ends these
+ * waits early, so a paused collection does not sit out a rate-limit reset.
+ */
+
+import { setTimeout as delay } from 'node:timers/promises';
+import { createLogger } from '../logging/logger.js';
+import type { PooledToken, TokenPool } from './token-pool.js';
+
+const logger = createLogger('RateLimitScheduler');
+
+export type RateLimitBucket = 'core' | 'search' | 'graphql';
+
+export interface RateLimitBudget {
+  limit: number | null;
+  remaining: number | null;
+  // Unix epoch seconds
+  reset: number | null;
+}
+
+export interface RateLimitSchedulerOptions {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+  now?: () => number;
+  // Aborting rejects pending and future waits with RateLimitWaitAbortedError
+  signal?: AbortSignal;
+}
+
+export class RateLimitWaitAbortedError extends Error {
+  constructor() {
+    super('Waiting for the GitHub rate limit was aborted');
+    this.name = 'RateLimitWaitAbortedError';
+  }
+}
+
+type ResponseHeaders = Record<string, string | number | undefined>;
+
+interface ScheduledResponse {
+  headers: ResponseHeaders;
+}
+
+const RESET_MARGIN_MS = 1000;
+
+export class RateLimitScheduler {
+  private readonly maxRetries: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly sleep: (ms: number, signal?: AbortSignal) => Promise<void>;
+  private readonly now: () => number;
+  private signal: AbortSignal | undefined;
+
+  constructor(
+    private pool: TokenPool,
+    options: RateLimitSchedulerOptions = {},
+  ) {
+    this.maxRetries = options.maxRetries ?? 5;
+    this.baseDelayMs = options.baseDelayMs ?? 1000;
+    this.maxDelayMs = options.maxDelayMs ?? 60_000;
+    this.sleep = options.sleep ?? ((ms, signal) => delay(ms, undefined, { signal }));
+    this.now = options.now ?? (() => Date.now());
+    this.signal = options.signal;
+  }
+
+  static bucketFor(url: string): RateLimitBucket {
+    if (url.startsWith('/search/')) return 'search';
+    if (url.startsWith('/graphql')) return 'graphql';
+    return 'core';
+  }
+
+  /**
+   * Replace the signal that aborts rate-limit waits, e.g. for the next collection run.
+   */
+  useSignal(signal: AbortSignal | undefined): void {
+    this.signal = signal;
+  }
+
+  /**
+   * Run a request with the best available token. `pinnedToken` forces a
+   * specific token, e.g. when querying the quota of every token in the pool.
+   */
+  async schedule<T extends ScheduledResponse>(
+    bucket: RateLimitBucket,
+    task: (token: string) => T | Promise<T>,
+    pinnedToken?: string,
+  ): Promise<T> {
+    let attempt = 0;
+
+    while (true) {
+      const entry = await this.acquire(bucket, pinnedToken);
+
+      try {
+        const response = await task(entry.token);
+        this.updateFromHeaders(entry, bucket, response.headers);
+        return response;
+      } catch (error) {
+        const retryDelay = this.handleFailure(error, entry, bucket, attempt, pinnedToken !== undefined);
+        if (retryDelay === 0) {
+          continue;
+        }
+
+        attempt++;
+        logger.warn(
+          `${bucket} request failed (status ${getErrorStatus(error) ?? 'unknown'}, ${entry.label}), retrying in ${Math.ceil(retryDelay / 1000)}s (attempt ${attempt}/${this.maxRetries})`,
+        );
+        await this.wait(retryDelay);
+      }
+    }
+  }
+
+  /**
+   * Decide how to continue after a failed request: 0 retries immediately with
+   * another token, a positive value is the backoff before retrying, and errors
+   * that cannot be retried are rethrown.
+   */
+  private handleFailure(
+    error: unknown,
+    entry: PooledToken,
+    bucket: RateLimitBucket,
+    attempt: number,
+    pinned: boolean,
+  ): number {
+    const headers = getErrorHeaders(error);
+    if (headers) {
+      this.updateFromHeaders(entry, bucket, headers);
+    }
+
+    const status = getErrorStatus(error);
+
+    // A rejected token is dropped and the request moves on to the next one
+    if (status === 401) {
+      this.pool.revoke(entry);
+      if (!pinned && this.pool.activeCount > 0) return 0;
+      throw error;
+    }
+
+    // Primary limit: another token may still have quota, otherwise acquire() waits for the reset.
+    // Without a future reset (missing header or clock skew) the same token would be selected again
+    // right away, so the retry is backed off and counted against maxRetries instead.
+    const primaryLimit = isPrimaryLimitError(error);
+    if (primaryLimit && !pinned && this.pool.isExhausted(entry, bucket, this.now())) {
+      return 0;
+    }
+
+    const retryDelay = this.getRetryDelay(error, attempt) ?? (primaryLimit ? this.backoff(attempt) : null);
+    if (retryDelay === null || attempt >= this.maxRetries) {
+      throw error;
+    }
+
+    return Math.max(retryDelay, 1);
+  }
+
+  private updateFromHeaders(entry: PooledToken, bucket: RateLimitBucket, headers: ResponseHeaders): void {
+    const remaining = parseHeader(headers['x-ratelimit-remaining']);
+    if (remaining === null) return;
+
+    this.pool.updateBudget(entry, bucket, {
+      limit: parseHeader(headers['x-ratelimit-limit']),
+      remaining,
+      reset: parseHeader(headers['x-ratelimit-reset']),
+    });
+  }
+
+  private async acquire(bucket: RateLimitBucket, pinnedToken?: string): Promise<PooledToken> {
+    if (pinnedToken) {
+      const pinned = this.pool.find(pinnedToken);
+      if (!pinned) {
+        throw new Error('Pinned token is not part of the token pool');
+      }
+      this.pool.recordRequest(pinned, bucket);
+      return pinned;
+    }
+
+    while (true) {
+      const entry = this.pool.select(bucket, this.now());
+      if (entry) {
+        // Reserved in the same tick as the selection so concurrent requests see the reduced budget
+        this.pool.recordRequest(entry, bucket);
+        return entry;
+      }
+
+      const reset = this.pool.earliestReset(bucket);
+      if (reset === null) {
+        throw new Error('No usable GitHub token left in the pool');
+      }
+
+      const waitMs = Math.max(reset * 1000 - this.now(), 0) + RESET_MARGIN_MS;
+      logger.warn(
+        `${bucket} rate limit exhausted on all ${this.pool.activeCount} token(s), waiting ${Math.ceil(waitMs / 1000)}s until ${new Date(reset * 1000).toISOString()}`,
+      );
+      await this.wait(waitMs);
+
+      // Budgets are unknown again until the next response reports them
+      for (const pooled of this.pool.entries()) {
+        if (pooled.budgets.get(bucket)?.reset === reset) {
+          this.pool.clearBudget(pooled, bucket);
+        }
+      }
+    }
+  }
+
+  /**
+   * Sleep for `ms`, ending early with RateLimitWaitAbortedError once the signal
+   * aborts. Custom sleep functions may ignore the signal, so the abort is raced.
+   */
+  private async wait(ms: number): Promise<void> {
+    const signal = this.signal;
+    if (!signal) {
+      await this.sleep(ms);
+      return;
+    }
+
+    let onAbort!: () => void;
+    const aborted = new Promise<void>((resolve) => {
+      onAbort = resolve;
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+
+    try {
+      if (!signal.aborted) {
+        await Promise.race([this.sleep(ms, signal), aborted]);
+      }
+    } catch (error) {
+      // The default sleep rejects with its own AbortError
+      if (!signal.aborted) throw error;
+    } finally {
+      signal.removeEventListener('abort', onAbort);
+    }
+
+    if (signal.aborted) {
+      throw new RateLimitWaitAbortedError();
+    }
+  }
+
+  private getRetryDelay(error: unknown, attempt: number): number | null {
+    const status = getErrorStatus(error);
+
+    if (status === 403 || status === 429) {
+      const headers = getErrorHeaders(error) ?? {};
+
+      const retryAfter = parseHeader(headers['retry-after']);
+      if (retryAfter !== null) {
+        return retryAfter * 1000;
+      }
+
+      const reset = parseHeader(headers['x-ratelimit-reset']);
+      if (parseHeader(headers['x-ratelimit-remaining']) === 0 && reset !== null) {
+        return Math.max(reset * 1000 - this.now(), 0) + RESET_MARGIN_MS;
+      }
+
+      // Secondary rate limits do not always send headers
+      if (status === 429 || /rate limit/i.test(getErrorMessage(error))) {
+        return this.backoff(attempt);
+      }
+
+      return null;
+    }
+
+    // Server errors (Octokit also reports network failures as 500) are usually transient
+    if (status !== undefined && status >= 500) {
+      return this.backoff(attempt);
+    }
+
+    return null;
+  }
+
+  private backoff(attempt: number): number {
+    const exponential = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** attempt);
+    // Equal jitter keeps concurrent retries from firing in lockstep
+    return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+  }
+}
+
+function isPrimaryLimitError(error: unknown): boolean {
+  const status = getErrorStatus(error);
+  const headers = getErrorHeaders(error);
+  return (
+    (status === 403 || status === 429) &&
+    headers !== null &&
+    parseHeader(headers['x-ratelimit-remaining']) === 0 &&
+    headers['retry-after'] === undefined
+  );
+}
+
+function parseHeader(value: string | number | undefined): number | null {
+  if (value === undefined) return null;
+  const parsed = typeof value === 'number' ? value : Number.parseInt(value, 10);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+function getErrorStatus(error: unknown): number | undefined {
+  if (error && typeof error === 'object' && 'status' in error && typeof error.status === 'number') {
+    return error.status;
+  }
+  return undefined;
+}
+
+function getErrorHeaders(error: unknown): ResponseHeaders | null {
+  if (error && typeof error === 'object' && 'response' in error) {
+    const response = error.response as { headers?: ResponseHeaders } | undefined;
+    return response?.headers ?? null;
+  }
+  return null;
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : '';
+}
@@ -0,0 +1,156 @@
+/**
+ * Record/replay transport for GitHub API traffic.
+ *
+ * In `record` mode every request that reaches the network is written to a
+ * fixture file together with its response (or error response). In `replay`
+ * mode requests are answered only from those fixtures, and a request without
+ * a fixture fails instead of going to the network. Fixtures are keyed by the
+ * same request identity as the response cache, which leaves out all headers,
+ * so tokens never end up in fixture files.
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { createLogger } from '../logging/logger.js';
+import { type CacheableRequestOptions, type CacheableResponse, ResponseCache } from './response-cache.js';
+
+const logger = createLogger('RecordingTransport');
+
+export type TransportMode = 'live' | 'record' | 'replay';
+
+export interface TransportOptions {
+  mode: TransportMode;
+  fixturesDir: string;
+}
+
+export interface GitHubFixture {
+  request: Record<string, unknown>;
+  response: CacheableResponse;
+  // Set when Octokit rejected the request, e.g. for 404 or 304 responses
+  error_message?: string;
+}
+
+export class FixtureNotFoundError extends Error {
+  constructor(
+    message: string,
+    public fixturePath: string,
+  ) {
+    super(message);
+    this.name = 'FixtureNotFoundError';
+  }
+}
+
+/**
+ * Error thrown for recorded error responses, shaped like Octokit's RequestError.
+ */
+export class ReplayedRequestError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public response: CacheableResponse,
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+const TRANSPORT_MODES: TransportMode[] = ['live', 'record', 'replay'];
+
+export const DEFAULT_FIXTURES_DIR = 'tests/fixtures/github';
+
+/**
+ * Read transport settings from GITHUB_TRANSPORT_MODE and GITHUB_FIXTURES_DIR.
+ */
+export function resolveTransportOptions(env: NodeJS.ProcessEnv = process.env): TransportOptions {
+  const mode = (env.GITHUB_TRANSPORT_MODE ?? 'live') as TransportMode;
+  if (!TRANSPORT_MODES.includes(mode)) {
+    throw new Error(`Invalid GITHUB_TRANSPORT_MODE: ${mode} (expected one of ${TRANSPORT_MODES.join(', ')})`);
+  }
+
+  return { mode, fixturesDir: env.GITHUB_FIXTURES_DIR || DEFAULT_FIXTURES_DIR };
+}
+
+export class RecordingTransport {
+  constructor(private options: TransportOptions) {}
+
+  get mode(): TransportMode {
+    return this.options.mode;
+  }
+
+  /**
+   * Fixture file for a request: the expanded route plus the request identity hash.
+   */
+  fixturePathFor(options: CacheableRequestOptions): string {
+    const url = options.url.replace(/\{(\w+)\}/g, (_match, name: string) => String(options[name] ?? name));
+    const slug = `${options.method}-${url}`.replace(/[^A-Za-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    return join(this.options.fixturesDir, `${slug}-${ResponseCache.keyFor(options).slice(0, 16)}.json`);
+  }
+
+  async handle<O extends CacheableRequestOptions, R extends CacheableResponse>(
+    options: O,
+    request: (options: O) => R | Promise<R>,
+  ): Promise<R> {
+    if (this.options.mode === 'replay') {
+      return this.replay<R>(options);
+    }
+    if (this.options.mode === 'live') {
+      return request(options);
+    }
+
+    try {
+      const response = await request(options);
+      await this.record(options, response);
+      return response;
+    } catch (error) {
+      const response = getErrorResponse(error);
+      if (response) {
+        await this.record(options, response, error instanceof Error ? error.message : String(error));
+      }
+      throw error;
+    }
+  }
+
+  private async replay<R extends CacheableResponse>(options: CacheableRequestOptions): Promise<R> {
+    const path = this.fixturePathFor(options);
+
+    let fixture: GitHubFixture;
+    try {
+      fixture = JSON.parse(await readFile(path, 'utf-8')) as GitHubFixture;
+    } catch (error) {
+      if (error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT') {
+        throw new FixtureNotFoundError(`No recorded fixture for ${options.method} ${options.url} (${path})`, path);
+      }
+      throw error;
+    }
+
+    if (fixture.error_message !== undefined) {
+      throw new ReplayedRequestError(fixture.error_message, fixture.response.status, fixture.response);
+    }
+    return fixture.response as R;
+  }
+
+  private async record(
+    options: CacheableRequestOptions,
+    response: CacheableResponse,
+    errorMessage?: string,
+  ): Promise<void> {
+    const { headers: _headers, request: _request, ...identity } = options;
+    const fixture: GitHubFixture = {
+      request: identity,
+      response: { status: response.status, url: response.url, headers: response.headers, data: response.data },
+      ...(errorMessage !== undefined && { error_message: errorMessage }),
+    };
+
+    const path = this.fixturePathFor(options);
+    await mkdir(this.options.fixturesDir, { recursive: true });
+    await writeFile(path, `${JSON.stringify(fixture, null, 2)}\n`);
+    logger.debug(`Recorded ${options.method} ${options.url} to ${path}`);
+  }
+}
+
+function getErrorResponse(error: unknown): CacheableResponse | null {
+  if (error && typeof error === 'object' && 'response' in error && error.response) {
+    return error.response as CacheableResponse;
+  }
+  return null;
+}
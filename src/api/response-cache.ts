@@ -0,0 +1,201 @@
+/**
+ * Persistent GitHub response cache backed by SQLite.
+ *
+ * Stores response bodies with their ETag/Last-Modified validators and replays
+ * them when GitHub answers a conditional request with 304 Not Modified, which
+ * does not count against the rate limit. Entries younger than the TTL are
+ * served without any request, and `cache-only` mode never touches the network.
+ */
+
+import { createHash } from 'node:crypto';
+import { eq } from 'drizzle-orm';
+import { api_response_cache } from '../../drizzle/schema.js';
+import { createLogger } from '../logging/logger.js';
+import type { StellarDatabase } from '../repository/database.js';
+import type { ApiResponseCacheEntry, InsertApiResponseCacheEntry } from '../types/index.js';
+
+const logger = createLogger('ResponseCache');
+
+export type ResponseCacheMode = 'off' | 'read-write' | 'cache-only';
+
+export interface ResponseCacheOptions {
+  mode: ResponseCacheMode;
+  ttlSeconds?: number;
+}
+
+type Headers = Record<string, string | number | undefined>;
+
+export interface CacheableRequestOptions {
+  method: string;
+  url: string;
+  headers: Headers;
+  [key: string]: unknown;
+}
+
+export interface CacheableResponse {
+  status: number;
+  url: string;
+  headers: Headers;
+  data: unknown;
+}
+
+export class CacheMissError extends Error {
+  constructor(
+    message: string,
+    public url: string,
+  ) {
+    super(message);
+    this.name = 'CacheMissError';
+  }
+}
+
+// Quota checks must always reflect the live state
+const UNCACHED_URLS = new Set(['/rate_limit']);
+
+const CACHE_MODES: ResponseCacheMode[] = ['off', 'read-write', 'cache-only'];
+
+/**
+ * Read cache settings from GITHUB_CACHE_MODE and GITHUB_CACHE_TTL (seconds).
+ */
+export function resolveCacheOptions(env: NodeJS.ProcessEnv = process.env): ResponseCacheOptions {
+  const mode = (env.GITHUB_CACHE_MODE ?? 'read-write') as ResponseCacheMode;
+  if (!CACHE_MODES.includes(mode)) {
+    throw new Error(`Invalid GITHUB_CACHE_MODE: ${mode} (expected one of ${CACHE_MODES.join(', ')})`);
+  }
+
+  const ttlSeconds = Number.parseInt(env.GITHUB_CACHE_TTL ?? '0', 10);
+  return { mode, ttlSeconds: Number.isNaN(ttlSeconds) ? 0 : ttlSeconds };
+}
+
+export class ResponseCache {
+  private readonly ttlMs: number;
+
+  constructor(
+    private options: ResponseCacheOptions,
+    private db: StellarDatabase,
+  ) {
+    this.ttlMs = (options.ttlSeconds ?? 0) * 1000;
+  }
+
+  get mode(): ResponseCacheMode {
+    return this.options.mode;
+  }
+
+  static isCacheable(options: CacheableRequestOptions): boolean {
+    if (UNCACHED_URLS.has(options.url)) return false;
+    // GraphQL queries are POSTs but read-only, so they are cached by query and variables
+    return options.method === 'GET' || options.url === '/graphql';
+  }
+
+  static keyFor(options: CacheableRequestOptions): string {
+    const { headers: _headers, request: _request, ...identity } = options;
+    return createHash('sha256').update(stableStringify(identity)).digest('hex');
+  }
+
+  async handle<O extends CacheableRequestOptions, R extends CacheableResponse>(
+    options: O,
+    request: (options: O) => R | Promise<R>,
+  ): Promise<R> {
+    if (this.options.mode === 'off' || !ResponseCache.isCacheable(options)) {
+      return request(options);
+    }
+
+    const key = ResponseCache.keyFor(options);
+    const cached = await this.get(key);
+
+    if (this.options.mode === 'cache-only') {
+      if (!cached) {
+        throw new CacheMissError(`No cached response for ${options.method} ${options.url}`, options.url);
+      }
+      return this.toResponse<R>(cached);
+    }
+
+    if (cached && this.isFresh(cached)) {
+      return this.toResponse<R>(cached);
+    }
+
+    const headers = { ...options.headers };
+    if (cached?.etag) headers['if-none-match'] = cached.etag;
+    if (cached?.last_modified) headers['if-modified-since'] = cached.last_modified;
+
+    try {
+      const response = await request({ ...options, headers });
+      await this.put(key, options, response).catch((error) => {
+        logger.warn(`Failed to store ${options.method} ${options.url}`, { error });
+      });
+      return response;
+    } catch (error) {
+      if (cached && error && typeof error === 'object' && 'status' in error && error.status === 304) {
+        logger.debug(`Not modified, serving cached ${options.method} ${options.url}`);
+        await this.touch(key);
+        return this.toResponse<R>(cached);
+      }
+      throw error;
+    }
+  }
+
+  private async get(key: string): Promise<ApiResponseCacheEntry | null> {
+    const [entry] = await this.db
+      .select()
+      .from(api_response_cache)
+      .where(eq(api_response_cache.cache_key, key))
+      .limit(1);
+
+    return entry ?? null;
+  }
+
+  private async put(key: string, options: CacheableRequestOptions, response: CacheableResponse): Promise<void> {
+    if (response.status !== 200) return;
+
+    const entry: InsertApiResponseCacheEntry = {
+      cache_key: key,
+      method: options.method,
+      url: response.url,
+      status: response.status,
+      etag: typeof response.headers.etag === 'string' ? response.headers.etag : null,
+      last_modified: typeof response.headers['last-modified'] === 'string' ? response.headers['last-modified'] : null,
+      headers: response.headers,
+      body: response.data,
+      fetched_at: new Date().toISOString(),
+    };
+
+    await this.db
+      .insert(api_response_cache)
+      .values(entry)
+      .onConflictDoUpdate({ target: api_response_cache.cache_key, set: entry });
+  }
+
+  private async touch(key: string): Promise<void> {
+    await this.db
+      .update(api_response_cache)
+      .set({ fetched_at: new Date().toISOString() })
+      .where(eq(api_response_cache.cache_key, key));
+  }
+
+  private isFresh(entry: ApiResponseCacheEntry): boolean {
+    return this.ttlMs > 0 && Date.now() - Date.parse(entry.fetched_at) < this.ttlMs;
+  }
+
+  private toResponse<R extends CacheableResponse>(entry: ApiResponseCacheEntry): R {
+    const response: CacheableResponse = {
+      status: entry.status,
+      url: entry.url,
+      headers: (entry.headers ?? {}) as Headers,
+      data: entry.body,
+    };
+    return response as R;
+  }
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
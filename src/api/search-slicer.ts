@@ -0,0 +1,194 @@
+/**
+ * Search API result-cap slicing helpers.
+ *
+ * The Search API never returns more than 1000 items for a single query, so a
+ * query whose total_count exceeds that cap is narrowed into star-range and
+ * `created:` date windows until every window fits.
+ */
+
+export const SEARCH_RESULT_CAP = 1000;
+
+// GitHub launched in 2008; nothing can have been created earlier
+const EARLIEST_CREATED_DATE = '2007-10-01';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface StarRange {
+  min: number;
+  max: number | null;
+}
+
+export interface CreatedRange {
+  from: string;
+  to: string;
+}
+
+export interface SearchSlice {
+  query: string;
+  stars: StarRange;
+  created: CreatedRange | null;
+}
+
+/**
+ * Position of a sliced search: the slices still to search (the first one is
+ * in progress), the next page of that slice and how many results were yielded.
+ * It is plain JSON so it can be checkpointed and resumed later.
+ */
+export interface SearchCursor {
+  slices: SearchSlice[];
+  page: number;
+  collected: number;
+  // total_count GitHub reported for the original query, set by the first page
+  totalFound?: number;
+}
+
+export function createSearchCursor(query: string): SearchCursor {
+  return { slices: [createRootSlice(query)], page: 1, collected: 0 };
+}
+
+export function createRootSlice(query: string): SearchSlice {
+  return {
+    query,
+    stars: parseStarsQualifier(query) ?? { min: 0, max: null },
+    created: parseCreatedQualifier(query),
+  };
+}
+
+export function parseStarsQualifier(query: string): StarRange | null {
+  const value = findQualifier(query, 'stars');
+  if (!value) return null;
+
+  const range = value.match(/^(\*|\d+)\.\.(\*|\d+)$/);
+  if (range) {
+    return {
+      min: range[1] === '*' ? 0 : Number(range[1]),
+      max: range[2] === '*' ? null : Number(range[2]),
+    };
+  }
+
+  const comparison = value.match(/^(>=|<=|>|<)?(\d+)$/);
+  if (!comparison) return null;
+
+  const bound = Number(comparison[2]);
+  switch (comparison[1]) {
+    case '>':
+      return { min: bound + 1, max: null };
+    case '>=':
+      return { min: bound, max: null };
+    case '<':
+      return { min: 0, max: Math.max(bound - 1, 0) };
+    case '<=':
+      return { min: 0, max: bound };
+    default:
+      return { min: bound, max: bound };
+  }
+}
+
+export function parseCreatedQualifier(query: string): CreatedRange | null {
+  const value = findQualifier(query, 'created');
+  if (!value) return null;
+
+  const today = formatDate(new Date());
+  const range = value.match(/^(\*|\d{4}-\d{2}-\d{2})\.\.(\*|\d{4}-\d{2}-\d{2})$/);
+  if (range?.[1] && range[2]) {
+    return {
+      from: range[1] === '*' ? EARLIEST_CREATED_DATE : range[1],
+      to: range[2] === '*' ? today : range[2],
+    };
+  }
+
+  const comparison = value.match(/^(>=|<=|>|<)?(\d{4}-\d{2}-\d{2})$/);
+  if (!comparison?.[2]) return null;
+
+  const date = comparison[2];
+  switch (comparison[1]) {
+    case '>':
+      return { from: shiftDate(date, 1), to: today };
+    case '>=':
+      return { from: date, to: today };
+    case '<':
+      return { from: EARLIEST_CREATED_DATE, to: shiftDate(date, -1) };
+    case '<=':
+      return { from: EARLIEST_CREATED_DATE, to: date };
+    default:
+      return { from: date, to: date };
+  }
+}
+
+/**
+ * Replace (or append) a qualifier in a search query.
+ */
+export function withQualifier(query: string, name: string, value: string): string {
+  const pattern = new RegExp(`(^|\\s)${name}:\\S+`, 'g');
+  const stripped = query.replace(pattern, ' ').replace(/\s+/g, ' ').trim();
+  return `${stripped} ${name}:${value}`.trim();
+}
+
+/**
+ * Split a slice into narrower windows. Star ranges are split first (at the
+ * geometric midpoint, since star counts are heavily skewed); once a slice
+ * covers a single star count it is split by creation date instead.
+ *
+ * `starCeiling` is the highest star count matching the slice and is required
+ * when the slice has no upper star bound. Returns null when the slice cannot
+ * be narrowed any further. Children are ordered by descending star count.
+ */
+export function splitSlice(slice: SearchSlice, starCeiling?: number): SearchSlice[] | null {
+  const maxStars = slice.stars.max ?? starCeiling;
+
+  if (maxStars !== undefined && maxStars > slice.stars.min) {
+    const pivot = starPivot(slice.stars.min, maxStars);
+    return [
+      buildSlice(slice, { min: pivot + 1, max: maxStars }, slice.created),
+      buildSlice(slice, { min: slice.stars.min, max: pivot }, slice.created),
+    ];
+  }
+
+  const created = slice.created ?? { from: EARLIEST_CREATED_DATE, to: formatDate(new Date()) };
+  const days = daysBetween(created.from, created.to);
+  if (days < 1) {
+    return null;
+  }
+
+  const pivot = shiftDate(created.from, Math.floor(days / 2));
+  const stars = maxStars === undefined ? slice.stars : { min: slice.stars.min, max: maxStars };
+  return [
+    buildSlice(slice, stars, { from: shiftDate(pivot, 1), to: created.to }),
+    buildSlice(slice, stars, { from: created.from, to: pivot }),
+  ];
+}
+
+function buildSlice(parent: SearchSlice, stars: StarRange, created: CreatedRange | null): SearchSlice {
+  let query = withQualifier(parent.query, 'stars', formatStarRange(stars));
+  if (created) {
+    query = withQualifier(query, 'created', `${created.from}..${created.to}`);
+  }
+  return { query, stars, created };
+}
+
+function starPivot(min: number, max: number): number {
+  const geometric = Math.floor(Math.sqrt(Math.max(min, 1) * max));
+  return Math.min(Math.max(geometric, min), max - 1);
+}
+
+function formatStarRange(range: StarRange): string {
+  if (range.max === null) return `>=${range.min}`;
+  return range.min === range.max ? `${range.min}` : `${range.min}..${range.max}`;
+}
+
+function findQualifier(query: string, name: string): string | null {
+  const match = query.match(new RegExp(`(?:^|\\s)${name}:(\\S+)`));
+  return match?.[1] ?? null;
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function shiftDate(date: string, days: number): string {
+  return formatDate(new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS));
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
@@ -0,0 +1,147 @@
+/**
+ * Pool of GitHub credentials with per-token rate-limit budgets.
+ *
+ * Each request is sent with the token that has the most remaining quota in
+ * the request's bucket; exhausted tokens are skipped until they reset and
+ * revoked tokens are dropped from the rotation.
+ */
+
+import { createLogger } from '../logging/logger.js';
+import type { RateLimitBucket, RateLimitBudget } from './rate-limit-scheduler.js';
+
+const logger = createLogger('TokenPool');
+
+export interface PooledToken {
+  label: string;
+  token: string;
+  revoked: boolean;
+  requests: number;
+  budgets: Map<RateLimitBucket, RateLimitBudget>;
+}
+
+export interface TokenUsage {
+  label: string;
+  revoked: boolean;
+  requests: number;
+  budgets: Partial<Record<RateLimitBucket, RateLimitBudget>>;
+}
+
+/**
+ * Combine the primary token with the `GITHUB_TOKENS` pool (comma or
+ * whitespace separated), dropping blanks and duplicates.
+ */
+export function resolveGitHubTokens(primaryToken?: string, pool = process.env.GITHUB_TOKENS): string[] {
+  const tokens = [primaryToken ?? '', ...(pool ?? '').split(/[\s,]+/)].map((token) => token.trim());
+  return Array.from(new Set(tokens.filter((token) => token.length > 0)));
+}
+
+export class TokenPool {
+  private tokens: PooledToken[];
+
+  constructor(tokens: string[]) {
+    this.tokens = tokens.map((token, index) => ({
+      label: `token#${index + 1} (…${token.slice(-4)})`,
+      token,
+      revoked: false,
+      requests: 0,
+      budgets: new Map(),
+    }));
+  }
+
+  get size(): number {
+    return this.tokens.length;
+  }
+
+  get activeCount(): number {
+    return this.tokens.filter((entry) => !entry.revoked).length;
+  }
+
+  find(token: string): PooledToken | undefined {
+    return this.tokens.find((entry) => entry.token === token);
+  }
+
+  /**
+   * Pick the usable token with the most remaining quota in a bucket. Tokens
+   * whose budget is still unknown are preferred so every token gets probed.
+   */
+  select(bucket: RateLimitBucket, nowMs: number): PooledToken | null {
+    let best: PooledToken | null = null;
+    let bestRemaining = Number.NEGATIVE_INFINITY;
+
+    for (const entry of this.tokens) {
+      if (entry.revoked || this.isExhausted(entry, bucket, nowMs)) continue;
+
+      const remaining = entry.budgets.get(bucket)?.remaining ?? Number.POSITIVE_INFINITY;
+      if (remaining > bestRemaining || (remaining === bestRemaining && best && entry.requests < best.requests)) {
+        best = entry;
+        bestRemaining = remaining;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Earliest reset (epoch seconds) among active tokens exhausted in a bucket.
+   */
+  earliestReset(bucket: RateLimitBucket): number | null {
+    const resets = this.tokens
+      .filter((entry) => !entry.revoked)
+      .map((entry) => entry.budgets.get(bucket)?.reset)
+      .filter((reset): reset is number => typeof reset === 'number');
+
+    return resets.length > 0 ? Math.min(...resets) : null;
+  }
+
+  updateBudget(entry: PooledToken, bucket: RateLimitBucket, budget: RateLimitBudget): void {
+    entry.budgets.set(bucket, { ...budget });
+  }
+
+  clearBudget(entry: PooledToken, bucket: RateLimitBucket): void {
+    entry.budgets.delete(bucket);
+  }
+
+  /**
+   * Count a request against a token and reserve one unit of its known budget,
+   * so concurrent requests do not all pick the same nearly exhausted token.
+   * The next response's headers replace the estimate with the real value.
+   */
+  recordRequest(entry: PooledToken, bucket?: RateLimitBucket): void {
+    entry.requests++;
+
+    const budget = bucket ? entry.budgets.get(bucket) : undefined;
+    if (budget && budget.remaining !== null) {
+      budget.remaining = Math.max(budget.remaining - 1, 0);
+    }
+  }
+
+  revoke(entry: PooledToken): void {
+    if (!entry.revoked) {
+      entry.revoked = true;
+      logger.warn(`${entry.label} was rejected by GitHub and removed from rotation`);
+    }
+  }
+
+  entries(): PooledToken[] {
+    return [...this.tokens];
+  }
+
+  getUsage(): TokenUsage[] {
+    return this.tokens.map((entry) => ({
+      label: entry.label,
+      revoked: entry.revoked,
+      requests: entry.requests,
+      budgets: Object.fromEntries(entry.budgets),
+    }));
+  }
+
+  /**
+   * Whether the token's budget for the bucket is used up until a reset that is
+   * still in the future. Without a known future reset the token stays selectable.
+   */
+  isExhausted(entry: PooledToken, bucket: RateLimitBucket, nowMs: number): boolean {
+    const budget = entry.budgets.get(bucket);
+    if (!budget || budget.remaining === null || budget.remaining > 0) return false;
+    return budget.reset !== null && budget.reset * 1000 > nowMs;
+  }
+}
@@ -0,0 +1,18 @@
+import { ComprehensiveAnalyzer } from '../../analysis/comprehensive-analyzer.js';
+import { getDatabase } from '../../repository/database.js';
+import { type CliCommand, EXIT_CODES, integerOption } from '../options.js';
+
+export const analyzeCommand: CliCommand = {
+  name: 'analyze',
+  summary: 'Print the comprehensive analysis report for the stored dataset.',
+  synopsis: 'stellar analyze [options]',
+  options: {
+    run: { type: 'string' },
+  },
+  optionHelp: [['--run <runId>', 'Analyze stage pass rates of an evaluation run (default: latest collection results)']],
+
+  async run({ values }) {
+    await new ComprehensiveAnalyzer(getDatabase(), { evaluationRunId: integerOption(values, 'run') }).execute();
+    return EXIT_CODES.success;
+  },
+};
@@ -0,0 +1,129 @@
+import { count, desc, eq } from 'drizzle-orm';
+import { batch_repositories, collection_batches } from '../../../drizzle/schema.js';
+import type { CollectionCheckpoint } from '../../core/collector.js';
+import type { BatchProgress } from '../../core/progress-reporter.js';
+import { getDatabase } from '../../repository/database.js';
+import { type CliCommand, CliUsageError, EXIT_CODES, integerOption, stringOption } from '../options.js';
+import { formatDuration } from '../progress-display.js';
+
+const BATCH_STATUSES = ['running', 'completed', 'failed', 'paused'] as const;
+
+type BatchStatus = (typeof BATCH_STATUSES)[number];
+
+export const batchesCommand: CliCommand = {
+  name: 'batches',
+  summary: 'List collection batches, or show the settings and progress of one batch.',
+  synopsis: 'stellar batches list [options] | stellar batches show <batchId> [options]',
+  options: {
+    limit: { type: 'string', short: 'n' },
+    status: { type: 'string' },
+  },
+  optionHelp: [
+    ['-n, --limit <n>', 'Number of batches to list (default: 20)'],
+    ['--status <status>', `Only list batches with this status (${BATCH_STATUSES.join(', ')})`],
+  ],
+
+  async run({ values, positionals }) {
+    const [action, batchIdArg] = positionals;
+
+    if (action === 'list') {
+      const status = stringOption(values, 'status');
+      if (status !== undefined && !BATCH_STATUSES.includes(status as BatchStatus)) {
+        throw new CliUsageError(`--status must be one of ${BATCH_STATUSES.join(', ')} (got "${status}")`);
+      }
+      await listBatches(integerOption(values, 'limit') ?? 20, status as BatchStatus | undefined);
+      return EXIT_CODES.success;
+    }
+
+    if (action === 'show') {
+      const batchId = Number(batchIdArg);
+      if (!Number.isInteger(batchId)) {
+        throw new CliUsageError('batches show requires a numeric <batchId>');
+      }
+      return showBatch(batchId);
+    }
+
+    throw new CliUsageError('batches requires a subcommand: list or show <batchId>');
+  },
+};
+
+async function listBatches(limit: number, status: BatchStatus | undefined): Promise<void> {
+  const db = getDatabase();
+  const batches = await db
+    .select()
+    .from(collection_batches)
+    .where(status ? eq(collection_batches.status, status) : undefined)
+    .orderBy(desc(collection_batches.id))
+    .limit(limit);
+
+  if (batches.length === 0) {
+    console.info('No collection batches found');
+    return;
+  }
+
+  for (const batch of batches) {
+    console.info(
+      `${String(batch.id).padStart(5)}  ${batch.status.padEnd(9)}  ${String(batch.total_collected ?? 0).padStart(6)}  ${batch.started_at ?? '-'}  ${batch.name}`,
+    );
+  }
+}
+
+async function showBatch(batchId: number): Promise<number> {
+  const db = getDatabase();
+  const [batch] = await db.select().from(collection_batches).where(eq(collection_batches.id, batchId)).limit(1);
+
+  if (!batch) {
+    console.error(`❌ Collection batch ${batchId} not found`);
+    return EXIT_CODES.failure;
+  }
+
+  const [repositoryCount] = await db
+    .select({ count: count() })
+    .from(batch_repositories)
+    .where(eq(batch_repositories.batch_id, batchId));
+  const checkpoint = batch.checkpoint as CollectionCheckpoint | null;
+  const progress = batch.progress as BatchProgress | null;
+
+  console.info(`📦 Batch ${batch.id}: ${batch.name}`);
+  console.info(`   Description: ${batch.description ?? '-'}`);
+  console.info(`   Status: ${batch.status}`);
+  console.info(`   Started: ${batch.started_at ?? '-'}`);
+  console.info(`   Completed: ${batch.completed_at ?? '-'}`);
+  console.info(`   Repositories in batch: ${repositoryCount?.count ?? 0}`);
+  if (batch.total_found !== null) {
+    console.info(`   Found by search: ${batch.total_found}`);
+  }
+  if (checkpoint) {
+    console.info(`   Checkpoint: ${checkpoint.processed_ids.length} processed`);
+  }
+  if (progress) {
+    printProgress(progress);
+  }
+  if (batch.error_message) {
+    console.info(`   Error: ${batch.error_message}`);
+  }
+  console.info('   Settings:');
+  console.info(
+    JSON.stringify(batch.query_params, null, 2)
+      .split('\n')
+      .map((line) => `     ${line}`)
+      .join('\n'),
+  );
+  return EXIT_CODES.success;
+}
+
+function printProgress(progress: BatchProgress): void {
+  console.info(`   Progress (updated ${progress.updated_at}):`);
+  console.info(`     Processed: ${progress.processed}/${progress.expected ?? '?'}`);
+  for (const [stage, counts] of Object.entries(progress.stages)) {
+    console.info(`     ${stage}: ${counts.passed} passed, ${counts.failed} failed, ${counts.skipped} skipped`);
+  }
+  console.info(`     API requests: ${progress.api_requests}`);
+  for (const [bucket, remaining] of Object.entries(progress.rate_limit_remaining)) {
+    console.info(`     Rate limit remaining (${bucket}): ${remaining}`);
+  }
+  if (progress.repositories_per_minute !== null) {
+    console.info(`     Throughput: ${progress.repositories_per_minute} repositories/min`);
+  }
+  console.info(`     ETA: ${formatDuration(progress.eta_seconds)}`);
+}
@@ -0,0 +1,182 @@
+import { loadCollectionConfig, resolveTierConfigs, validateCollectionConfig } from '../../core/collection-config.js';
+import { type CollectionConfig, RepositoryCollector } from '../../core/collector.js';
+import { loadRepositoryList } from '../../core/repository-list.js';
+import { getDatabase } from '../../repository/database.js';
+import {
+  type CliCommand,
+  CliUsageError,
+  type CliValues,
+  EXIT_CODES,
+  integerEnv,
+  loadCriteria,
+  positiveIntegerOption,
+  requireGitHubToken,
+  stringOption,
+} from '../options.js';
+import { endProgressDisplay } from '../progress-display.js';
+import { reportCollectionResult, trackCollector } from '../reporting.js';
+
+const DETAILS_SOURCES = ['search', 'graphql'];
+
+export const collectCommand: CliCommand = {
+  name: 'collect',
+  summary: 'Search GitHub (or resolve a repository list) and run the results through the filtering pipeline.',
+  synopsis: 'stellar collect [options]',
+  options: {
+    config: { type: 'string', short: 'c' },
+    tier: { type: 'string' },
+    query: { type: 'string', short: 'q' },
+    limit: { type: 'string', short: 'n' },
+    'batch-size': { type: 'string' },
+    concurrency: { type: 'string' },
+    details: { type: 'string' },
+    criteria: { type: 'string' },
+    list: { type: 'string' },
+    'evaluate-all': { type: 'boolean' },
+  },
+  optionHelp: [
+    ['-c, --config <file>', 'JSON or YAML collection config (query, limits, criteria and tiers)'],
+    ['--tier <id>', 'Only collect this tier of the config file'],
+    ['-q, --query <query>', 'GitHub search query (default: $DEFAULT_QUERY or "language:typescript stars:>100")'],
+    ['-n, --limit <n>', 'Maximum repositories to collect (default: $MAX_REPOSITORIES or 1000)'],
+    ['--batch-size <n>', 'Repositories per checkpoint (default: $COLLECTION_BATCH_SIZE or 100)'],
+    ['--concurrency <n>', 'Repositories processed in parallel (default: $COLLECTION_CONCURRENCY or 4)'],
+    ['--details <source>', 'Where repository details come from: search or graphql (default: search)'],
+    ['--criteria <file>', 'JSON or YAML file overriding the filter criteria per stage'],
+    ['--list <file>', 'Collect owner/name entries from a txt, CSV or JSON file instead of searching'],
+    ['--evaluate-all', 'Evaluate every stage even after one fails (overall pass/fail is unchanged)'],
+  ],
+
+  async run({ values }) {
+    const githubToken = requireGitHubToken();
+    const configs = await resolveCollectionConfigs(values);
+    const listPath = stringOption(values, 'list');
+    if (listPath !== undefined) {
+      validateListOptions(values, configs);
+    }
+
+    const collector = new RepositoryCollector(githubToken, getDatabase());
+    trackCollector(collector);
+
+    const summary = await collector.getCollectionSummary();
+    console.info('📊 Current Database Status:');
+    console.info(`   Total Repositories: ${summary.totalRepositories}`);
+    console.info(`   Total Batches: ${summary.totalBatches}`);
+    console.info('');
+
+    if (listPath) {
+      return collectList(collector, configs[0] as CollectionConfig, listPath);
+    }
+
+    // Tier ごとに独立したバッチとして収集し、中断・失敗した時点で残りの Tier は実行しない
+    for (const config of configs) {
+      printConfiguration(config);
+      await collector.setupPipeline(config);
+
+      console.info('🚀 Starting repository collection...\n');
+      const startTime = performance.now();
+      const result = await collector.collectRepositories(config);
+      endProgressDisplay();
+
+      console.info(`\n   Duration: ${Math.round((performance.now() - startTime) / 1000)} seconds`);
+      const exitCode = reportCollectionResult(result, 'Collection Completed Successfully!');
+      if (exitCode !== EXIT_CODES.success) {
+        return exitCode;
+      }
+    }
+    return EXIT_CODES.success;
+  },
+};
+
+/**
+ * 設定ファイル・環境変数・既定値の順に設定を解決し、コマンドラインのフラグで上書きする
+ * 上書きした後の設定も設定ファイルと同じ規則で検証する
+ */
+async function resolveCollectionConfigs(values: CliValues): Promise<CollectionConfig[]> {
+  const details = stringOption(values, 'details');
+  if (details !== undefined && !DETAILS_SOURCES.includes(details)) {
+    throw new CliUsageError(`--details must be one of ${DETAILS_SOURCES.join(', ')} (got "${details}")`);
+  }
+
+  const overrides: Partial<CollectionConfig> = {
+    maxRepositories: positiveIntegerOption(values, 'limit'),
+    batchSize: positiveIntegerOption(values, 'batch-size'),
+    concurrency: positiveIntegerOption(values, 'concurrency'),
+    detailsSource: details as CollectionConfig['detailsSource'],
+    pipelineMode: values['evaluate-all'] === true ? 'evaluate-all' : undefined,
+  };
+  const defined = Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined));
+
+  const configPath = stringOption(values, 'config');
+  if (!configPath) {
+    if (values.tier !== undefined) {
+      throw new CliUsageError('--tier requires --config');
+    }
+    const config: CollectionConfig = {
+      query: stringOption(values, 'query') ?? (process.env.DEFAULT_QUERY || 'language:typescript stars:>100'),
+      maxRepositories: integerEnv('MAX_REPOSITORIES', 1000),
+      batchSize: integerEnv('COLLECTION_BATCH_SIZE', 100),
+      concurrency: integerEnv('COLLECTION_CONCURRENCY', 4),
+      detailsSource: 'search',
+      criteria: await loadCriteria(stringOption(values, 'criteria')),
+      ...defined,
+    };
+    return [validateCollectionConfig(config, 'command line')];
+  }
+
+  if (values.query !== undefined || values.criteria !== undefined) {
+    throw new CliUsageError('--query and --criteria cannot be combined with --config; set them in the config file');
+  }
+
+  const tierId = stringOption(values, 'tier');
+  const configs = resolveTierConfigs(await loadCollectionConfig(configPath)).filter(
+    (config) => tierId === undefined || config.tier?.id === tierId,
+  );
+  if (configs.length === 0) {
+    throw new CliUsageError(`Tier "${tierId}" is not defined in ${configPath}`);
+  }
+
+  return configs.map((config) => validateCollectionConfig({ ...config, ...defined }, configPath));
+}
+
+/**
+ * リストからの収集は検索を行わず 1 つのバッチにまとめるため、クエリと複数の Tier は指定できない
+ */
+function validateListOptions(values: CliValues, configs: CollectionConfig[]): void {
+  if (values.query !== undefined) {
+    throw new CliUsageError('--list cannot be combined with --query; the list replaces the search');
+  }
+  if (configs.length > 1) {
+    throw new CliUsageError('--list cannot be combined with a multi-tier config; select one tier with --tier');
+  }
+}
+
+async function collectList(collector: RepositoryCollector, config: CollectionConfig, listPath: string) {
+  const list = await loadRepositoryList(listPath);
+
+  console.info(`📋 Collecting ${list.entries.length} repositories listed in ${listPath}...\n`);
+  await collector.setupPipeline(config);
+
+  const result = await collector.collectFromList({
+    source: listPath,
+    list,
+    batchSize: config.batchSize,
+    concurrency: config.concurrency,
+    enrichment: config.enrichment,
+    pipelineMode: config.pipelineMode,
+    criteria: config.criteria,
+  });
+  return reportCollectionResult(result, 'Collection Completed Successfully!');
+}
+
+function printConfiguration(config: CollectionConfig) {
+  console.info('📋 Collection Configuration:');
+  if (config.tier) {
+    console.info(`   Tier: ${config.tier.name} (${config.tier.id})`);
+  }
+  console.info(`   Query: ${config.query}`);
+  console.info(`   Max Repositories: ${config.maxRepositories}`);
+  console.info(`   Batch Size: ${config.batchSize}`);
+  console.info(`   Concurrency: ${config.concurrency}`);
+  console.info('');
+}
@@ -0,0 +1,120 @@
+import { RepositoryEvaluator, type RunComparison } from '../../core/evaluator.js';
+import { getDatabase } from '../../repository/database.js';
+import {
+  type CliCommand,
+  CliUsageError,
+  type CliValues,
+  EXIT_CODES,
+  integerOption,
+  loadCriteria,
+  stringOption,
+} from '../options.js';
+
+export const evaluateCommand: CliCommand = {
+  name: 'evaluate',
+  summary:
+    'Re-run the filtering pipeline on stored repositories as a new evaluation run, without calling the GitHub API.',
+  synopsis: 'stellar evaluate [options] | stellar evaluate list | stellar evaluate compare <baseRunId> <runId>',
+  options: {
+    limit: { type: 'string', short: 'n' },
+    criteria: { type: 'string' },
+    'evaluate-all': { type: 'boolean' },
+    name: { type: 'string' },
+    compare: { type: 'string' },
+  },
+  optionHelp: [
+    ['-n, --limit <n>', 'Maximum repositories to evaluate (number of runs for list, default: 20)'],
+    ['--criteria <file>', 'JSON or YAML file overriding the filter criteria per stage'],
+    ['--evaluate-all', 'Evaluate every stage even after one fails (overall pass/fail is unchanged)'],
+    ['--name <name>', 'Name of the evaluation run (default: Evaluation-<timestamp>)'],
+    ['--compare <runId>', 'Compare the new run against an earlier evaluation run'],
+  ],
+
+  async run({ values, positionals }) {
+    const [action, ...runIds] = positionals;
+    const evaluator = new RepositoryEvaluator(getDatabase());
+
+    if (action === 'list') {
+      await listRuns(evaluator, integerOption(values, 'limit') ?? 20);
+      return EXIT_CODES.success;
+    }
+
+    if (action === 'compare') {
+      const [baseRunId, runId] = runIds.map(Number);
+      if (runIds.length !== 2 || !Number.isInteger(baseRunId) || !Number.isInteger(runId)) {
+        throw new CliUsageError('evaluate compare requires two numeric run ids: <baseRunId> <runId>');
+      }
+      printComparison(await evaluator.compareRuns(baseRunId as number, runId as number));
+      return EXIT_CODES.success;
+    }
+
+    if (action !== undefined) {
+      throw new CliUsageError(`Unknown evaluate subcommand: ${action} (expected list or compare)`);
+    }
+
+    return evaluate(evaluator, values);
+  },
+};
+
+async function evaluate(evaluator: RepositoryEvaluator, values: CliValues): Promise<number> {
+  const compareWith = integerOption(values, 'compare');
+  const criteriaSource = stringOption(values, 'criteria');
+
+  await evaluator.setupPipeline(await loadCriteria(criteriaSource), {
+    mode: values['evaluate-all'] === true ? 'evaluate-all' : 'short-circuit',
+    criteriaSource,
+  });
+
+  const summary = await evaluator.evaluateStored({
+    limit: integerOption(values, 'limit'),
+    name: stringOption(values, 'name'),
+  });
+
+  console.info('\n✅ Evaluation Completed Successfully!');
+  console.info('=====================================');
+  console.info(`   Evaluation Run: ${summary.runId}`);
+  console.info(`   Evaluated Repositories: ${summary.evaluated}`);
+  console.info(`   Passed All Stages: ${summary.passed}`);
+
+  if (compareWith !== undefined) {
+    console.info('');
+    printComparison(await evaluator.compareRuns(compareWith, summary.runId));
+  }
+  return EXIT_CODES.success;
+}
+
+async function listRuns(evaluator: RepositoryEvaluator, limit: number): Promise<void> {
+  const runs = await evaluator.listRuns(limit);
+  if (runs.length === 0) {
+    console.info('No evaluation runs found');
+    return;
+  }
+
+  for (const run of runs) {
+    const totals = `${run.total_passed ?? 0}/${run.total_evaluated ?? 0}`;
+    console.info(
+      `${String(run.id).padStart(5)}  ${run.status.padEnd(9)}  ${totals.padStart(11)}  ${run.pipeline_mode.padEnd(13)}  ${run.started_at ?? '-'}  ${run.name}${run.criteria_source ? ` (${run.criteria_source})` : ''}`,
+    );
+  }
+}
+
+function printComparison(comparison: RunComparison): void {
+  const { base, target } = comparison;
+  console.info(`🔀 Evaluation run ${base.id} (${base.name}) → ${target.id} (${target.name})`);
+  console.info(`   Passed All Stages: ${base.total_passed ?? 0} → ${target.total_passed ?? 0}`);
+
+  for (const { stage, base: before, target: after } of comparison.stages) {
+    console.info(`   ${stage}: ${before.passed}/${before.evaluated} → ${after.passed}/${after.evaluated} passed`);
+  }
+
+  const gained = comparison.changed.filter((repository) => repository.target === true);
+  const lost = comparison.changed.filter((repository) => repository.base === true);
+  console.info(`\n   Newly passing: ${gained.length}`);
+  for (const repository of gained) {
+    console.info(`     + ${repository.full_name}`);
+  }
+  console.info(`   No longer passing: ${lost.length}`);
+  for (const repository of lost) {
+    console.info(`     - ${repository.full_name}`);
+  }
+}
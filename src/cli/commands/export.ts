@@ -0,0 +1,19 @@
+import { DatasetExporter } from '../../export/dataset-exporter.js';
+import { getDatabase } from '../../repository/database.js';
+import { type CliCommand, EXIT_CODES, stringOption } from '../options.js';
+
+export const exportCommand: CliCommand = {
+  name: 'export',
+  summary: 'Export the stored dataset as CSV, JSON, metadata and a statistics report.',
+  synopsis: 'stellar export [options]',
+  options: {
+    'output-dir': { type: 'string', short: 'o' },
+  },
+  optionHelp: [['-o, --output-dir <dir>', 'Directory for the exported files (default: $EXPORT_DIR or ./exports)']],
+
+  async run({ values }) {
+    const outputDir = stringOption(values, 'output-dir') ?? (process.env.EXPORT_DIR || './exports');
+    await new DatasetExporter(getDatabase(), outputDir).execute();
+    return EXIT_CODES.success;
+  },
+};
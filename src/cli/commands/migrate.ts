@@ -0,0 +1,28 @@
+import { getDatabase, upgradeDatabase } from '../../repository/database.js';
+import { type CliCommand, EXIT_CODES } from '../options.js';
+
+export const migrateCommand: CliCommand = {
+  name: 'migrate',
+  summary: 'Apply pending schema migrations to the database, including databases created with drizzle-kit push.',
+  synopsis: 'stellar migrate [options]',
+  options: {},
+  optionHelp: [],
+
+  async run() {
+    const { baseline, applied } = upgradeDatabase(getDatabase());
+
+    if (baseline) {
+      console.info(`📌 Database had no migration history, recorded migrations up to ${baseline} as applied`);
+    }
+    if (applied.length === 0) {
+      console.info('✅ Database schema is up to date');
+      return EXIT_CODES.success;
+    }
+
+    console.info(`✅ Applied ${applied.length} migration(s)`);
+    for (const tag of applied) {
+      console.info(`   ${tag}`);
+    }
+    return EXIT_CODES.success;
+  },
+};
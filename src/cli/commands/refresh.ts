@@ -0,0 +1,61 @@
+import { RepositoryCollector } from '../../core/collector.js';
+import { getDatabase } from '../../repository/database.js';
+import {
+  type CliCommand,
+  integerEnv,
+  integerOption,
+  loadCriteria,
+  positiveIntegerOption,
+  requireGitHubToken,
+  stringOption,
+} from '../options.js';
+import { reportCollectionResult, trackCollector } from '../reporting.js';
+
+const DEFAULT_STALE_DAYS = 30;
+
+export const refreshCommand: CliCommand = {
+  name: 'refresh',
+  summary: 'Re-fetch stored repositories and re-run the filtering pipeline on their current values.',
+  synopsis: 'stellar refresh [options]',
+  options: {
+    'stale-days': { type: 'string' },
+    'passed-all-stages': { type: 'boolean' },
+    limit: { type: 'string', short: 'n' },
+    'batch-size': { type: 'string' },
+    concurrency: { type: 'string' },
+    criteria: { type: 'string' },
+    'evaluate-all': { type: 'boolean' },
+  },
+  optionHelp: [
+    ['--stale-days <n>', `Refresh repositories last updated more than n days ago (default: ${DEFAULT_STALE_DAYS})`],
+    ['--passed-all-stages', 'Refresh repositories that passed every stage (combined with --stale-days if given)'],
+    ['-n, --limit <n>', 'Maximum repositories to refresh'],
+    ['--batch-size <n>', 'Repositories per checkpoint (default: $COLLECTION_BATCH_SIZE or 100)'],
+    ['--concurrency <n>', 'Repositories processed in parallel (default: $COLLECTION_CONCURRENCY or 4)'],
+    ['--criteria <file>', 'JSON or YAML file overriding the filter criteria per stage'],
+    ['--evaluate-all', 'Evaluate every stage even after one fails (overall pass/fail is unchanged)'],
+  ],
+
+  async run({ values }) {
+    const githubToken = requireGitHubToken();
+    const passedAllStages = values['passed-all-stages'] === true;
+    const staleDays = integerOption(values, 'stale-days') ?? (passedAllStages ? undefined : DEFAULT_STALE_DAYS);
+
+    const criteria = await loadCriteria(stringOption(values, 'criteria'));
+    const pipelineMode = values['evaluate-all'] === true ? 'evaluate-all' : 'short-circuit';
+    const collector = new RepositoryCollector(githubToken, getDatabase());
+    trackCollector(collector);
+    await collector.setupPipeline({ criteria, pipelineMode });
+
+    console.info('🔄 Refreshing stored repositories...\n');
+    const result = await collector.refreshRepositories({
+      selection: { staleDays, passedAllStages, limit: positiveIntegerOption(values, 'limit') },
+      batchSize: positiveIntegerOption(values, 'batch-size') ?? integerEnv('COLLECTION_BATCH_SIZE', 100),
+      concurrency: positiveIntegerOption(values, 'concurrency') ?? integerEnv('COLLECTION_CONCURRENCY', 4),
+      pipelineMode,
+      criteria,
+    });
+
+    return reportCollectionResult(result, 'Refresh Completed Successfully!');
+  },
+};
@@ -0,0 +1,27 @@
+import { RepositoryCollector } from '../../core/collector.js';
+import { getDatabase } from '../../repository/database.js';
+import { type CliCommand, CliUsageError, requireGitHubToken } from '../options.js';
+import { reportCollectionResult, trackCollector } from '../reporting.js';
+
+export const resumeCommand: CliCommand = {
+  name: 'resume',
+  summary: 'Resume a paused or failed collection, list or refresh batch from its checkpoint.',
+  synopsis: 'stellar resume <batchId> [options]',
+  options: {},
+  optionHelp: [],
+
+  async run({ positionals }) {
+    const batchId = Number(positionals[0]);
+    if (!Number.isInteger(batchId)) {
+      throw new CliUsageError('resume requires a numeric <batchId>');
+    }
+
+    const collector = new RepositoryCollector(requireGitHubToken(), getDatabase());
+    trackCollector(collector);
+
+    console.info(`⏯️  Resuming collection batch ${batchId}...\n`);
+    const result = await collector.resumeCollection(batchId);
+
+    return reportCollectionResult(result, 'Collection Completed Successfully!');
+  },
+};
@@ -0,0 +1,72 @@
+import { asc, count, eq } from 'drizzle-orm';
+import { collection_batches, filtering_stages, latest_filter_status, repositories } from '../../../drizzle/schema.js';
+import { getDatabase } from '../../repository/database.js';
+import { type CliCommand, EXIT_CODES } from '../options.js';
+
+interface StageStats {
+  stage: string;
+  passed: number;
+  failed: number;
+  skipped: number;
+}
+
+export const statsCommand: CliCommand = {
+  name: 'stats',
+  summary: 'Show repository, batch and filter stage counts for the database.',
+  synopsis: 'stellar stats [options]',
+  options: {
+    json: { type: 'boolean' },
+  },
+  optionHelp: [['--json', 'Print the statistics as JSON']],
+
+  async run({ values }) {
+    const db = getDatabase();
+
+    const [repositoryCount] = await db.select({ count: count() }).from(repositories);
+    const batchRows = await db
+      .select({ status: collection_batches.status, count: count() })
+      .from(collection_batches)
+      .groupBy(collection_batches.status);
+
+    // リポジトリごとに最新のフィルター実行の評価のみを集計する
+    const stageRows = await db
+      .select({ stage: filtering_stages.name, status: latest_filter_status.status, count: count() })
+      .from(latest_filter_status)
+      .innerJoin(filtering_stages, eq(latest_filter_status.stage_id, filtering_stages.id))
+      .groupBy(filtering_stages.id, latest_filter_status.status)
+      .orderBy(asc(filtering_stages.order_index));
+
+    const stages = new Map<string, StageStats>();
+    for (const row of stageRows) {
+      const stats = stages.get(row.stage) ?? { stage: row.stage, passed: 0, failed: 0, skipped: 0 };
+      if (row.status === 'passed' || row.status === 'failed' || row.status === 'skipped') {
+        stats[row.status] = row.count;
+      }
+      stages.set(row.stage, stats);
+    }
+
+    const stats = {
+      repositories: repositoryCount?.count ?? 0,
+      batches: Object.fromEntries(batchRows.map((row) => [row.status, row.count])),
+      stages: [...stages.values()],
+    };
+
+    if (values.json) {
+      process.stdout.write(`${JSON.stringify(stats, null, 2)}\n`);
+      return EXIT_CODES.success;
+    }
+
+    console.info('📊 Database Statistics');
+    console.info('======================');
+    console.info(`   Repositories: ${stats.repositories}`);
+    console.info(`   Batches: ${batchRows.map((row) => `${row.status} ${row.count}`).join(', ') || 'none'}`);
+    console.info('');
+    console.info('🔍 Filter Stages (latest evaluation per repository):');
+    for (const stage of stats.stages) {
+      const total = stage.passed + stage.failed + stage.skipped;
+      const rate = total > 0 ? ((stage.passed / total) * 100).toFixed(1) : '0.0';
+      console.info(`   ${stage.stage}: ${stage.passed}/${total} passed (${rate}%), ${stage.skipped} skipped`);
+    }
+    return EXIT_CODES.success;
+  },
+};
@@ -0,0 +1,92 @@
+/**
+ * stellar CLI のエントリーポイント
+ * サブコマンドごとに引数を解釈し、結果を終了コードで返す（0: 成功, 1: 失敗, 2: 引数の誤り, 3: 中断）
+ */
+
+import 'dotenv/config';
+import { analyzeCommand } from './commands/analyze.js';
+import { batchesCommand } from './commands/batches.js';
+import { collectCommand } from './commands/collect.js';
+import { evaluateCommand } from './commands/evaluate.js';
+import { exportCommand } from './commands/export.js';
+import { migrateCommand } from './commands/migrate.js';
+import { refreshCommand } from './commands/refresh.js';
+import { resumeCommand } from './commands/resume.js';
+import { statsCommand } from './commands/stats.js';
+import {
+  type CliCommand,
+  EXIT_CODES,
+  configureDatabaseOptions,
+  configureLoggingOptions,
+  formatUsage,
+  parseCommandArgs,
+} from './options.js';
+import { installSignalHandlers, reportError } from './reporting.js';
+
+export const COMMANDS: CliCommand[] = [
+  collectCommand,
+  resumeCommand,
+  refreshCommand,
+  evaluateCommand,
+  exportCommand,
+  analyzeCommand,
+  statsCommand,
+  batchesCommand,
+  migrateCommand,
+];
+
+export function formatHelp(): string {
+  const width = Math.max(...COMMANDS.map((command) => command.name.length));
+
+  return [
+    '🌟 Stellar-JS: GitHub Repository Mining Tool',
+    '',
+    'Usage: stellar <command> [options]',
+    '',
+    'Commands:',
+    ...COMMANDS.map((command) => `  ${command.name.padEnd(width)}  ${command.summary}`),
+    '',
+    'Run `stellar <command> --help` for the options of a command.',
+  ].join('\n');
+}
+
+export async function runCli(argv: string[]): Promise<number> {
+  const [name, ...rest] = argv;
+
+  if (name === undefined || name === 'help' || name === '--help' || name === '-h') {
+    console.info(formatHelp());
+    return name === undefined ? EXIT_CODES.usage : EXIT_CODES.success;
+  }
+
+  const command = COMMANDS.find((candidate) => candidate.name === name);
+  if (!command) {
+    console.error(`❌ Unknown command: ${name}\n`);
+    console.error(formatHelp());
+    return EXIT_CODES.usage;
+  }
+
+  try {
+    const args = parseCommandArgs(command, rest);
+    if (args.values.help) {
+      console.info(formatUsage(command));
+      return EXIT_CODES.success;
+    }
+
+    configureLoggingOptions(args.values);
+    configureDatabaseOptions(args.values);
+
+    return await command.run(args);
+  } catch (error) {
+    return reportError(error, command.name);
+  }
+}
+
+export async function main(argv: string[] = process.argv.slice(2)): Promise<never> {
+  installSignalHandlers();
+  process.exit(await runCli(argv));
+}
+
+// エントリーポイント
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main();
+}
@@ -0,0 +1,200 @@
+/**
+ * CLI の共通オプションと引数の解釈
+ */
+
+import { type ParseArgsConfig, parseArgs } from 'node:util';
+import { resolveGitHubTokens } from '../api/token-pool.js';
+import { DEFAULT_CRITERIA, loadCriteriaOverrides } from '../core/collection-config.js';
+import type { CollectionConfig } from '../core/collector.js';
+import { LOG_FORMATS, LOG_LEVELS, type LogFormat, type LogLevel, configureLogging } from '../logging/logger.js';
+import { DEFAULT_DATABASE_PATH, MEMORY_PROFILE, configureDatabase } from '../repository/database.js';
+
+type ParseArgsOptions = NonNullable<ParseArgsConfig['options']>;
+
+export type CliValues = Record<string, string | boolean | undefined>;
+
+export interface CliArguments {
+  values: CliValues;
+  positionals: string[];
+}
+
+export interface CliCommand {
+  name: string;
+  summary: string;
+  // 例: 'stellar resume <batchId> [options]'
+  synopsis: string;
+  options: ParseArgsOptions;
+  // [フラグの表記, 説明]
+  optionHelp: [string, string][];
+  run(args: CliArguments): Promise<number>;
+}
+
+/**
+ * 終了コード。paused は中断されたバッチが `stellar resume` で再開できることを示す
+ */
+export const EXIT_CODES = {
+  success: 0,
+  failure: 1,
+  usage: 2,
+  paused: 3,
+} as const;
+
+/**
+ * 引数や設定ファイルの誤り。終了コード 2 で終了する
+ */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+const GLOBAL_OPTIONS: ParseArgsOptions = {
+  db: { type: 'string' },
+  profile: { type: 'string' },
+  'log-level': { type: 'string' },
+  'log-format': { type: 'string' },
+  'log-dir': { type: 'string' },
+  help: { type: 'boolean', short: 'h' },
+};
+
+const GLOBAL_OPTION_HELP: [string, string][] = [
+  ['--db <path>', `SQLite database file (default: $DATABASE_PATH or ${DEFAULT_DATABASE_PATH})`],
+  ['--profile <name>', `Named database in data/<name>.db, or "${MEMORY_PROFILE}" for an in-memory database`],
+  ['--log-level <level>', `Log threshold: ${LOG_LEVELS.join(', ')} (default: $LOG_LEVEL or info)`],
+  ['--log-format <format>', 'Log output on stderr: pretty or json (default: $LOG_FORMAT or pretty)'],
+  ['--log-dir <dir>', "Also write each batch's log to <dir>/batch-<id>.jsonl (default: $LOG_DIR)"],
+  ['-h, --help', 'Show this help'],
+];
+
+export function parseCommandArgs(command: CliCommand, argv: string[]): CliArguments {
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      options: { ...command.options, ...GLOBAL_OPTIONS },
+      allowPositionals: true,
+      strict: true,
+    });
+    return { values: values as CliValues, positionals };
+  } catch (error) {
+    // parseArgs は未知のオプションや値の欠落を TypeError で通知する
+    throw new CliUsageError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+export function formatUsage(command: CliCommand): string {
+  const rows = [...command.optionHelp, ...GLOBAL_OPTION_HELP];
+  const width = Math.max(...rows.map(([flag]) => flag.length));
+
+  return [
+    `Usage: ${command.synopsis}`,
+    '',
+    command.summary,
+    '',
+    'Options:',
+    ...rows.map(([flag, description]) => `  ${flag.padEnd(width)}  ${description}`),
+  ].join('\n');
+}
+
+/**
+ * --db / --profile で既定の接続先を切り替える。どちらもなければ DATABASE_PATH / DATABASE_PROFILE を使う
+ */
+export function configureDatabaseOptions(values: CliValues): void {
+  const path = stringOption(values, 'db');
+  const profile = stringOption(values, 'profile');
+  if (path && profile) {
+    throw new CliUsageError('--db and --profile cannot be combined');
+  }
+
+  try {
+    configureDatabase({ path, profile });
+  } catch (error) {
+    throw new CliUsageError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * --log-level / --log-format / --log-dir でログ設定を上書きする。指定しなければ LOG_LEVEL / LOG_FORMAT / LOG_DIR を使う
+ */
+export function configureLoggingOptions(values: CliValues): void {
+  const level = stringOption(values, 'log-level');
+  if (level !== undefined && !LOG_LEVELS.includes(level as LogLevel)) {
+    throw new CliUsageError(`--log-level must be one of ${LOG_LEVELS.join(', ')} (got "${level}")`);
+  }
+  const format = stringOption(values, 'log-format');
+  if (format !== undefined && !LOG_FORMATS.includes(format as LogFormat)) {
+    throw new CliUsageError(`--log-format must be one of ${LOG_FORMATS.join(', ')} (got "${format}")`);
+  }
+
+  try {
+    configureLogging({
+      level: level as LogLevel | undefined,
+      format: format as LogFormat | undefined,
+      directory: stringOption(values, 'log-dir'),
+    });
+  } catch (error) {
+    // LOG_LEVEL / LOG_FORMAT の値が不正な場合
+    throw new CliUsageError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+export function stringOption(values: CliValues, name: string): string | undefined {
+  const value = values[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+export function integerOption(values: CliValues, name: string): number | undefined {
+  const value = stringOption(values, name);
+  if (value === undefined) return undefined;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new CliUsageError(`--${name} must be a non-negative integer (got "${value}")`);
+  }
+  return parsed;
+}
+
+/**
+ * 件数・並行数のように 0 では処理が進まない値（--limit・--batch-size・--concurrency）
+ */
+export function positiveIntegerOption(values: CliValues, name: string): number | undefined {
+  const value = stringOption(values, name);
+  if (value === undefined) return undefined;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new CliUsageError(`--${name} must be a positive integer (got "${value}")`);
+  }
+  return parsed;
+}
+
+/**
+ * 件数・並行数の環境変数（MAX_REPOSITORIES・COLLECTION_BATCH_SIZE など）。未設定なら fallback を使う
+ */
+export function integerEnv(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (!value) return fallback;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new CliUsageError(`${name} must be a positive integer (got "${value}")`);
+  }
+  return parsed;
+}
+
+export function requireGitHubToken(): string {
+  const githubToken = process.env.GITHUB_TOKEN ?? '';
+  if (resolveGitHubTokens(githubToken).length === 0) {
+    throw new CliUsageError(
+      'GITHUB_TOKEN (or GITHUB_TOKENS) environment variable is required. Create a token at https://github.com/settings/tokens',
+    );
+  }
+  return githubToken;
+}
+
+/**
+ * 基準ファイル（JSON / YAML）を読み込み、ステージごとに既定値へ上書きする
+ */
+export async function loadCriteria(path: string | undefined): Promise<CollectionConfig['criteria']> {
+  return path ? loadCriteriaOverrides(path) : DEFAULT_CRITERIA;
+}
@@ -0,0 +1,85 @@
+/**
+ * 収集中の進捗表示
+ * 標準エラー出力が TTY のときだけ、最終行を 1 行の進捗表示として上書きし、ログはその上に流す
+ */
+
+import type { RepositoryCollector } from '../core/collector.js';
+import type { BatchProgress } from '../core/progress-reporter.js';
+import { setLogOutput } from '../logging/logger.js';
+
+// 再描画の最小間隔
+const REDRAW_INTERVAL_MS = 500;
+const CLEAR_LINE = '\r\x1b[K';
+
+let stream: NodeJS.WriteStream | null = null;
+// 現在表示している進捗行（表示していなければ空文字）
+let line = '';
+
+export function attachProgressDisplay(collector: RepositoryCollector, output = process.stderr): void {
+  if (!output.isTTY) return;
+
+  stream = output;
+  // ログは進捗行を消してから書き、その下に進捗行を描き直す
+  setLogOutput((text) => {
+    output.write(`${CLEAR_LINE}${text}\n${line}`);
+  });
+
+  let lastDrawAt = 0;
+  collector.onProgress((progress) => {
+    // 端末の幅が分からない（0 を返す）場合は既定の幅にする
+    line = formatProgressLine(progress, output.columns || undefined);
+    const now = Date.now();
+    if (now - lastDrawAt < REDRAW_INTERVAL_MS && progress.processed !== progress.expected) return;
+
+    lastDrawAt = now;
+    output.write(`${CLEAR_LINE}${line}`);
+  });
+}
+
+/**
+ * 最後の進捗行を残したまま改行し、以降の出力が進捗行に続かないようにする
+ */
+export function endProgressDisplay(): void {
+  if (stream && line) {
+    stream.write('\n');
+  }
+  line = '';
+}
+
+export function formatProgressLine(progress: BatchProgress, columns = 120): string {
+  const total = progress.expected === null ? '?' : String(progress.expected);
+  const percent =
+    progress.expected === null || progress.expected === 0
+      ? ''
+      : ` (${Math.min(Math.floor((progress.processed / progress.expected) * 100), 100)}%)`;
+
+  const stages = Object.entries(progress.stages)
+    .map(([stage, counts]) => `${stage} ${counts.passed}✓ ${counts.failed}✗`)
+    .join('  ');
+  const remaining = Object.entries(progress.rate_limit_remaining)
+    .map(([bucket, value]) => `${bucket} ${value}`)
+    .join('/');
+
+  // 幅が足りないときは末尾のステージ集計から切り詰められる
+  const parts = [
+    `⏳ ${progress.processed}/${total}${percent}`,
+    `ETA ${formatDuration(progress.eta_seconds)}`,
+    `API ${progress.api_requests}${remaining ? ` (left: ${remaining})` : ''}`,
+    stages,
+  ].filter((part) => part.length > 0);
+
+  const text = parts.join(' | ');
+  // 折り返すと上書きできなくなるため端末の幅に収める
+  return text.length < columns ? text : `${text.slice(0, Math.max(columns - 2, 0))}…`;
+}
+
+export function formatDuration(seconds: number | null): string {
+  if (seconds === null) return '--';
+  if (seconds < 60) return `${seconds}s`;
+
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0
+    ? `${hours}h${String(minutes).padStart(2, '0')}m`
+    : `${minutes}m${String(seconds % 60).padStart(2, '0')}s`;
+}
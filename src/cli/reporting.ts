@@ -0,0 +1,123 @@
+/**
+ * 収集結果とエラーの表示
+ */
+
+import { ConfigValidationError } from '../core/collection-config.js';
+import type { CollectionResult, RepositoryCollector, RepositoryListReport } from '../core/collector.js';
+import { createLogger } from '../logging/logger.js';
+import { CliUsageError, EXIT_CODES } from './options.js';
+import { attachProgressDisplay, endProgressDisplay } from './progress-display.js';
+
+const logger = createLogger('CLI');
+
+// シグナル受信時に中断させる実行中のコレクター
+let activeCollector: RepositoryCollector | null = null;
+
+/**
+ * シグナルで中断できるようにし、TTY では収集の進捗を表示する
+ */
+export function trackCollector(collector: RepositoryCollector): void {
+  activeCollector = collector;
+  attachProgressDisplay(collector);
+}
+
+/**
+ * 収集中は現在のリポジトリの処理後にバッチを paused にして終了し、2回目のシグナルで即時終了する
+ */
+export function installSignalHandlers(): void {
+  const shutdown = () => {
+    if (activeCollector) {
+      console.info('\n🛑 Pausing collection after the current repository... (repeat to force exit)');
+      activeCollector.requestPause();
+      activeCollector = null;
+      return;
+    }
+
+    console.info('\n🛑 Gracefully shutting down...');
+    process.exit(EXIT_CODES.failure);
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  // 未処理の拒否をキャッチ
+  process.on('unhandledRejection', (reason) => {
+    logger.error('Unhandled rejection', { error: reason });
+    process.exit(EXIT_CODES.failure);
+  });
+}
+
+/**
+ * 完了・中断したバッチの結果を表示し、終了コードを返す
+ */
+export function reportCollectionResult(result: CollectionResult, title: string): number {
+  endProgressDisplay();
+  if (result.status === 'paused') {
+    console.info('\n⏸️  Collection Paused');
+    console.info('====================');
+    console.info(`   Batch: ${result.batchId}`);
+    console.info(`   Processed Repositories: ${result.totalCollected}`);
+    console.info(`   Resume with: stellar resume ${result.batchId}`);
+    return EXIT_CODES.paused;
+  }
+
+  console.info(`\n✅ ${title}`);
+  console.info('='.repeat(title.length + 3));
+  console.info(`   Batch: ${result.batchId}`);
+  console.info(`   Repositories in batch: ${result.totalCollected}`);
+  if (result.listReport) {
+    reportListResolution(result.listReport);
+  }
+  return EXIT_CODES.success;
+}
+
+function reportListResolution(report: RepositoryListReport): void {
+  if (report.renamed.length > 0) {
+    console.info(`\n🔀 Renamed Repositories: ${report.renamed.length}`);
+    for (const { entry, full_name } of report.renamed) {
+      console.info(`   ${entry} → ${full_name}`);
+    }
+  }
+
+  if (report.unresolved.length > 0) {
+    console.info(`\n⚠️  Unresolved Entries: ${report.unresolved.length}`);
+    for (const { entry, reason } of report.unresolved) {
+      console.info(`   ${entry} (${reason})`);
+    }
+  }
+}
+
+/**
+ * エラーを表示し、終了コードを返す
+ */
+export function reportError(error: unknown, commandName: string): number {
+  endProgressDisplay();
+  if (error instanceof CliUsageError || error instanceof ConfigValidationError) {
+    console.error(`❌ ${error.message}`);
+    console.error(`   Run \`stellar ${commandName} --help\` for usage.`);
+    return EXIT_CODES.usage;
+  }
+
+  logger.debug(`${commandName} failed`, { error });
+  console.error(`\n❌ ${commandName} failed!`);
+  console.error('====================');
+
+  if (error instanceof Error) {
+    console.error(`Error: ${error.message}`);
+
+    // 具体的なエラーハンドリング
+    if (error.message.includes('rate limit')) {
+      console.info('\n💡 GitHub API rate limit exceeded. Wait and try again later.');
+      console.info('   Authenticated requests have higher limits (5000/hour vs 60/hour)');
+    } else if (error.message.includes('Authentication failed')) {
+      console.info('\n💡 GitHub token is invalid or expired.');
+      console.info('   Generate a new token at: https://github.com/settings/tokens');
+    } else if (error.message.includes('Network')) {
+      console.info('\n💡 Network connection issue. Check your internet connection.');
+    }
+  } else {
+    console.error('Unknown error occurred:', error);
+  }
+
+  return EXIT_CODES.failure;
+}
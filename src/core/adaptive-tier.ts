@@ -3,6 +3,10 @@
  * スター数分布に基づいて収集目標を柔軟に調整する
  */
 
+import { createLogger } from '../logging/logger.js';
+
+const logger = createLogger('AdaptiveTierManager');
+
 export interface TierConfig {
   id: string;
   name: string;
@@ -75,12 +79,14 @@ export class AdaptiveTierManager {
     const originalTiers = [...tiers];
     const adjustedTiers = [...tiers];
 
-    console.log('🔧 Starting adaptive tier adjustment...');
-    console.log(`Total target: ${this.TOTAL_TARGET}, Current actual: ${this.getTotalActual(tiers)}`);
+    logger.info('Starting adaptive tier adjustment', {
+      totalTarget: this.TOTAL_TARGET,
+      totalActual: this.getTotalActual(tiers),
+    });
 
     // 1. 上位Tierの不足分を計算
     const shortfalls = this.calculateShortfalls(tiers);
-    console.log('📊 Tier shortfalls:', shortfalls);
+    logger.info('Calculated tier shortfalls', { shortfalls });
 
     // 2. 調整戦略を決定
     const adjustmentStrategy = this.determineAdjustmentStrategy(shortfalls, tiers);
@@ -123,7 +129,7 @@ export class AdaptiveTierManager {
     const totalShortfall = Object.values(shortfalls).reduce((sum, s) => sum + s, 0);
     const ultraHighShortfall = shortfalls['ultra-high'] || 0;
 
-    console.log(`📋 Total shortfall: ${totalShortfall}, Ultra-high shortfall: ${ultraHighShortfall}`);
+    logger.info(`Total shortfall: ${totalShortfall}, Ultra-high shortfall: ${ultraHighShortfall}`);
 
     // 超高品質Tierの不足が大きい場合は閾値を下げる
     if (ultraHighShortfall > 50) {
@@ -143,7 +149,7 @@ export class AdaptiveTierManager {
    * 調整を実行
    */
   private async executeAdjustment(tiers: TierConfig[], strategy: string): Promise<{ reason: string }> {
-    console.log(`🎯 Executing adjustment strategy: ${strategy}`);
+    logger.info(`Executing adjustment strategy: ${strategy}`);
 
     switch (strategy) {
       case 'compensate-lower':
@@ -175,7 +181,7 @@ export class AdaptiveTierManager {
       const tier = tiers.find((t) => t.id === tierId);
       if (tier) {
         tier.targetCount += compensationPerTier;
-        console.log(`📈 Increased ${tier.name} target by ${compensationPerTier} (new: ${tier.targetCount})`);
+        logger.info(`Increased ${tier.name} target by ${compensationPerTier} (new: ${tier.targetCount})`);
       }
     }
 
@@ -193,14 +199,14 @@ export class AdaptiveTierManager {
       // 超高品質の閾値を20000→15000に下げる
       ultraHighTier.minStars = 15000;
       ultraHighTier.query = 'language:javascript stars:>=15000';
-      console.log(`🔽 Reduced ultra-high tier threshold to ${ultraHighTier.minStars} stars`);
+      logger.info(`Reduced ultra-high tier threshold to ${ultraHighTier.minStars} stars`);
     }
 
     if (veryHighTier && ultraHighTier) {
       // 非常に高品質の範囲を調整
       veryHighTier.maxStars = 14999;
       veryHighTier.query = 'language:javascript stars:10000..14999';
-      console.log(`🔄 Adjusted very-high tier range to ${veryHighTier.minStars}-${veryHighTier.maxStars} stars`);
+      logger.info(`Adjusted very-high tier range to ${veryHighTier.minStars}-${veryHighTier.maxStars} stars`);
     }
 
     return { reason: '超高品質Tierの閾値を20,000→15,000に下げて収集範囲を拡大' };
@@ -247,8 +253,8 @@ export class AdaptiveTierManager {
     // 最低品質閾値の維持
     const lowestTier = tiers[tiers.length - 1];
     if (lowestTier && lowestTier.minStars < this.MIN_STARS_THRESHOLD) {
-      console.warn(
-        `⚠️ Quality standard violation: lowest tier has ${lowestTier.minStars} stars (minimum: ${this.MIN_STARS_THRESHOLD})`,
+      logger.warn(
+        `Quality standard violation: lowest tier has ${lowestTier.minStars} stars (minimum: ${this.MIN_STARS_THRESHOLD})`,
       );
       return false;
     }
@@ -257,7 +263,7 @@ export class AdaptiveTierManager {
     const totalTarget = this.getTotalTarget(tiers);
     if (totalTarget < this.TOTAL_TARGET * 0.9) {
       // 90%未満は警告
-      console.warn(`⚠️ Total target too low: ${totalTarget} (minimum: ${this.TOTAL_TARGET * 0.9})`);
+      logger.warn(`Total target too low: ${totalTarget} (minimum: ${this.TOTAL_TARGET * 0.9})`);
       return false;
     }
 
@@ -0,0 +1,491 @@
+/**
+ * 収集設定ファイル（JSON / YAML）の読み込みと検証
+ * 未知のキーや範囲外の値はすべて `criteria.activity.recent_activity_days must be > 0` のようなパス付きで報告する
+ * tiers を指定した場合は、Tier ごとにクエリ・収集数・基準の上書きを適用した CollectionConfig に展開する
+ */
+
+import { readFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import type { NormalizationSpec, ScoringComponentSpec, ScoringModel, ScoringStage } from '../types/index.js';
+import { type CollectionConfig, DEFAULT_CONCURRENCY } from './collector.js';
+import { PIPELINE_MODES } from './filtering/pipeline.js';
+import { NORMALIZATION_TYPES, SCORING_COMPONENTS } from './filtering/scoring.js';
+import { DEFAULT_FINAL_SELECTION } from './quality-assessment.js';
+
+type Criteria = CollectionConfig['criteria'];
+
+// criteria のうちステージごとの基準（scoring 以外）
+type CriteriaStage = Exclude<keyof Criteria, 'scoring'>;
+
+export type CriteriaOverrides = { [Stage in keyof Criteria]?: Partial<NonNullable<Criteria[Stage]>> };
+
+export interface CollectionTier {
+  id: string;
+  name: string;
+  query: string;
+  maxRepositories: number;
+  // 基本の criteria に対するステージごとの上書き
+  criteria?: CriteriaOverrides;
+}
+
+export interface CollectionPlan {
+  config: CollectionConfig;
+  tiers: CollectionTier[];
+}
+
+export class ConfigValidationError extends Error {
+  constructor(
+    public source: string,
+    public issues: string[],
+  ) {
+    super(`Invalid config ${source}:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`);
+    this.name = 'ConfigValidationError';
+  }
+}
+
+export const DEFAULT_CRITERIA: Criteria = {
+  popularity: {
+    min_stars: 100,
+    min_forks: 10,
+    not_archived: true,
+    not_disabled: true,
+  },
+  activity: {
+    min_contributors: 5,
+    min_commits: 100,
+    recent_activity_days: 90,
+    min_push_activity_days: 180,
+  },
+  quality: {
+    has_readme: true,
+    min_readme_quality: 0.6,
+    has_license: true,
+    max_issue_close_time: 30,
+  },
+  final_selection: DEFAULT_FINAL_SELECTION,
+};
+
+interface NumberRule {
+  type: 'integer' | 'number';
+  min?: number;
+  // true なら min を含まない（> min）
+  exclusiveMin?: boolean;
+  max?: number;
+}
+
+type FieldRule = NumberRule | { type: 'boolean' };
+
+// 件数・並行数。0 では収集のループが進まない
+const POSITIVE_INTEGER: NumberRule = { type: 'integer', min: 0, exclusiveMin: true };
+const RUN_SIZE_KEYS = ['maxRepositories', 'batchSize', 'concurrency'] as const;
+
+const CRITERIA_RULES: { [Stage in CriteriaStage]-?: Record<keyof NonNullable<Criteria[Stage]>, FieldRule> } = {
+  popularity: {
+    min_stars: { type: 'integer', min: 0 },
+    min_forks: { type: 'integer', min: 0 },
+    not_archived: { type: 'boolean' },
+    not_disabled: { type: 'boolean' },
+  },
+  activity: {
+    min_contributors: { type: 'integer', min: 0 },
+    min_commits: { type: 'integer', min: 0 },
+    recent_activity_days: { type: 'integer', min: 0, exclusiveMin: true },
+    min_push_activity_days: { type: 'integer', min: 0, exclusiveMin: true },
+  },
+  quality: {
+    has_readme: { type: 'boolean' },
+    min_readme_quality: { type: 'number', min: 0, max: 1 },
+    has_license: { type: 'boolean' },
+    max_issue_close_time: { type: 'number', min: 0, exclusiveMin: true },
+  },
+  final_selection: {
+    min_overall_score: { type: 'number', min: 0, max: 1 },
+    top_percentile: { type: 'number', min: 0, exclusiveMin: true, max: 100 },
+  },
+};
+
+// 基本の criteria でも省略できるステージ（省略時は既定値を使う）
+const OPTIONAL_STAGES = ['final_selection'];
+
+// 正規化の方法ごとに指定できるパラメータ
+const NORMALIZATION_PARAMETERS: Record<NormalizationSpec['type'], string[]> = {
+  linear: ['min', 'max'],
+  log: ['min', 'max'],
+  percentile: [],
+  sigmoid: ['midpoint', 'steepness'],
+};
+
+const ENRICHMENT_KEYS = ['counts', 'readme', 'community', 'responsiveness'];
+const DETAILS_SOURCES = ['search', 'graphql'];
+const CONFIG_KEYS = [
+  'query',
+  'maxRepositories',
+  'batchSize',
+  'detailsSource',
+  'enrichment',
+  'concurrency',
+  'pipelineMode',
+  'criteria',
+  'tiers',
+];
+const TIER_KEYS = ['id', 'name', 'query', 'maxRepositories', 'criteria'];
+
+/**
+ * 検証中に見つかった問題をパスとともに集める
+ */
+class ConfigValidator {
+  readonly issues: string[] = [];
+
+  object(value: unknown, path: string, knownKeys: string[]): Record<string, unknown> | null {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      this.issues.push(`${path} must be an object`);
+      return null;
+    }
+    for (const key of Object.keys(value)) {
+      if (!knownKeys.includes(key)) {
+        this.issues.push(`${join(path, key)} is not a known option (expected one of ${knownKeys.join(', ')})`);
+      }
+    }
+    return value as Record<string, unknown>;
+  }
+
+  string(value: unknown, path: string): string | undefined {
+    if (typeof value !== 'string' || value.trim().length === 0) {
+      this.issues.push(`${path} must be a non-empty string`);
+      return undefined;
+    }
+    return value;
+  }
+
+  oneOf(value: unknown, path: string, allowed: string[]): string | undefined {
+    if (typeof value !== 'string' || !allowed.includes(value)) {
+      this.issues.push(`${path} must be one of ${allowed.join(', ')}`);
+      return undefined;
+    }
+    return value;
+  }
+
+  boolean(value: unknown, path: string): boolean | undefined {
+    if (typeof value !== 'boolean') {
+      this.issues.push(`${path} must be a boolean`);
+      return undefined;
+    }
+    return value;
+  }
+
+  number(value: unknown, path: string, rule: NumberRule): number | undefined {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.issues.push(`${path} must be a number`);
+      return undefined;
+    }
+    if (rule.type === 'integer' && !Number.isInteger(value)) {
+      this.issues.push(`${path} must be an integer`);
+    } else if (rule.min !== undefined && (rule.exclusiveMin ? value <= rule.min : value < rule.min)) {
+      this.issues.push(`${path} must be ${rule.exclusiveMin ? '>' : '>='} ${rule.min}`);
+    } else if (rule.max !== undefined && value > rule.max) {
+      this.issues.push(`${path} must be <= ${rule.max}`);
+    } else {
+      return value;
+    }
+    return undefined;
+  }
+
+  field(value: unknown, path: string, rule: FieldRule): unknown {
+    return rule.type === 'boolean' ? this.boolean(value, path) : this.number(value, path, rule);
+  }
+
+  /**
+   * partial が true なら省略されたステージ・項目を許可する（Tier や --criteria による上書き）
+   */
+  criteria(value: unknown, path: string, partial: boolean): CriteriaOverrides {
+    const stages = this.object(value, path, [...Object.keys(CRITERIA_RULES), 'scoring']);
+    if (!stages) return {};
+
+    const result: Record<string, Record<string, unknown>> = {};
+    for (const [stage, rules] of Object.entries(CRITERIA_RULES) as [string, Record<string, FieldRule>][]) {
+      const stagePath = join(path, stage);
+      if (stages[stage] === undefined) {
+        if (!partial && !OPTIONAL_STAGES.includes(stage)) this.issues.push(`${stagePath} is required`);
+        continue;
+      }
+
+      const fields = this.object(stages[stage], stagePath, Object.keys(rules));
+      if (!fields) continue;
+
+      result[stage] = {};
+      for (const [field, rule] of Object.entries(rules)) {
+        if (fields[field] === undefined) {
+          if (!partial) this.issues.push(`${join(stagePath, field)} is required`);
+          continue;
+        }
+        result[stage][field] = this.field(fields[field], join(stagePath, field), rule);
+      }
+    }
+
+    const overrides = result as CriteriaOverrides;
+    if (stages.scoring !== undefined) {
+      overrides.scoring = this.scoring(stages.scoring, join(path, 'scoring'));
+    }
+    return overrides;
+  }
+
+  /**
+   * スコアリングモデル。指定した指標だけが既定のモデル（重み 1 の線形正規化）を上書きする
+   */
+  scoring(value: unknown, path: string): ScoringModel {
+    const model = this.object(value, path, ['name', ...Object.keys(SCORING_COMPONENTS)]);
+    if (!model) return {};
+
+    const result: ScoringModel = {};
+    if (model.name !== undefined) {
+      result.name = this.string(model.name, join(path, 'name'));
+    }
+    for (const [stage, components] of Object.entries(SCORING_COMPONENTS) as [ScoringStage, string[]][]) {
+      if (model[stage] === undefined) continue;
+
+      const stagePath = join(path, stage);
+      const specs = this.object(model[stage], stagePath, components);
+      if (!specs) continue;
+
+      result[stage] = {};
+      for (const component of components) {
+        if (specs[component] === undefined) continue;
+        result[stage][component] = this.scoringComponent(specs[component], join(stagePath, component));
+      }
+    }
+    return result;
+  }
+
+  private scoringComponent(value: unknown, path: string): ScoringComponentSpec {
+    const spec = this.object(value, path, ['weight', 'normalization']);
+    if (!spec) return {};
+
+    const result: ScoringComponentSpec = {};
+    if (spec.weight !== undefined) {
+      result.weight = this.number(spec.weight, join(path, 'weight'), { type: 'number', min: 0 });
+    }
+    if (spec.normalization !== undefined) {
+      result.normalization = this.normalization(spec.normalization, join(path, 'normalization'));
+    }
+    return result;
+  }
+
+  private normalization(value: unknown, path: string): NormalizationSpec | undefined {
+    const spec = this.object(value, path, ['type', 'min', 'max', 'midpoint', 'steepness']);
+    if (!spec) return undefined;
+
+    const type = this.oneOf(spec.type, join(path, 'type'), NORMALIZATION_TYPES) as
+      | NormalizationSpec['type']
+      | undefined;
+    if (!type) return undefined;
+
+    const result: NormalizationSpec = { type };
+    for (const parameter of ['min', 'max', 'midpoint', 'steepness'] as const) {
+      if (spec[parameter] === undefined) continue;
+      if (!NORMALIZATION_PARAMETERS[type].includes(parameter)) {
+        this.issues.push(`${join(path, parameter)} does not apply to ${type} normalization`);
+        continue;
+      }
+      result[parameter] = this.number(spec[parameter], join(path, parameter), {
+        type: 'number',
+        // log は 0 以上、sigmoid の傾きは正の値のみ
+        ...(type === 'log' ? { min: 0 } : {}),
+        ...(parameter === 'steepness' ? { min: 0, exclusiveMin: true } : {}),
+      });
+    }
+
+    if (result.min !== undefined && result.max !== undefined && result.max <= result.min) {
+      this.issues.push(`${join(path, 'max')} must be > ${result.min}`);
+    }
+    return result;
+  }
+}
+
+export async function loadCollectionConfig(path: string): Promise<CollectionPlan> {
+  return parseCollectionConfig(await readConfigFile(path), path);
+}
+
+/**
+ * 基準の上書きファイル（JSON / YAML）を読み込み、ステージごとに既定値へ適用する
+ */
+export async function loadCriteriaOverrides(path: string, base: Criteria = DEFAULT_CRITERIA): Promise<Criteria> {
+  const validator = new ConfigValidator();
+  const overrides = validator.criteria(await readConfigFile(path), 'criteria', true);
+
+  if (validator.issues.length > 0) {
+    throw new ConfigValidationError(path, validator.issues);
+  }
+  return applyCriteriaOverrides(base, overrides);
+}
+
+export function parseCollectionConfig(data: unknown, source = 'config'): CollectionPlan {
+  const validator = new ConfigValidator();
+  const root = validator.object(data, '(root)', CONFIG_KEYS);
+  if (!root) {
+    throw new ConfigValidationError(source, validator.issues);
+  }
+
+  const tiers = root.tiers === undefined ? [] : parseTiers(validator, root.tiers);
+  if (root.query === undefined && tiers.length === 0) {
+    validator.issues.push('query is required unless tiers are given');
+  }
+
+  const config: CollectionConfig = {
+    query: root.query === undefined ? '' : (validator.string(root.query, 'query') ?? ''),
+    maxRepositories: optional(root.maxRepositories, 1000, (value) =>
+      validator.number(value, 'maxRepositories', POSITIVE_INTEGER),
+    ),
+    batchSize: optional(root.batchSize, 100, (value) => validator.number(value, 'batchSize', POSITIVE_INTEGER)),
+    concurrency: optional(root.concurrency, DEFAULT_CONCURRENCY, (value) =>
+      validator.number(value, 'concurrency', POSITIVE_INTEGER),
+    ),
+    detailsSource: optional(
+      root.detailsSource,
+      'search',
+      (value) => validator.oneOf(value, 'detailsSource', DETAILS_SOURCES) as CollectionConfig['detailsSource'],
+    ),
+    pipelineMode: optional(
+      root.pipelineMode,
+      'short-circuit',
+      (value) => validator.oneOf(value, 'pipelineMode', PIPELINE_MODES) as CollectionConfig['pipelineMode'],
+    ),
+    criteria: validator.criteria(root.criteria, 'criteria', false) as Criteria,
+    configSource: source,
+  };
+
+  if (root.enrichment !== undefined) {
+    const enrichment = validator.object(root.enrichment, 'enrichment', ENRICHMENT_KEYS) ?? {};
+    config.enrichment = Object.fromEntries(
+      Object.entries(enrichment).map(([key, value]) => [key, validator.boolean(value, join('enrichment', key))]),
+    );
+  }
+
+  if (validator.issues.length > 0) {
+    throw new ConfigValidationError(source, validator.issues);
+  }
+  return { config, tiers };
+}
+
+/**
+ * コマンドラインのフラグや環境変数で上書きした後の設定を、設定ファイルと同じ規則で検証する
+ */
+export function validateCollectionConfig(config: CollectionConfig, source: string): CollectionConfig {
+  const validator = new ConfigValidator();
+  for (const key of RUN_SIZE_KEYS) {
+    if (config[key] !== undefined) validator.number(config[key], key, POSITIVE_INTEGER);
+  }
+  validator.oneOf(config.detailsSource ?? 'search', 'detailsSource', DETAILS_SOURCES);
+  validator.oneOf(config.pipelineMode ?? 'short-circuit', 'pipelineMode', PIPELINE_MODES);
+
+  if (validator.issues.length > 0) {
+    throw new ConfigValidationError(source, validator.issues);
+  }
+  return config;
+}
+
+/**
+ * Tier ごとの CollectionConfig に展開する。tiers がなければ基本設定のみを返す
+ */
+export function resolveTierConfigs(plan: CollectionPlan): CollectionConfig[] {
+  if (plan.tiers.length === 0) {
+    return [plan.config];
+  }
+
+  return plan.tiers.map((tier) => ({
+    ...plan.config,
+    query: tier.query,
+    maxRepositories: tier.maxRepositories,
+    criteria: applyCriteriaOverrides(plan.config.criteria, tier.criteria ?? {}),
+    tier: { id: tier.id, name: tier.name },
+  }));
+}
+
+export function applyCriteriaOverrides(base: Criteria, overrides: CriteriaOverrides): Criteria {
+  const criteria: Criteria = {
+    popularity: { ...base.popularity, ...overrides.popularity },
+    activity: { ...base.activity, ...overrides.activity },
+    quality: { ...base.quality, ...overrides.quality },
+  };
+  if (base.final_selection || overrides.final_selection) {
+    criteria.final_selection = { ...DEFAULT_FINAL_SELECTION, ...base.final_selection, ...overrides.final_selection };
+  }
+  if (base.scoring || overrides.scoring) {
+    criteria.scoring = mergeScoringModels(base.scoring ?? {}, overrides.scoring ?? {});
+  }
+  return criteria;
+}
+
+// 上書きは指標ごとに重み・正規化を置き換える
+function mergeScoringModels(base: ScoringModel, overrides: Partial<ScoringModel>): ScoringModel {
+  const model: ScoringModel = {};
+  const name = overrides.name ?? base.name;
+  if (name !== undefined) model.name = name;
+
+  for (const stage of Object.keys(SCORING_COMPONENTS) as ScoringStage[]) {
+    if (!base[stage] && !overrides[stage]) continue;
+
+    const components: Record<string, ScoringComponentSpec> = { ...base[stage] };
+    for (const [component, spec] of Object.entries(overrides[stage] ?? {})) {
+      components[component] = { ...components[component], ...spec };
+    }
+    model[stage] = components;
+  }
+  return model;
+}
+
+function parseTiers(validator: ConfigValidator, value: unknown): CollectionTier[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    validator.issues.push('tiers must be a non-empty array');
+    return [];
+  }
+
+  const seen = new Set<string>();
+  return value.map((item, index) => {
+    const path = `tiers[${index}]`;
+    const tier = validator.object(item, path, TIER_KEYS) ?? {};
+    const id = validator.string(tier.id, join(path, 'id')) ?? '';
+
+    if (seen.has(id)) {
+      validator.issues.push(`${join(path, 'id')} must be unique ("${id}" is used more than once)`);
+    }
+    seen.add(id);
+
+    return {
+      id,
+      name: tier.name === undefined ? id : (validator.string(tier.name, join(path, 'name')) ?? id),
+      query: validator.string(tier.query, join(path, 'query')) ?? '',
+      maxRepositories: validator.number(tier.maxRepositories, join(path, 'maxRepositories'), POSITIVE_INTEGER) ?? 0,
+      criteria:
+        tier.criteria === undefined ? undefined : validator.criteria(tier.criteria, join(path, 'criteria'), true),
+    };
+  });
+}
+
+async function readConfigFile(path: string): Promise<unknown> {
+  const extension = extname(path).toLowerCase();
+  if (!['.json', '.yaml', '.yml'].includes(extension)) {
+    throw new ConfigValidationError(path, ['config files must have a .json, .yaml or .yml extension']);
+  }
+
+  let content: string;
+  try {
+    content = await readFile(path, 'utf-8');
+  } catch (error) {
+    throw new ConfigValidationError(path, [`cannot be read: ${error instanceof Error ? error.message : error}`]);
+  }
+
+  try {
+    return extension === '.json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new ConfigValidationError(path, [`cannot be parsed: ${error instanceof Error ? error.message : error}`]);
+  }
+}
+
+function optional<T>(value: unknown, fallback: T, validate: (value: unknown) => T | undefined): T {
+  return value === undefined ? fallback : (validate(value) ?? fallback);
+}
+
+function join(path: string, key: string): string {
+  return path === '(root)' ? key : `${path}.${key}`;
+}
@@ -1,121 +1,906 @@
-import { desc, eq } from 'drizzle-orm';
-import { batch_repositories, collection_batches, repositories } from '../../drizzle/schema.js';
-import { GitHubClient } from '../api/github-client.js';
-import { getDatabase } from '../repository/database.js';
+import { type SQL, and, asc, desc, eq, sql } from 'drizzle-orm';
+import { batch_repositories, collection_batches, latest_filter_status, repositories } from '../../drizzle/schema.js';
+import { GitHubApiError, GitHubClient, type GitHubClientOptions } from '../api/github-client.js';
+import { RateLimitWaitAbortedError } from '../api/rate-limit-scheduler.js';
+import { resolveTransportOptions } from '../api/recording-transport.js';
+import { resolveCacheOptions } from '../api/response-cache.js';
+import { type SearchCursor, createSearchCursor } from '../api/search-slicer.js';
+import { resolveGitHubTokens } from '../api/token-pool.js';
+import { createLogger, openBatchLog, withLogContext } from '../logging/logger.js';
+import type { StellarDatabase } from '../repository/database.js';
+import { FilterRunRepository } from '../repository/filter-run-repository.js';
+import { MetricsRepository } from '../repository/metrics-repository.js';
+import { SnapshotRepository } from '../repository/snapshot-repository.js';
 import type {
   ActivityCriteria,
+  CollectionBatch,
+  FilteringSummary,
+  FinalSelectionCriteria,
   GitHubRepository,
+  GitHubRepositoryExtraMetrics,
   InsertBatchRepository,
   InsertCollectionBatch,
   InsertRepository,
   PopularityCriteria,
   QualityCriteria,
   Repository,
+  RepositoryMetrics,
+  ScoringModel,
 } from '../types/index.js';
+import { mapWithConcurrency } from './concurrency.js';
 import { DatabaseInitializer } from './database-initializer.js';
-import { FilteringPipeline } from './filtering/pipeline.js';
-import { ActivityFilter } from './filtering/stages/activity-filter.js';
-import { PopularityFilter } from './filtering/stages/popularity-filter.js';
-import { QualityFilter } from './filtering/stages/quality-filter.js';
+import {
+  DEFAULT_ENRICHMENT_OPTIONS,
+  type EnrichedMetrics,
+  type EnrichmentOptions,
+  RepositoryEnricher,
+} from './enrichment/repository-enricher.js';
+import { FilteringPipeline, PIPELINE_VERSION, type PipelineMode } from './filtering/pipeline.js';
+import { createScoredStages } from './filtering/scored-stages.js';
+import { type BatchProgress, type ProgressListener, ProgressReporter } from './progress-reporter.js';
+import { QualityAssessmentEngine } from './quality-assessment.js';
+import type { RepositoryList } from './repository-list.js';
+
+const logger = createLogger('RepositoryCollector');
+
+export const DEFAULT_CONCURRENCY = 4;
 
 export interface CollectionConfig {
   query: string;
   maxRepositories: number;
   batchSize: number;
+  // 'graphql' はバッチごとに GraphQL で詳細と追加メトリクスを取得する（既定は検索結果をそのまま使用）
+  detailsSource?: 'search' | 'graphql';
+  // 追加のAPI呼び出しで収集する詳細メトリクス（既定は DEFAULT_ENRICHMENT_OPTIONS）
+  enrichment?: EnrichmentOptions;
+  // 並行して処理するリポジトリ数（既定は DEFAULT_CONCURRENCY）
+  concurrency?: number;
+  // 設定ファイルの Tier から展開された場合の Tier
+  tier?: { id: string; name: string };
+  // 設定を読み込んだファイル
+  configSource?: string;
+  // パイプラインの評価モード（既定は short-circuit）
+  pipelineMode?: PipelineMode;
   criteria: {
     popularity: PopularityCriteria;
     activity: ActivityCriteria;
     quality: QualityCriteria;
+    // 第2パスの最終選定の基準（省略すると DEFAULT_FINAL_SELECTION）
+    final_selection?: FinalSelectionCriteria;
+    // スコアの重みと正規化（省略すると既定のモデル）
+    scoring?: ScoringModel;
   };
 }
 
+/**
+ * 保存済みリポジトリの再取得（リフレッシュ）の対象条件。両方を指定した場合は両方を満たすものが対象
+ */
+export interface RefreshSelection {
+  // last_updated_at がこの日数より古いリポジトリ
+  staleDays?: number;
+  // 最新の評価で全ステージを通過したリポジトリ
+  passedAllStages?: boolean;
+  limit?: number;
+}
+
+export interface RefreshConfig {
+  selection: RefreshSelection;
+  batchSize: number;
+  concurrency?: number;
+  enrichment?: EnrichmentOptions;
+  pipelineMode?: PipelineMode;
+  criteria: CollectionConfig['criteria'];
+}
+
+/**
+ * owner/name のリストを指定した収集。source はリストの出所（ファイルパスなど）で、バッチの説明に使う
+ */
+export interface ListCollectionConfig {
+  source: string;
+  list: RepositoryList;
+  batchSize: number;
+  concurrency?: number;
+  enrichment?: EnrichmentOptions;
+  pipelineMode?: PipelineMode;
+  criteria: CollectionConfig['criteria'];
+}
+
+export interface UnresolvedRepository {
+  entry: string;
+  // invalid: owner/name として解釈できない, not_found: 404, unavailable: 451（DMCA などによるブロック）
+  reason: 'invalid' | 'not_found' | 'unavailable';
+}
+
+// 301 でリダイレクトされ、別の名前で解決されたエントリ
+export interface RenamedRepository {
+  entry: string;
+  full_name: string;
+}
+
+export interface RepositoryListReport {
+  unresolved: UnresolvedRepository[];
+  renamed: RenamedRepository[];
+}
+
+/**
+ * 中断したバッチを再開するためのチェックポイント
+ * cursor は処理中のページの先頭を指し、そのページ内で処理済みのリポジトリは processed_ids で読み飛ばす
+ * リフレッシュでは cursor は null で、対象を選び直して processed_ids を除外する
+ * リスト指定の収集では list.position が処理中のチャンクの先頭を指す
+ */
+export interface CollectionCheckpoint {
+  cursor: SearchCursor | null;
+  processed_ids: number[];
+  list?: { position: number; report: RepositoryListReport };
+}
+
+export interface CollectionResult {
+  batchId: number;
+  status: 'completed' | 'paused';
+  totalCollected: number;
+  // リスト指定の収集でのみ設定される
+  listReport?: RepositoryListReport;
+}
+
+interface ResolvedListEntry {
+  entry: string;
+  repository: GitHubRepository | null;
+  unresolved?: UnresolvedRepository;
+}
+
 export class RepositoryCollector {
   private githubClient: GitHubClient;
+  // 中断要求は実行中（または次）のバッチにのみ作用し、バッチの終了時に解除する
+  private pauseRequested = false;
+  // 中断要求でレート制限のリセット待ちを打ち切る
+  private pauseController = new AbortController();
   private pipeline: FilteringPipeline;
-  private db: ReturnType<typeof getDatabase>;
+  private metricsRepository: MetricsRepository;
+  private snapshotRepository: SnapshotRepository;
+  private filterRuns: FilterRunRepository;
+  private filterRunId: number | null = null;
+  private assessmentEngine: QualityAssessmentEngine;
+  private enricher: RepositoryEnricher;
+  // 実行中のバッチの進捗。バッチの外では null
+  private progress: ProgressReporter | null = null;
+  private progressListeners: ProgressListener[] = [];
 
-  constructor(githubToken: string) {
-    this.githubClient = new GitHubClient(githubToken);
-    this.pipeline = new FilteringPipeline();
-    this.db = getDatabase();
+  /**
+   * clientOptions を省略すると GITHUB_CACHE_MODE / GITHUB_CACHE_TTL / GITHUB_TRANSPORT_MODE の設定を使う
+   * レスポンスキャッシュは収集結果と同じデータベースに保存する
+   */
+  constructor(
+    githubToken: string,
+    private db: StellarDatabase,
+    clientOptions: GitHubClientOptions = { cache: resolveCacheOptions(), transport: resolveTransportOptions() },
+  ) {
+    // GITHUB_TOKENS で指定された追加トークンもプールに含める
+    this.githubClient = new GitHubClient(resolveGitHubTokens(githubToken), { ...clientOptions, database: db });
+    this.githubClient.useAbortSignal(this.pauseController.signal);
+    this.pipeline = new FilteringPipeline(db);
+    this.metricsRepository = new MetricsRepository(db);
+    this.snapshotRepository = new SnapshotRepository(db);
+    this.filterRuns = new FilterRunRepository(db);
+    this.assessmentEngine = new QualityAssessmentEngine(db);
+    this.enricher = new RepositoryEnricher(this.githubClient);
 
-    console.info('[RepositoryCollector] Initialized');
+    logger.info('Initialized');
   }
 
-  async setupPipeline(config: CollectionConfig): Promise<void> {
-    console.info('[RepositoryCollector] Setting up filtering pipeline');
+  async setupPipeline(config: Pick<CollectionConfig, 'criteria' | 'enrichment' | 'pipelineMode'>): Promise<void> {
+    logger.info('Setting up filtering pipeline');
+
+    // Tier ごとに呼ばれてもステージが重複しないよう作り直す
+    this.pipeline = new FilteringPipeline(this.db, { mode: config.pipelineMode });
 
     // データベース初期化（フィルタリングステージ登録）
-    const initializer = new DatabaseInitializer();
+    const initializer = new DatabaseInitializer(this.db);
     await initializer.initialize();
 
+    // 詳細メトリクスの収集設定
+    this.enricher = new RepositoryEnricher(this.githubClient, config.enrichment);
+
     // フィルタリングステージを追加
-    this.pipeline.addStage(new PopularityFilter(config.criteria.popularity));
-    this.pipeline.addStage(new ActivityFilter(config.criteria.activity));
-    this.pipeline.addStage(new QualityFilter(config.criteria.quality));
+    for (const stage of await createScoredStages(this.db, config.criteria)) {
+      this.pipeline.addStage(stage);
+    }
 
-    console.info(`[RepositoryCollector] Pipeline configured with ${this.pipeline.getStageCount()} stages`);
+    logger.info(`Pipeline configured with ${this.pipeline.getStageCount()} stages`);
   }
 
-  async collectRepositories(config: CollectionConfig): Promise<void> {
-    console.info(`[RepositoryCollector] Starting collection with query: ${config.query}`);
+  async collectRepositories(config: CollectionConfig): Promise<CollectionResult> {
+    logger.info(`Starting collection with query: ${config.query}`);
 
     // コレクションバッチを作成
     const batchId = await this.createCollectionBatch(config);
 
+    return this.inBatchContext(batchId, () =>
+      this.runCollection(batchId, config, { cursor: createSearchCursor(config.query), processed_ids: [] }),
+    );
+  }
+
+  /**
+   * 中断・失敗したバッチをチェックポイントから再開する
+   * パイプラインはバッチに保存された設定で構成するため、setupPipeline を事前に呼ぶ必要はない
+   */
+  async resumeCollection(batchId: number): Promise<CollectionResult> {
+    const [batch] = await this.db.select().from(collection_batches).where(eq(collection_batches.id, batchId)).limit(1);
+
+    if (!batch) {
+      throw new Error(`Collection batch ${batchId} not found`);
+    }
+    if (batch.status === 'completed') {
+      throw new Error(`Collection batch ${batchId} is already completed`);
+    }
+
+    return this.inBatchContext(batchId, () => this.resumeBatch(batch));
+  }
+
+  private async resumeBatch(batch: CollectionBatch): Promise<CollectionResult> {
+    const batchId = batch.id;
+    logger.info(`Resuming collection batch ${batchId} (status: ${batch.status})`);
+
+    // チェックポイント保存前に記録されたリポジトリも処理済みとして扱う
+    const batchRepos = await this.db
+      .select({ repository_id: batch_repositories.repository_id })
+      .from(batch_repositories)
+      .where(eq(batch_repositories.batch_id, batchId));
+
+    const saved = batch.checkpoint as CollectionCheckpoint | null;
+    const processedIds = [...new Set([...(saved?.processed_ids ?? []), ...batchRepos.map((row) => row.repository_id)])];
+    this.progress?.resume(processedIds.length, batch.progress as BatchProgress | null);
+
+    const mode = parseQueryParams(batch).mode;
+    if (mode === 'refresh') {
+      const config = this.restoreRefreshConfig(batch);
+      await this.setupPipeline(config);
+      await this.markBatchRunning(batchId);
+      return this.runRefresh(batchId, config, new Set(processedIds));
+    }
+    if (mode === 'list') {
+      const config = this.restoreListConfig(batch);
+      await this.setupPipeline(config);
+      await this.markBatchRunning(batchId);
+      return this.runList(batchId, config, {
+        cursor: null,
+        processed_ids: processedIds,
+        list: saved?.list ?? initialListState(config.list),
+      });
+    }
+
+    const config = this.restoreConfig(batch);
+    const checkpoint: CollectionCheckpoint = {
+      cursor: saved?.cursor ?? createSearchCursor(config.query),
+      processed_ids: processedIds,
+    };
+
+    await this.setupPipeline(config);
+    await this.markBatchRunning(batchId);
+
+    return this.runCollection(batchId, config, checkpoint);
+  }
+
+  /**
+   * 条件に合う保存済みリポジトリを getRepositoryDetails で再取得し、パイプラインを再実行する
+   * リフレッシュは独立した collection_batches として記録される。setupPipeline を事前に呼ぶこと
+   */
+  async refreshRepositories(config: RefreshConfig): Promise<CollectionResult> {
+    const { staleDays, passedAllStages } = config.selection;
+    if (staleDays === undefined && !passedAllStages) {
+      throw new Error('Refresh requires staleDays or passedAllStages to select repositories');
+    }
+
+    logger.info(`Starting refresh: ${this.describeSelection(config.selection)}`);
+    const batchId = await this.createRefreshBatch(config);
+
+    return this.inBatchContext(batchId, () => this.runRefresh(batchId, config, new Set()));
+  }
+
+  /**
+   * owner/name のリストの各エントリを getRepositoryDetails で解決し、検索による収集と同じようにバッチに記録して評価する
+   * 解決できなかったエントリとリネームされたエントリは結果の listReport に含まれる。setupPipeline を事前に呼ぶこと
+   */
+  async collectFromList(config: ListCollectionConfig): Promise<CollectionResult> {
+    logger.info(`Starting collection of ${config.list.entries.length} listed repositories from ${config.source}`);
+    const batchId = await this.createListBatch(config);
+
+    return this.inBatchContext(batchId, () =>
+      this.runList(batchId, config, { cursor: null, processed_ids: [], list: initialListState(config.list) }),
+    );
+  }
+
+  /**
+   * リポジトリを 1 件処理するたびに、実行中のバッチの進捗を受け取る
+   */
+  onProgress(listener: ProgressListener): void {
+    this.progressListeners.push(listener);
+  }
+
+  /**
+   * 現在のリポジトリの処理が終わった時点で収集を中断し、バッチを paused にする
+   * レート制限のリセット待ちは打ち切り、待っていたリポジトリは再開時に処理する
+   */
+  requestPause(): void {
+    this.pauseRequested = true;
+    this.pauseController.abort();
+    logger.info('Pause requested, stopping after the current repository');
+  }
+
+  /**
+   * 同じコレクターで次のバッチを実行できるよう、中断要求と打ち切り用のシグナルを作り直す
+   */
+  private resetPause(): void {
+    this.pauseRequested = false;
+    this.pauseController = new AbortController();
+    this.githubClient.useAbortSignal(this.pauseController.signal);
+  }
+
+  /**
+   * バッチ実行中のログに batchId を付与し、LOG_DIR が指定されていればバッチごとのログファイルにも書き出す
+   * 実行中は進捗を集計し、一定間隔で collection_batches に書き出す
+   */
+  private async inBatchContext<T>(batchId: number, run: () => Promise<T>): Promise<T> {
+    const batchLog = openBatchLog(batchId);
+    if (batchLog) {
+      logger.info(`Writing batch log to ${batchLog.path}`, { batchId });
+    }
+
+    this.progress = new ProgressReporter(
+      this.db,
+      batchId,
+      () => this.githubClient.getTokenUsage(),
+      this.progressListeners,
+    );
     try {
-      // GitHubからリポジトリを検索
-      console.info('[RepositoryCollector] Searching repositories on GitHub');
-      const githubRepos = await this.githubClient.searchRepositories(
+      return await withLogContext({ batchId }, run);
+    } finally {
+      this.progress = null;
+      this.filterRunId = null;
+      this.resetPause();
+      batchLog?.close();
+    }
+  }
+
+  /**
+   * バッチの評価結果を記録するフィルター実行を用意し、パイプラインの書き込み先にする
+   * 再開したバッチは同じ実行に書き込むため、処理し直したリポジトリの結果は上書きされる
+   */
+  private async startFilterRun(batchId: number, criteria: CollectionConfig['criteria']): Promise<void> {
+    const run = await this.filterRuns.findOrCreateForBatch(batchId, {
+      criteria,
+      pipeline_version: PIPELINE_VERSION,
+      pipeline_mode: this.pipeline.getMode(),
+    });
+    this.filterRunId = run.id;
+    this.pipeline.useRecorder(this.filterRuns.recorder(run.id));
+  }
+
+  /**
+   * 最終選定は実行で評価したリポジトリ全体の順位を使うため、パイプラインには加えずバッチの最後に第2パスとして実行する
+   */
+  private async runFinalSelection(criteria: CollectionConfig['criteria']): Promise<void> {
+    if (this.filterRunId === null) return;
+
+    await this.assessmentEngine.selectFinal(this.filterRunId, {
+      criteria: criteria.final_selection,
+      mode: this.pipeline.getMode(),
+      recorder: this.filterRuns.recorder(this.filterRunId),
+    });
+  }
+
+  private async runCollection(
+    batchId: number,
+    config: CollectionConfig,
+    checkpoint: CollectionCheckpoint,
+  ): Promise<CollectionResult> {
+    const processed = new Set(checkpoint.processed_ids);
+    let cursor = checkpoint.cursor ?? createSearchCursor(config.query);
+
+    try {
+      await this.startFilterRun(batchId, config.criteria);
+
+      // GitHubからリポジトリをページ単位で検索
+      logger.info('Searching repositories on GitHub');
+      const pages = this.githubClient.searchRepositoryPages(
         config.query,
         'stars',
         'desc',
         config.maxRepositories,
+        cursor,
       );
 
-      console.info(`[RepositoryCollector] Found ${githubRepos.length} repositories`);
+      for await (const page of pages) {
+        const found = page.cursor.totalFound ?? null;
+        this.progress?.setTotals(found, found === null ? null : Math.min(found, config.maxRepositories));
+
+        const pending = page.repositories.filter((repo) => !processed.has(repo.id));
+        logger.info(`Processing ${pending.length} repositories (${processed.size} processed so far)`);
+
+        // バッチサイズごとに処理
+        for (let i = 0; i < pending.length && !this.pauseRequested; i += config.batchSize) {
+          await this.processChunk(pending.slice(i, i + config.batchSize), batchId, config, processed);
+          await this.saveCheckpoint(batchId, { cursor, processed_ids: [...processed] });
+        }
+
+        if (this.pauseRequested) {
+          await this.pauseCollectionBatch(batchId, { cursor, processed_ids: [...processed] });
+          return { batchId, status: 'paused', totalCollected: processed.size };
+        }
+
+        // ページを処理し終えたらカーソルを次のページへ進める
+        cursor = page.cursor;
+        await this.saveCheckpoint(batchId, { cursor, processed_ids: [...processed] });
+      }
+
+      // 最終選定の後、バッチを完了にマーク
+      await this.runFinalSelection(config.criteria);
+      await this.completeCollectionBatch(batchId, processed.size);
+
+      logger.info(`Collection completed successfully. Total: ${processed.size} repositories`);
+      return { batchId, status: 'completed', totalCollected: processed.size };
+    } catch (error) {
+      if (error instanceof RateLimitWaitAbortedError) {
+        await this.pauseCollectionBatch(batchId, { cursor, processed_ids: [...processed] });
+        return { batchId, status: 'paused', totalCollected: processed.size };
+      }
+      logger.error('Collection failed', { error });
+      await this.saveCheckpoint(batchId, { cursor, processed_ids: [...processed] });
+      await this.failCollectionBatch(batchId, error instanceof Error ? error.message : 'Unknown error');
+      throw error;
+    }
+  }
+
+  private async runRefresh(batchId: number, config: RefreshConfig, processed: Set<number>): Promise<CollectionResult> {
+    const concurrency = config.concurrency ?? DEFAULT_CONCURRENCY;
+
+    try {
+      await this.startFilterRun(batchId, config.criteria);
+      const targets = (await this.selectRefreshTargets(config.selection)).filter((repo) => !processed.has(repo.id));
+      logger.info(`${targets.length} repositories to refresh`);
+      this.progress?.setTotals(processed.size + targets.length, processed.size + targets.length);
 
-      // バッチサイズごとに処理
-      for (let i = 0; i < githubRepos.length; i += config.batchSize) {
-        const batch = githubRepos.slice(i, i + config.batchSize);
-        console.info(
-          `[RepositoryCollector] Processing batch ${Math.floor(i / config.batchSize) + 1}/${Math.ceil(githubRepos.length / config.batchSize)}`,
+      for (let i = 0; i < targets.length && !this.pauseRequested; i += config.batchSize) {
+        const chunk = targets.slice(i, i + config.batchSize);
+        const fetched = await mapWithConcurrency(
+          chunk,
+          concurrency,
+          (repo) => unlessWaitAborted(() => this.fetchLatestDetails(repo)),
+          { shouldStop: () => this.pauseRequested },
         );
 
-        await this.processBatch(batch, batchId);
+        const refreshed = fetched.filter((repo): repo is GitHubRepository => repo !== undefined && repo !== null);
+        await this.processBatch(refreshed, batchId, processed, concurrency);
+
+        // 削除・非公開化されたリポジトリは再試行しない
+        for (const [index, repo] of fetched.entries()) {
+          if (repo !== null) continue;
+          processed.add((chunk[index] as Repository).id);
+          await this.progress?.record(null);
+        }
+
+        await this.saveCheckpoint(batchId, { cursor: null, processed_ids: [...processed] });
       }
 
-      // バッチを完了にマーク
-      await this.completeCollectionBatch(batchId, githubRepos.length);
+      if (this.pauseRequested) {
+        await this.pauseCollectionBatch(batchId, { cursor: null, processed_ids: [...processed] });
+        return { batchId, status: 'paused', totalCollected: processed.size };
+      }
 
-      console.info(
-        `[RepositoryCollector] Collection completed successfully. Total: ${githubRepos.length} repositories`,
+      await this.runFinalSelection(config.criteria);
+      await this.completeCollectionBatch(batchId, processed.size);
+      logger.info(`Refresh completed successfully. Total: ${processed.size} repositories`);
+      return { batchId, status: 'completed', totalCollected: processed.size };
+    } catch (error) {
+      if (error instanceof RateLimitWaitAbortedError) {
+        await this.pauseCollectionBatch(batchId, { cursor: null, processed_ids: [...processed] });
+        return { batchId, status: 'paused', totalCollected: processed.size };
+      }
+      logger.error('Refresh failed', { error });
+      await this.saveCheckpoint(batchId, { cursor: null, processed_ids: [...processed] });
+      await this.failCollectionBatch(batchId, error instanceof Error ? error.message : 'Unknown error');
+      throw error;
+    }
+  }
+
+  private async runList(
+    batchId: number,
+    config: ListCollectionConfig,
+    checkpoint: CollectionCheckpoint,
+  ): Promise<CollectionResult> {
+    const concurrency = config.concurrency ?? DEFAULT_CONCURRENCY;
+    const processed = new Set(checkpoint.processed_ids);
+    const entries = config.list.entries;
+    const state = checkpoint.list ?? initialListState(config.list);
+    const currentCheckpoint = (): CollectionCheckpoint => ({
+      cursor: null,
+      processed_ids: [...processed],
+      list: state,
+    });
+
+    // リネームや重複で実際に処理する件数は減ることがある
+    this.progress?.setTotals(entries.length, entries.length);
+
+    try {
+      await this.startFilterRun(batchId, config.criteria);
+
+      while (state.position < entries.length && !this.pauseRequested) {
+        const chunk = entries.slice(state.position, state.position + config.batchSize);
+        const resolved = await this.processListChunk(chunk, batchId, processed, concurrency);
+
+        // チャンクを処理し終えるまでは位置とレポートを進めない（再開時にチャンクを解決し直す）
+        if (this.pauseRequested) break;
+
+        recordListResults(state.report, resolved as ResolvedListEntry[]);
+        state.position += chunk.length;
+        await this.saveCheckpoint(batchId, currentCheckpoint());
+      }
+
+      if (this.pauseRequested) {
+        await this.pauseCollectionBatch(batchId, currentCheckpoint());
+        return { batchId, status: 'paused', totalCollected: processed.size, listReport: state.report };
+      }
+
+      await this.runFinalSelection(config.criteria);
+      await this.completeCollectionBatch(batchId, processed.size);
+      logger.info(
+        `List collection completed successfully. Total: ${processed.size} repositories, ${state.report.unresolved.length} unresolved`,
       );
+      return { batchId, status: 'completed', totalCollected: processed.size, listReport: state.report };
     } catch (error) {
-      console.error('[RepositoryCollector] Collection failed:', error);
+      if (error instanceof RateLimitWaitAbortedError) {
+        await this.pauseCollectionBatch(batchId, currentCheckpoint());
+        return { batchId, status: 'paused', totalCollected: processed.size, listReport: state.report };
+      }
+      logger.error('List collection failed', { error });
+      await this.saveCheckpoint(batchId, currentCheckpoint());
       await this.failCollectionBatch(batchId, error instanceof Error ? error.message : 'Unknown error');
       throw error;
     }
   }
 
-  private async processBatch(githubRepos: GitHubRepository[], batchId: number): Promise<void> {
-    for (const githubRepo of githubRepos) {
-      try {
-        // リポジトリをデータベースに保存
-        const repository = await this.storeRepository(githubRepo);
+  private async processListChunk(
+    chunk: string[],
+    batchId: number,
+    processed: Set<number>,
+    concurrency: number,
+  ): Promise<(ResolvedListEntry | undefined)[]> {
+    const resolved = await mapWithConcurrency(
+      chunk,
+      concurrency,
+      (entry) => unlessWaitAborted(() => this.resolveListEntry(entry)),
+      { shouldStop: () => this.pauseRequested },
+    );
 
+    // 旧名と新名の両方が並んでいる場合など、同じリポジトリは一度だけ処理する
+    const repositoriesById = new Map<number, GitHubRepository>();
+    for (const result of resolved) {
+      if (result?.repository && !processed.has(result.repository.id)) {
+        repositoriesById.set(result.repository.id, result.repository);
+      }
+    }
+    await this.processBatch([...repositoriesById.values()], batchId, processed, concurrency);
+
+    return resolved;
+  }
+
+  /**
+   * リネームされたリポジトリは GitHub が 301 で新しい URL へリダイレクトし、リダイレクト先の詳細が返る
+   * 404 と 451 は未解決として記録し、それ以外のエラー（レート制限など）はバッチを失敗させて再開に委ねる
+   */
+  private async resolveListEntry(entry: string): Promise<ResolvedListEntry> {
+    const [owner, name] = entry.split('/') as [string, string];
+
+    try {
+      return { entry, repository: await this.githubClient.getRepositoryDetails(owner, name) };
+    } catch (error) {
+      if (error instanceof GitHubApiError && (error.status === 404 || error.status === 451)) {
+        logger.warn(`Could not resolve ${entry}`, { status: error.status });
+        return {
+          entry,
+          repository: null,
+          unresolved: { entry, reason: error.status === 404 ? 'not_found' : 'unavailable' },
+        };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 削除・非公開化（404）や法的理由による公開停止（451）のみ null を返す
+   * それ以外のエラー（レート制限・5xx・ネットワークエラーなど）はバッチを失敗させ、再開時に再試行する
+   */
+  private async fetchLatestDetails(repository: Repository): Promise<GitHubRepository | null> {
+    try {
+      return await this.githubClient.getRepositoryDetails(repository.owner, repository.name);
+    } catch (error) {
+      if (error instanceof GitHubApiError && (error.status === 404 || error.status === 451)) {
+        logger.warn('Repository is no longer available', { repo: repository.full_name, status: error.status });
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async selectRefreshTargets(selection: RefreshSelection): Promise<Repository[]> {
+    const conditions: SQL[] = [];
+
+    if (selection.staleDays !== undefined) {
+      const cutoff = new Date(Date.now() - selection.staleDays * 24 * 60 * 60 * 1000).toISOString();
+      // 既定値（datetime('now')）と ISO 形式が混在するため datetime() で正規化して比較する
+      conditions.push(sql`datetime(${repositories.last_updated_at}) < datetime(${cutoff})`);
+    }
+
+    if (selection.passedAllStages) {
+      // 最新のフィルター実行でパイプラインのすべてのステージを passed したリポジトリ
+      // 第2パスの最終選定はパイプラインのステージではないため判定に含めない
+      const stageIds = this.pipeline.getStageIds();
+      if (stageIds.length === 0) {
+        throw new Error('setupPipeline must be called before selecting repositories that passed all stages');
+      }
+      conditions.push(sql`${repositories.id} IN (
+        SELECT repository_id FROM ${latest_filter_status}
+        WHERE stage_id IN (${sql.join(stageIds, sql`, `)})
+        GROUP BY repository_id
+        HAVING count(*) = ${stageIds.length} AND sum(status = 'passed') = count(*)
+      )`);
+    }
+
+    const query = this.db
+      .select()
+      .from(repositories)
+      .where(and(...conditions))
+      .orderBy(asc(repositories.last_updated_at))
+      .$dynamic();
+
+    return selection.limit !== undefined ? query.limit(selection.limit) : query;
+  }
+
+  private describeSelection(selection: RefreshSelection): string {
+    const parts = [
+      selection.staleDays !== undefined ? `last updated more than ${selection.staleDays} days ago` : null,
+      selection.passedAllStages ? 'passed all stages' : null,
+      selection.limit !== undefined ? `limit ${selection.limit}` : null,
+    ];
+    return parts.filter((part) => part !== null).join(', ');
+  }
+
+  private restoreRefreshConfig(batch: CollectionBatch): RefreshConfig {
+    const params = parseQueryParams(batch) as {
+      selection?: RefreshSelection;
+      batch_size?: number;
+      concurrency?: number;
+      enrichment?: EnrichmentOptions;
+      pipeline_mode?: PipelineMode;
+      criteria?: CollectionConfig['criteria'];
+    };
+
+    if (!params.selection || !params.criteria) {
+      throw new Error(`Refresh batch ${batch.id} has no stored selection or criteria and cannot be resumed`);
+    }
+
+    return {
+      selection: params.selection,
+      batchSize: params.batch_size ?? 100,
+      concurrency: params.concurrency,
+      enrichment: params.enrichment,
+      pipelineMode: params.pipeline_mode,
+      criteria: params.criteria,
+    };
+  }
+
+  private restoreListConfig(batch: CollectionBatch): ListCollectionConfig {
+    const params = parseQueryParams(batch) as {
+      source?: string;
+      entries?: string[];
+      invalid?: string[];
+      batch_size?: number;
+      concurrency?: number;
+      enrichment?: EnrichmentOptions;
+      pipeline_mode?: PipelineMode;
+      criteria?: CollectionConfig['criteria'];
+    };
+
+    if (!params.entries || !params.criteria) {
+      throw new Error(`List collection batch ${batch.id} has no stored entries or criteria and cannot be resumed`);
+    }
+
+    return {
+      source: params.source ?? 'unknown',
+      list: { entries: params.entries, invalid: params.invalid ?? [] },
+      batchSize: params.batch_size ?? 100,
+      concurrency: params.concurrency,
+      enrichment: params.enrichment,
+      pipelineMode: params.pipeline_mode,
+      criteria: params.criteria,
+    };
+  }
+
+  private async processChunk(
+    chunk: GitHubRepository[],
+    batchId: number,
+    config: CollectionConfig,
+    processed: Set<number>,
+  ): Promise<void> {
+    const concurrency = config.concurrency ?? DEFAULT_CONCURRENCY;
+
+    if (config.detailsSource === 'graphql') {
+      const { repositories: detailed, metrics } = await this.fetchGraphQLDetails(chunk);
+      await this.processBatch(detailed, batchId, processed, concurrency, metrics);
+    } else {
+      await this.processBatch(chunk, batchId, processed, concurrency);
+    }
+  }
+
+  /**
+   * query_params に保存された設定から CollectionConfig を復元する
+   */
+  private restoreConfig(batch: CollectionBatch): CollectionConfig {
+    const params = parseQueryParams(batch) as {
+      query?: string;
+      max_repositories?: number;
+      batch_size?: number;
+      details_source?: CollectionConfig['detailsSource'];
+      concurrency?: number;
+      enrichment?: EnrichmentOptions;
+      pipeline_mode?: PipelineMode;
+      criteria?: CollectionConfig['criteria'];
+      tier?: CollectionConfig['tier'] | null;
+      config_source?: string | null;
+    };
+
+    if (!params.query || !params.criteria) {
+      throw new Error(`Collection batch ${batch.id} has no stored query or criteria and cannot be resumed`);
+    }
+
+    return {
+      query: params.query,
+      maxRepositories: params.max_repositories ?? 1000,
+      batchSize: params.batch_size ?? 100,
+      detailsSource: params.details_source,
+      concurrency: params.concurrency,
+      enrichment: params.enrichment,
+      pipelineMode: params.pipeline_mode,
+      criteria: params.criteria,
+      tier: params.tier ?? undefined,
+      configSource: params.config_source ?? undefined,
+    };
+  }
+
+  /**
+   * 検索結果を GraphQL で取得した詳細に置き換える。取得できなかったリポジトリは検索結果のまま残す
+   */
+  private async fetchGraphQLDetails(githubRepos: GitHubRepository[]): Promise<{
+    repositories: GitHubRepository[];
+    metrics: Map<number, GitHubRepositoryExtraMetrics>;
+  }> {
+    const details = await this.githubClient.getRepositoriesDetailsBatch(githubRepos.map((repo) => repo.full_name));
+    const detailsById = new Map(details.map((detail) => [detail.repository.id, detail]));
+
+    return {
+      repositories: githubRepos.map((repo) => detailsById.get(repo.id)?.repository ?? repo),
+      metrics: new Map(details.map((detail) => [detail.repository.id, detail.metrics])),
+    };
+  }
+
+  /**
+   * 保存・エンリッチメント・フィルタ評価を最大 concurrency 件並行して実行する
+   * バッチへの記録と処理済みの登録は、完了後に検索結果の順序どおりに行う
+   */
+  private async processBatch(
+    githubRepos: GitHubRepository[],
+    batchId: number,
+    processed: Set<number>,
+    concurrency: number,
+    extraMetrics = new Map<number, GitHubRepositoryExtraMetrics>(),
+  ): Promise<void> {
+    const results = await mapWithConcurrency(
+      githubRepos,
+      concurrency,
+      (githubRepo) =>
+        withLogContext({ repo: githubRepo.full_name }, () =>
+          unlessWaitAborted(() => this.processRepository(githubRepo, batchId, extraMetrics.get(githubRepo.id))),
+        ),
+      { shouldStop: () => this.pauseRequested },
+    );
+
+    for (const [index, result] of results.entries()) {
+      // 中断により開始されなかった、またはレート制限の待機中に中断されたリポジトリは再開時に処理する
+      if (result === undefined) continue;
+
+      const githubRepo = githubRepos[index] as GitHubRepository;
+      if (result.stored) {
         // バッチ関連を記録
-        await this.addRepositoryToBatch(batchId, repository.id);
+        await this.addRepositoryToBatch(batchId, githubRepo.id);
+      }
+
+      // 失敗したリポジトリも再開時に再試行しない
+      processed.add(githubRepo.id);
+    }
+  }
+
+  private async processRepository(
+    githubRepo: GitHubRepository,
+    batchId: number,
+    extraMetrics?: GitHubRepositoryExtraMetrics,
+  ): Promise<{ stored: boolean }> {
+    let stored = false;
+    let summary: FilteringSummary | null = null;
+
+    try {
+      // リポジトリをデータベースに保存
+      const repository = await this.storeRepository(githubRepo);
+      stored = true;
+
+      // 収集時点のメトリクスを時系列として記録
+      await this.storeSnapshot(repository, batchId);
+
+      // 詳細メトリクスを収集・保存
+      const metrics = await this.storeRepositoryMetrics(repository, extraMetrics);
+
+      // フィルタリングパイプラインを実行
+      summary = await this.pipeline.execute(repository, metrics);
 
-        // フィルタリングパイプラインを実行
-        await this.pipeline.execute(repository);
+      logger.debug('Processed repository');
+    } catch (error) {
+      if (error instanceof RateLimitWaitAbortedError) throw error;
+      logger.error('Failed to process repository', { error });
+      // 個別の失敗は継続する
+    }
+
+    await this.progress?.record(summary);
+    return { stored };
+  }
+
+  private async storeSnapshot(repository: Repository, batchId: number): Promise<void> {
+    await this.snapshotRepository.insert({
+      repository_id: repository.id,
+      batch_id: batchId,
+      stars_count: repository.stars_count,
+      forks_count: repository.forks_count,
+      watchers_count: repository.watchers_count,
+      size: repository.size,
+      open_issues_count: repository.open_issues_count,
+      pushed_at: repository.pushed_at,
+      updated_at: repository.updated_at,
+      archived: repository.archived,
+      disabled: repository.disabled,
+      captured_at: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * GraphQL の追加メトリクスとエンリッチメント結果を1行の repository_metrics として保存する
+   */
+  private async storeRepositoryMetrics(
+    repository: Repository,
+    extraMetrics?: GitHubRepositoryExtraMetrics,
+  ): Promise<RepositoryMetrics | null> {
+    const metrics: EnrichedMetrics = {};
 
-        console.debug(`[RepositoryCollector] Processed: ${repository.full_name}`);
+    if (extraMetrics) {
+      Object.assign(metrics, {
+        commits_count: extraMetrics.commits_count,
+        releases_count: extraMetrics.releases_count,
+        license_spdx_id: extraMetrics.license_spdx_id,
+        languages: extraMetrics.languages,
+      });
+    }
+
+    if (this.enricher.isEnabled()) {
+      try {
+        Object.assign(metrics, await this.enricher.enrich(repository));
       } catch (error) {
-        console.error(`[RepositoryCollector] Failed to process ${githubRepo.full_name}:`, error);
-        // 個別の失敗は継続する
+        if (error instanceof RateLimitWaitAbortedError) throw error;
+        logger.warn('Enrichment failed', { error });
       }
     }
+
+    if (Object.keys(metrics).length === 0) {
+      return null;
+    }
+
+    await this.metricsRepository.insert({ repository_id: repository.id, ...metrics });
+    return this.metricsRepository.getLatest(repository.id);
   }
 
   private async storeRepository(githubRepo: GitHubRepository): Promise<Repository> {
@@ -156,16 +941,17 @@ export class RepositoryCollector {
       const existing = await this.db.select().from(repositories).where(eq(repositories.id, githubRepo.id)).limit(1);
 
       if (existing.length > 0) {
-        // 更新
-        await this.db
+        // 更新（フィルタが最新の値で評価されるよう更新後の行を返す）
+        const [updated] = await this.db
           .update(repositories)
           .set({ ...insertData, last_updated_at: new Date().toISOString() })
-          .where(eq(repositories.id, githubRepo.id));
+          .where(eq(repositories.id, githubRepo.id))
+          .returning();
 
-        if (!existing[0]) {
+        if (!updated) {
           throw new Error(`Repository ${githubRepo.id} not found after update`);
         }
-        return existing[0];
+        return updated;
       }
       // 新規作成
       await this.db.insert(repositories).values(insertData);
@@ -177,7 +963,7 @@ export class RepositoryCollector {
       }
       return created[0];
     } catch (error) {
-      console.error(`[RepositoryCollector] Failed to store repository ${githubRepo.full_name}:`, error);
+      logger.error('Failed to store repository', { error });
       throw error;
     }
   }
@@ -185,12 +971,19 @@ export class RepositoryCollector {
   private async createCollectionBatch(config: CollectionConfig): Promise<number> {
     const batchData: InsertCollectionBatch = {
       name: `Collection-${new Date().toISOString()}`,
-      description: `Repository collection with query: ${config.query}`,
-      query_params: JSON.stringify({
+      description: `Repository collection with query: ${config.query}${config.tier ? ` (tier: ${config.tier.name})` : ''}`,
+      query_params: {
         query: config.query,
         max_repositories: config.maxRepositories,
         batch_size: config.batchSize,
-      }),
+        details_source: config.detailsSource ?? 'search',
+        concurrency: config.concurrency ?? DEFAULT_CONCURRENCY,
+        enrichment: { ...DEFAULT_ENRICHMENT_OPTIONS, ...config.enrichment },
+        pipeline_mode: config.pipelineMode ?? 'short-circuit',
+        criteria: config.criteria,
+        tier: config.tier ?? null,
+        config_source: config.configSource ?? null,
+      },
       status: 'running',
     };
 
@@ -199,7 +992,59 @@ export class RepositoryCollector {
     if (!result[0]) {
       throw new Error('Failed to create collection batch');
     }
-    console.info(`[RepositoryCollector] Created collection batch: ${result[0].id}`);
+    logger.info(`Created collection batch: ${result[0].id}`);
+    return result[0].id;
+  }
+
+  private async createRefreshBatch(config: RefreshConfig): Promise<number> {
+    const batchData: InsertCollectionBatch = {
+      name: `Refresh-${new Date().toISOString()}`,
+      description: `Repository refresh: ${this.describeSelection(config.selection)}`,
+      query_params: {
+        mode: 'refresh',
+        selection: config.selection,
+        batch_size: config.batchSize,
+        concurrency: config.concurrency ?? DEFAULT_CONCURRENCY,
+        enrichment: { ...DEFAULT_ENRICHMENT_OPTIONS, ...config.enrichment },
+        pipeline_mode: config.pipelineMode ?? 'short-circuit',
+        criteria: config.criteria,
+      },
+      status: 'running',
+    };
+
+    const result = await this.db.insert(collection_batches).values(batchData).returning({ id: collection_batches.id });
+
+    if (!result[0]) {
+      throw new Error('Failed to create refresh batch');
+    }
+    logger.info(`Created refresh batch: ${result[0].id}`);
+    return result[0].id;
+  }
+
+  private async createListBatch(config: ListCollectionConfig): Promise<number> {
+    const batchData: InsertCollectionBatch = {
+      name: `List-${new Date().toISOString()}`,
+      description: `Repository collection from list: ${config.source} (${config.list.entries.length} entries)`,
+      query_params: {
+        mode: 'list',
+        source: config.source,
+        entries: config.list.entries,
+        invalid: config.list.invalid,
+        batch_size: config.batchSize,
+        concurrency: config.concurrency ?? DEFAULT_CONCURRENCY,
+        enrichment: { ...DEFAULT_ENRICHMENT_OPTIONS, ...config.enrichment },
+        pipeline_mode: config.pipelineMode ?? 'short-circuit',
+        criteria: config.criteria,
+      },
+      status: 'running',
+    };
+
+    const result = await this.db.insert(collection_batches).values(batchData).returning({ id: collection_batches.id });
+
+    if (!result[0]) {
+      throw new Error('Failed to create list collection batch');
+    }
+    logger.info(`Created list collection batch: ${result[0].id}`);
     return result[0].id;
   }
 
@@ -212,7 +1057,29 @@ export class RepositoryCollector {
     await this.db.insert(batch_repositories).values(batchRepo);
   }
 
+  private async markBatchRunning(batchId: number): Promise<void> {
+    await this.db
+      .update(collection_batches)
+      .set({ status: 'running', error_message: null, completed_at: null })
+      .where(eq(collection_batches.id, batchId));
+  }
+
+  private async saveCheckpoint(batchId: number, checkpoint: CollectionCheckpoint): Promise<void> {
+    await this.db.update(collection_batches).set({ checkpoint }).where(eq(collection_batches.id, batchId));
+  }
+
+  private async pauseCollectionBatch(batchId: number, checkpoint: CollectionCheckpoint): Promise<void> {
+    await this.progress?.flush();
+    await this.db
+      .update(collection_batches)
+      .set({ status: 'paused', checkpoint, total_collected: checkpoint.processed_ids.length })
+      .where(eq(collection_batches.id, batchId));
+
+    logger.info(`Paused collection batch: ${batchId}`);
+  }
+
   private async completeCollectionBatch(batchId: number, totalCollected: number): Promise<void> {
+    await this.progress?.flush();
     await this.db
       .update(collection_batches)
       .set({
@@ -222,10 +1089,11 @@ export class RepositoryCollector {
       })
       .where(eq(collection_batches.id, batchId));
 
-    console.info(`[RepositoryCollector] Completed collection batch: ${batchId}`);
+    logger.info(`Completed collection batch: ${batchId}`);
   }
 
   private async failCollectionBatch(batchId: number, errorMessage: string): Promise<void> {
+    await this.progress?.flush();
     await this.db
       .update(collection_batches)
       .set({
@@ -235,7 +1103,7 @@ export class RepositoryCollector {
       })
       .where(eq(collection_batches.id, batchId));
 
-    console.error(`[RepositoryCollector] Failed collection batch: ${batchId}`);
+    logger.error(`Failed collection batch: ${batchId}`);
   }
 
   async getCollectionSummary(): Promise<{
@@ -267,3 +1135,38 @@ export class RepositoryCollector {
     };
   }
 }
+
+/**
+ * 中断要求でレート制限の待機が打ち切られた場合は undefined（開始されなかった扱い）を返す
+ */
+async function unlessWaitAborted<T>(run: () => Promise<T>): Promise<T | undefined> {
+  try {
+    return await run();
+  } catch (error) {
+    if (error instanceof RateLimitWaitAbortedError) return undefined;
+    throw error;
+  }
+}
+
+// 以前のバッチは query_params が文字列として二重にエンコードされている
+function parseQueryParams(batch: CollectionBatch): Record<string, unknown> {
+  const params = typeof batch.query_params === 'string' ? JSON.parse(batch.query_params) : batch.query_params;
+  return params && typeof params === 'object' ? (params as Record<string, unknown>) : {};
+}
+
+function recordListResults(report: RepositoryListReport, resolved: ResolvedListEntry[]): void {
+  for (const result of resolved) {
+    if (result.unresolved) report.unresolved.push(result.unresolved);
+    if (result.repository && result.repository.full_name.toLowerCase() !== result.entry.toLowerCase()) {
+      report.renamed.push({ entry: result.entry, full_name: result.repository.full_name });
+    }
+  }
+}
+
+// 解釈できなかったエントリは解決を試みる前に未解決として記録する
+function initialListState(list: RepositoryList): NonNullable<CollectionCheckpoint['list']> {
+  return {
+    position: 0,
+    report: { unresolved: list.invalid.map((entry) => ({ entry, reason: 'invalid' })), renamed: [] },
+  };
+}
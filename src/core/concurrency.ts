@@ -0,0 +1,43 @@
+/**
+ * 同時実行数を制限した非同期処理
+ */
+
+export interface ConcurrencyOptions {
+  // 新しい要素の処理を開始しない条件（実行中の処理は最後まで待つ）
+  shouldStop?: () => boolean;
+}
+
+/**
+ * 最大 limit 件を並行して処理し、結果を入力と同じ順序で返す
+ * shouldStop により開始されなかった要素の結果は undefined になる
+ * いずれかの処理が失敗すると新しい要素を開始せず、実行中の処理を待ってから最初のエラーを投げる
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+  options: ConcurrencyOptions = {},
+): Promise<(R | undefined)[]> {
+  const results: (R | undefined)[] = new Array(items.length).fill(undefined);
+  let next = 0;
+  const errors: unknown[] = [];
+
+  const run = async (): Promise<void> => {
+    while (next < items.length && errors.length === 0 && !options.shouldStop?.()) {
+      const index = next++;
+      try {
+        results[index] = await worker(items[index] as T, index);
+      } catch (error) {
+        errors.push(error);
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(Math.floor(limit), items.length));
+  await Promise.all(Array.from({ length: workerCount }, run));
+
+  if (errors.length > 0) {
+    throw errors[0];
+  }
+  return results;
+}
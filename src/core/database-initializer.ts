@@ -4,17 +4,20 @@
 
 import { eq } from 'drizzle-orm';
 import { filtering_stages } from '../../drizzle/schema.js';
-import { getDatabase } from '../repository/database.js';
+import { createLogger } from '../logging/logger.js';
+import type { StellarDatabase } from '../repository/database.js';
 import type { InsertFilteringStage } from '../types/index.js';
 
+const logger = createLogger('DatabaseInitializer');
+
 export class DatabaseInitializer {
-  private db = getDatabase();
+  constructor(private db: StellarDatabase) {}
 
   /**
    * フィルタリングステージを初期化
    */
   async initializeFilteringStages(): Promise<void> {
-    console.info('[DatabaseInitializer] Initializing filtering stages...');
+    logger.info('Initializing filtering stages...');
 
     const stages: InsertFilteringStage[] = [
       {
@@ -63,7 +66,7 @@ export class DatabaseInitializer {
       try {
         // stage.idが未定義の場合はスキップ
         if (stage.id === undefined) {
-          console.warn(`[DatabaseInitializer] Skipping stage with undefined id: ${stage.name}`);
+          logger.warn(`Skipping stage with undefined id: ${stage.name}`);
           continue;
         }
 
@@ -77,32 +80,32 @@ export class DatabaseInitializer {
         if (existing.length === 0) {
           // 新規作成
           await this.db.insert(filtering_stages).values(stage);
-          console.info(`[DatabaseInitializer] Created filtering stage: ${stage.name} (ID: ${stage.id})`);
+          logger.info(`Created filtering stage: ${stage.name} (ID: ${stage.id})`);
         } else {
-          console.debug(`[DatabaseInitializer] Filtering stage already exists: ${stage.name} (ID: ${stage.id})`);
+          logger.debug(`Filtering stage already exists: ${stage.name} (ID: ${stage.id})`);
         }
       } catch (error) {
-        console.error(`[DatabaseInitializer] Failed to initialize stage ${stage.name}:`, error);
+        logger.error(`Failed to initialize stage ${stage.name}`, { error });
         throw error;
       }
     }
 
-    console.info('[DatabaseInitializer] Filtering stages initialization completed');
+    logger.info('Filtering stages initialization completed');
   }
 
   /**
    * データベース全体の初期化
    */
   async initialize(): Promise<void> {
-    console.info('[DatabaseInitializer] Starting database initialization...');
+    logger.info('Starting database initialization...');
 
     try {
       // フィルタリングステージの初期化
       await this.initializeFilteringStages();
 
-      console.info('[DatabaseInitializer] Database initialization completed successfully');
+      logger.info('Database initialization completed successfully');
     } catch (error) {
-      console.error('[DatabaseInitializer] Database initialization failed:', error);
+      logger.error('Database initialization failed', { error });
       throw error;
     }
   }
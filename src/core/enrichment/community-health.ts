@@ -0,0 +1,94 @@
+/**
+ * コミュニティ健全性の判定
+ * コミュニティプロファイルとデフォルトブランチのファイルツリーから、ガイドライン・テンプレート・CI・テストの有無を判定する
+ */
+
+import type {
+  CommunityHealthFlags,
+  GitHubCommunityProfile,
+  GitHubRepositoryTree,
+  RepositoryMetrics,
+} from '../../types/index.js';
+
+// GitHub がコミュニティファイルとして認識する配置場所（ルート・.github・docs）
+const communityFile = (name: string) => new RegExp(`^(\\.github/|docs/)?${name}(\\.[\\w.]+)?$`, 'i');
+const templateDirectory = (name: string) => new RegExp(`^\\.github/${name}/`, 'i');
+
+const CONTRIBUTING = [communityFile('contributing')];
+const CODE_OF_CONDUCT = [communityFile('code_of_conduct')];
+const SECURITY_POLICY = [communityFile('security')];
+const ISSUE_TEMPLATE = [communityFile('issue_template'), templateDirectory('issue_template')];
+const PULL_REQUEST_TEMPLATE = [communityFile('pull_request_template'), templateDirectory('pull_request_template')];
+
+const CI = [
+  /^\.github\/workflows\/[^/]+\.ya?ml$/i,
+  /^\.travis\.ya?ml$/i,
+  /^\.circleci\/config\.ya?ml$/i,
+  /^\.gitlab-ci\.ya?ml$/i,
+  /^azure-pipelines\.ya?ml$/i,
+  /^appveyor\.ya?ml$/i,
+  /^jenkinsfile$/i,
+];
+
+const TESTS = [
+  // テストディレクトリ（モノレポのパッケージ配下も含む）
+  /(^|\/)(tests?|__tests__|specs?)(\/|$)/i,
+  // テストランナーの設定ファイル
+  /(^|\/)(jest|vitest|karma|playwright|cypress)\.config\.[cm]?[jt]s$/i,
+  /(^|\/)(\.mocharc\.[\w]+|pytest\.ini|tox\.ini|conftest\.py|phpunit\.xml(\.dist)?)$/i,
+  // 命名規則によるテストファイル
+  /\.(test|spec)\.[cm]?[jt]sx?$/i,
+  /_test\.(go|py)$/i,
+];
+
+export function detectCommunityHealth(
+  profile: GitHubCommunityProfile | null,
+  tree: GitHubRepositoryTree | null,
+): CommunityHealthFlags {
+  // ツリーに見つからなくても、切り詰められている場合は「なし」とは断定しない
+  const inTree = (patterns: RegExp[]): boolean | null => {
+    if (!tree) return null;
+    if (tree.paths.some((path) => patterns.some((pattern) => pattern.test(path)))) return true;
+    return tree.truncated ? null : false;
+  };
+
+  const combine = (fromProfile: boolean | undefined, fromTree: boolean | null): boolean | null => {
+    if (fromProfile || fromTree) return true;
+    if (fromProfile === undefined && fromTree === null) return null;
+    return false;
+  };
+
+  return {
+    has_contributing_guide: combine(profile?.files.contributing, inTree(CONTRIBUTING)),
+    has_code_of_conduct: combine(profile?.files.code_of_conduct, inTree(CODE_OF_CONDUCT)),
+    has_security_policy: inTree(SECURITY_POLICY),
+    has_issue_template: combine(profile?.files.issue_template, inTree(ISSUE_TEMPLATE)),
+    has_pull_request_template: combine(profile?.files.pull_request_template, inTree(PULL_REQUEST_TEMPLATE)),
+    has_ci: inTree(CI),
+    has_tests: inTree(TESTS),
+  };
+}
+
+/**
+ * 判定済みのフラグの充足率（0-1）。すべて未判定の場合は null
+ */
+export function communityHealthScore(flags: Partial<CommunityHealthFlags>): number | null {
+  const known = Object.values(flags).filter((flag): flag is boolean => typeof flag === 'boolean');
+  if (known.length === 0) return null;
+  return known.filter((flag) => flag).length / known.length;
+}
+
+/**
+ * 保存済みメトリクスからコミュニティ健全性のフラグを取り出す
+ */
+export function pickCommunityHealth(metrics: RepositoryMetrics | null | undefined): CommunityHealthFlags {
+  return {
+    has_contributing_guide: metrics?.has_contributing_guide ?? null,
+    has_code_of_conduct: metrics?.has_code_of_conduct ?? null,
+    has_security_policy: metrics?.has_security_policy ?? null,
+    has_issue_template: metrics?.has_issue_template ?? null,
+    has_pull_request_template: metrics?.has_pull_request_template ?? null,
+    has_ci: metrics?.has_ci ?? null,
+    has_tests: metrics?.has_tests ?? null,
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * README品質分析
+ * 長さ・見出し構成・インストール/使い方セクション・コードブロック・バッジ・リンクから0-1のスコアを算出する
+ */
+
+export interface ReadmeAnalysis {
+  score: number;
+  length: number;
+  heading_count: number;
+  has_install_section: boolean;
+  has_usage_section: boolean;
+  code_block_count: number;
+  badge_count: number;
+  link_count: number;
+}
+
+// 各要素の重み（合計1.0）と満点とみなす目安
+const WEIGHTS = {
+  length: 0.2,
+  headings: 0.2,
+  install: 0.15,
+  usage: 0.15,
+  code_blocks: 0.15,
+  badges: 0.05,
+  links: 0.1,
+};
+
+const TARGETS = {
+  length: 3000,
+  headings: 5,
+  code_blocks: 3,
+  badges: 3,
+  links: 5,
+};
+
+const INSTALL_HEADING = /install|setup|getting started|quick ?start|インストール|導入|セットアップ/i;
+const USAGE_HEADING = /usage|examples?|how to use|tutorial|使い方|使用方法|使用例/i;
+const BADGE_URL = /shields\.io|badge|travis-ci|circleci|codecov|coveralls|\.svg(\?|$)/i;
+
+export function analyzeReadme(content: string): ReadmeAnalysis {
+  const fenceCount = (content.match(/^\s*(```|~~~)/gm) ?? []).length;
+  const prose = stripCodeBlocks(content);
+  const headings = extractHeadings(prose);
+
+  const imageUrls = [
+    ...Array.from(prose.matchAll(/!\[[^\]]*\]\(([^)\s]+)[^)]*\)/g), (match) => match[1] ?? ''),
+    ...Array.from(prose.matchAll(/<img[^>]+src=["']([^"']+)["']/gi), (match) => match[1] ?? ''),
+  ];
+  const badgeCount = imageUrls.filter((url) => BADGE_URL.test(url)).length;
+
+  // 画像を除いたリンク（Markdown形式とHTMLのアンカー）
+  const linkCount =
+    (prose.match(/(?<!!)\[[^\]]+\]\([^)]+\)/g) ?? []).length + (prose.match(/<a\s[^>]*href=/gi) ?? []).length;
+
+  const analysis: Omit<ReadmeAnalysis, 'score'> = {
+    length: prose.replace(/\s+/g, ' ').trim().length,
+    heading_count: headings.length,
+    has_install_section: headings.some((heading) => INSTALL_HEADING.test(heading)),
+    has_usage_section: headings.some((heading) => USAGE_HEADING.test(heading)),
+    code_block_count: Math.floor(fenceCount / 2),
+    badge_count: badgeCount,
+    link_count: linkCount,
+  };
+
+  const score =
+    WEIGHTS.length * ratio(analysis.length, TARGETS.length) +
+    WEIGHTS.headings * ratio(analysis.heading_count, TARGETS.headings) +
+    WEIGHTS.install * (analysis.has_install_section ? 1 : 0) +
+    WEIGHTS.usage * (analysis.has_usage_section ? 1 : 0) +
+    WEIGHTS.code_blocks * ratio(analysis.code_block_count, TARGETS.code_blocks) +
+    WEIGHTS.badges * ratio(analysis.badge_count, TARGETS.badges) +
+    WEIGHTS.links * ratio(analysis.link_count, TARGETS.links);
+
+  return { ...analysis, score: Math.round(score * 1000) / 1000 };
+}
+
+function stripCodeBlocks(content: string): string {
+  return content.replace(/^\s*(```|~~~)[\s\S]*?^\s*\1.*$/gm, '');
+}
+
+function extractHeadings(content: string): string[] {
+  const markdown = Array.from(content.matchAll(/^#{1,6}\s+(.+)$/gm), (match) => match[1] ?? '');
+  const setext = Array.from(content.matchAll(/^([^\n#>-].*)\n(?:=+|-+)\s*$/gm), (match) => match[1] ?? '');
+  const html = Array.from(content.matchAll(/<h[1-6][^>]*>([\s\S]*?)<\/h[1-6]>/gi), (match) => match[1] ?? '');
+  return [...markdown, ...setext, ...html].map((heading) => heading.trim()).filter((heading) => heading.length > 0);
+}
+
+function ratio(value: number, target: number): number {
+  return Math.min(value / target, 1);
+}
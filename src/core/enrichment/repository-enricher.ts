@@ -0,0 +1,84 @@
+/**
+ * リポジトリ詳細メトリクスの収集（エンリッチメント）
+ * 検索結果だけでは得られない指標を追加のAPI呼び出しで取得し、repository_metrics 用の値を組み立てる
+ */
+
+import type { GitHubClient } from '../../api/github-client.js';
+import { createLogger } from '../../logging/logger.js';
+import type { InsertRepositoryMetrics, Repository } from '../../types/index.js';
+import { detectCommunityHealth } from './community-health.js';
+import { analyzeReadme } from './readme-analyzer.js';
+import { analyzeResponsiveness } from './responsiveness.js';
+
+const logger = createLogger('RepositoryEnricher');
+
+export interface EnrichmentOptions {
+  // コントリビューター・コミット・ブランチ・タグの正確な件数
+  counts?: boolean;
+  // README の取得と品質スコアリング
+  readme?: boolean;
+  // コミュニティプロファイルとファイルツリーによるガイドライン・CI・テストの検出
+  community?: boolean;
+  // 直近のイシュー・プルリクエストによる応答性指標
+  responsiveness?: boolean;
+}
+
+export type EnrichedMetrics = Omit<InsertRepositoryMetrics, 'id' | 'repository_id' | 'collected_at'>;
+
+export const DEFAULT_ENRICHMENT_OPTIONS: Required<EnrichmentOptions> = {
+  counts: true,
+  readme: true,
+  community: true,
+  responsiveness: true,
+};
+
+export class RepositoryEnricher {
+  private options: Required<EnrichmentOptions>;
+
+  constructor(
+    private githubClient: GitHubClient,
+    options: EnrichmentOptions = {},
+  ) {
+    this.options = { ...DEFAULT_ENRICHMENT_OPTIONS, ...options };
+  }
+
+  isEnabled(): boolean {
+    return Object.values(this.options).some((enabled) => enabled);
+  }
+
+  /**
+   * 有効なエンリッチメントを実行する。個別の失敗はログに残して null のまま継続する
+   */
+  async enrich(repository: Repository): Promise<EnrichedMetrics> {
+    const metrics: EnrichedMetrics = {};
+
+    if (this.options.counts) {
+      const counts = await this.githubClient.getRepositoryActivityCounts(repository.owner, repository.name);
+      Object.assign(metrics, counts);
+    }
+
+    if (this.options.readme) {
+      const readme = await this.githubClient.getRepositoryReadme(repository.owner, repository.name);
+      metrics.has_readme = readme !== null;
+      metrics.readme_quality_score = readme !== null ? analyzeReadme(readme).score : 0;
+    }
+
+    if (this.options.community) {
+      const [profile, tree] = await Promise.all([
+        this.githubClient.getCommunityProfile(repository.owner, repository.name),
+        this.githubClient.getRepositoryTree(repository.owner, repository.name),
+      ]);
+      Object.assign(metrics, detectCommunityHealth(profile, tree));
+    }
+
+    if (this.options.responsiveness) {
+      const sample = await this.githubClient.getIssueActivitySample(repository.owner, repository.name);
+      if (sample) {
+        Object.assign(metrics, analyzeResponsiveness(sample));
+      }
+    }
+
+    logger.debug(`Enriched ${repository.full_name}`);
+    return metrics;
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * イシュー・プルリクエストの応答性分析
+ * 直近のイシューとプルリクエストのサンプルから、クローズ・マージ・初回応答までの日数と採用率を算出する
+ * ボットが作成したイシュー・プルリクエストと、ボットによる応答は集計から除外する
+ */
+
+import type { IssueActivityItem } from '../../types/index.js';
+
+export interface ResponsivenessMetrics {
+  avg_issue_close_time_days: number | null;
+  median_issue_close_time_days: number | null;
+  avg_pr_merge_time_days: number | null;
+  median_pr_merge_time_days: number | null;
+  avg_first_response_time_days: number | null;
+  median_first_response_time_days: number | null;
+  issue_response_rate: number | null;
+  pr_acceptance_rate: number | null;
+  responsiveness_sample_size: number;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export function analyzeResponsiveness(items: IssueActivityItem[]): ResponsivenessMetrics {
+  const humanItems = items.filter((item) => !item.author_is_bot);
+  const issues = humanItems.filter((item) => item.kind === 'issue');
+  const pullRequests = humanItems.filter((item) => item.kind === 'pull_request');
+
+  const closeTimes = issues
+    .filter((issue) => issue.closed_at !== null)
+    .map((issue) => daysBetween(issue.created_at, issue.closed_at as string));
+
+  const mergeTimes = pullRequests
+    .filter((pr) => pr.merged_at !== null)
+    .map((pr) => daysBetween(pr.created_at, pr.merged_at as string));
+
+  const firstResponseTimes = humanItems
+    .map((item) => {
+      const firstResponse = findFirstResponse(item);
+      return firstResponse ? daysBetween(item.created_at, firstResponse) : null;
+    })
+    .filter((days): days is number => days !== null);
+
+  const respondedIssues = issues.filter((issue) => findFirstResponse(issue) !== null).length;
+
+  // 採用率はマージ済みまたはクローズ済みのプルリクエストのみを母数にする
+  const decidedPullRequests = pullRequests.filter((pr) => pr.merged_at !== null || pr.closed_at !== null);
+  const mergedPullRequests = decidedPullRequests.filter((pr) => pr.merged_at !== null).length;
+
+  return {
+    avg_issue_close_time_days: mean(closeTimes),
+    median_issue_close_time_days: median(closeTimes),
+    avg_pr_merge_time_days: mean(mergeTimes),
+    median_pr_merge_time_days: median(mergeTimes),
+    avg_first_response_time_days: mean(firstResponseTimes),
+    median_first_response_time_days: median(firstResponseTimes),
+    issue_response_rate: issues.length > 0 ? round(respondedIssues / issues.length) : null,
+    pr_acceptance_rate: decidedPullRequests.length > 0 ? round(mergedPullRequests / decidedPullRequests.length) : null,
+    responsiveness_sample_size: humanItems.length,
+  };
+}
+
+// 作成者本人とボット以外による最初のコメントまたはレビュー
+function findFirstResponse(item: IssueActivityItem): string | null {
+  const response = item.responses.find(
+    (candidate) => !candidate.author_is_bot && (candidate.author === null || candidate.author !== item.author),
+  );
+  return response?.created_at ?? null;
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.max(0, (Date.parse(to) - Date.parse(from)) / MS_PER_DAY);
+}
+
+function mean(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return round(values.reduce((sum, value) => sum + value, 0) / values.length);
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const value =
+    sorted.length % 2 === 0 ? ((sorted[middle - 1] ?? 0) + (sorted[middle] ?? 0)) / 2 : (sorted[middle] ?? 0);
+  return round(value);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,188 @@
+/**
+ * 保存済みリポジトリの再評価
+ * GitHub API を呼ばずに、保存済みのリポジトリ情報と最新の詳細メトリクスでフィルタリングパイプラインを再実行する
+ * 結果は評価の実行（evaluation_runs）ごとに記録し、基準を変えた複数の実行を並べて比較できるようにする
+ */
+
+import { asc } from 'drizzle-orm';
+import { repositories } from '../../drizzle/schema.js';
+import { createLogger } from '../logging/logger.js';
+import type { StellarDatabase } from '../repository/database.js';
+import { type EvaluationResultRow, EvaluationRunRepository } from '../repository/evaluation-run-repository.js';
+import { MetricsRepository } from '../repository/metrics-repository.js';
+import type { EvaluationRun } from '../types/index.js';
+import type { CollectionConfig } from './collector.js';
+import { DatabaseInitializer } from './database-initializer.js';
+import { FilteringPipeline, type PipelineMode } from './filtering/pipeline.js';
+import { createScoredStages } from './filtering/scored-stages.js';
+
+const logger = createLogger('RepositoryEvaluator');
+
+export interface EvaluationSetup {
+  mode?: PipelineMode;
+  // 基準を読み込んだファイル（実行に記録する）
+  criteriaSource?: string;
+}
+
+export interface EvaluationOptions {
+  limit?: number;
+  // 実行の名前（省略すると Evaluation-<日時>）
+  name?: string;
+}
+
+export interface EvaluationSummary {
+  runId: number;
+  evaluated: number;
+  // 全ステージを通過したリポジトリ数
+  passed: number;
+}
+
+export interface StageComparison {
+  stage: string;
+  base: { evaluated: number; passed: number };
+  target: { evaluated: number; passed: number };
+}
+
+// 2 つの実行で全体の合否が変わったリポジトリ（片方の実行で評価されていなければ null）
+export interface ChangedRepository {
+  repository_id: number;
+  full_name: string;
+  base: boolean | null;
+  target: boolean | null;
+}
+
+export interface RunComparison {
+  base: EvaluationRun;
+  target: EvaluationRun;
+  stages: StageComparison[];
+  changed: ChangedRepository[];
+}
+
+export class RepositoryEvaluator {
+  private criteria: CollectionConfig['criteria'] | null = null;
+  private setup: EvaluationSetup = {};
+  private metricsRepository: MetricsRepository;
+  private runs: EvaluationRunRepository;
+
+  constructor(private db: StellarDatabase) {
+    this.metricsRepository = new MetricsRepository(db);
+    this.runs = new EvaluationRunRepository(db);
+  }
+
+  async setupPipeline(criteria: CollectionConfig['criteria'], setup: EvaluationSetup = {}): Promise<void> {
+    await new DatabaseInitializer(this.db).initialize();
+
+    this.criteria = criteria;
+    this.setup = setup;
+  }
+
+  /**
+   * 新しい評価の実行を作成し、保存済みのリポジトリをその実行の結果として評価する
+   * repository_filter_status（収集時の評価）には書き込まない
+   */
+  async evaluateStored(options: EvaluationOptions = {}): Promise<EvaluationSummary> {
+    if (!this.criteria) {
+      throw new Error('setupPipeline must be called before evaluateStored');
+    }
+
+    const mode = this.setup.mode ?? 'short-circuit';
+    const run = await this.runs.create({
+      name: options.name ?? `Evaluation-${new Date().toISOString()}`,
+      criteria: this.criteria,
+      pipeline_mode: mode,
+      criteria_source: this.setup.criteriaSource ?? null,
+    });
+    const pipeline = await this.createPipeline(this.criteria, mode, run.id);
+
+    try {
+      const query = this.db.select().from(repositories).orderBy(asc(repositories.id)).$dynamic();
+      const targets = options.limit !== undefined ? await query.limit(options.limit) : await query;
+
+      logger.info(`Evaluating ${targets.length} stored repositories (run ${run.id})`);
+
+      let passed = 0;
+      for (const repository of targets) {
+        const metrics = await this.metricsRepository.getLatest(repository.id);
+        const summary = await pipeline.execute(repository, metrics);
+
+        if (summary.passed) {
+          passed++;
+        }
+      }
+
+      await this.runs.complete(run.id, { evaluated: targets.length, passed });
+      logger.info(`Evaluated ${targets.length} repositories, ${passed} passed all stages`);
+      return { runId: run.id, evaluated: targets.length, passed };
+    } catch (error) {
+      await this.runs.fail(run.id, error instanceof Error ? error.message : 'Unknown error');
+      throw error;
+    }
+  }
+
+  async listRuns(limit?: number): Promise<EvaluationRun[]> {
+    return this.runs.list(limit);
+  }
+
+  /**
+   * 2 つの実行のステージごとの通過数と、全体の合否が変わったリポジトリを返す
+   */
+  async compareRuns(baseRunId: number, targetRunId: number): Promise<RunComparison> {
+    const [base, target] = await Promise.all([this.runs.get(baseRunId), this.runs.get(targetRunId)]);
+    if (!base) throw new Error(`Evaluation run ${baseRunId} not found`);
+    if (!target) throw new Error(`Evaluation run ${targetRunId} not found`);
+
+    const baseResults = await this.runs.getResults(baseRunId);
+    const targetResults = await this.runs.getResults(targetRunId);
+
+    const stageNames = [...new Map([...baseResults, ...targetResults].map((row) => [row.stage, row.order_index]))]
+      .sort(([, a], [, b]) => a - b)
+      .map(([stage]) => stage);
+
+    const stages = stageNames.map((stage) => ({
+      stage,
+      base: countStage(baseResults, stage),
+      target: countStage(targetResults, stage),
+    }));
+
+    const baseOutcomes = overallOutcomes(baseResults);
+    const targetOutcomes = overallOutcomes(targetResults);
+    const changed: ChangedRepository[] = [];
+    for (const [repositoryId, { full_name }] of new Map([...baseOutcomes, ...targetOutcomes])) {
+      const before = baseOutcomes.get(repositoryId)?.passed ?? null;
+      const after = targetOutcomes.get(repositoryId)?.passed ?? null;
+      if (before !== after) {
+        changed.push({ repository_id: repositoryId, full_name, base: before, target: after });
+      }
+    }
+
+    return { base, target, stages, changed: changed.sort((a, b) => a.repository_id - b.repository_id) };
+  }
+
+  private async createPipeline(criteria: CollectionConfig['criteria'], mode: PipelineMode, runId: number) {
+    const pipeline = new FilteringPipeline(this.db, { mode, recorder: this.runs.recorder(runId) });
+    for (const stage of await createScoredStages(this.db, criteria)) {
+      pipeline.addStage(stage);
+    }
+
+    logger.info(`Pipeline configured with ${pipeline.getStageCount()} stages (${mode})`);
+    return pipeline;
+  }
+}
+
+function countStage(results: EvaluationResultRow[], stage: string): { evaluated: number; passed: number } {
+  const rows = results.filter((row) => row.stage === stage && (row.status === 'passed' || row.status === 'failed'));
+  return { evaluated: rows.length, passed: rows.filter((row) => row.status === 'passed').length };
+}
+
+/**
+ * リポジトリごとに、実行内のすべてのステージを通過したかを求める
+ */
+function overallOutcomes(results: EvaluationResultRow[]): Map<number, { full_name: string; passed: boolean }> {
+  const outcomes = new Map<number, { full_name: string; passed: boolean }>();
+  for (const row of results) {
+    const outcome = outcomes.get(row.repository_id) ?? { full_name: row.full_name, passed: true };
+    outcome.passed &&= row.status === 'passed';
+    outcomes.set(row.repository_id, outcome);
+  }
+  return outcomes;
+}
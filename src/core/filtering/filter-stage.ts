@@ -1,10 +1,19 @@
-import type { FilterDetails, FilterResult, Repository } from '../../types/index.js';
+import type {
+  FilterDetails,
+  FilterResult,
+  Repository,
+  RepositoryMetrics,
+  ScoringModel,
+  ScoringStage,
+} from '../../types/index.js';
+import { type ComponentInput, type ScoreResult, type ScoringCohort, scoreComponents } from './scoring.js';
 
 export interface FilterStage {
   id: number;
   name: string;
   description: string;
-  evaluate(repository: Repository): Promise<FilterResult>;
+  // metrics はエンリッチメントで収集された最新の詳細メトリクス（未収集の場合は null）
+  evaluate(repository: Repository, metrics?: RepositoryMetrics | null): Promise<FilterResult>;
 }
 
 export abstract class BaseFilterStage implements FilterStage {
@@ -12,7 +21,7 @@ export abstract class BaseFilterStage implements FilterStage {
   abstract name: string;
   abstract description: string;
 
-  abstract evaluate(repository: Repository): Promise<FilterResult>;
+  abstract evaluate(repository: Repository, metrics?: RepositoryMetrics | null): Promise<FilterResult>;
 
   protected createResult(passed: boolean, score: number, details: FilterDetails): FilterResult {
     return {
@@ -30,9 +39,28 @@ export abstract class BaseFilterStage implements FilterStage {
     const diffTime = Math.abs(now.getTime() - date.getTime());
     return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
   }
+}
+
+/**
+ * 指標の重み付き平均をスコアとするステージ（人気度・活動度・品質）
+ * 重みと正規化はスコアリングモデルで上書きでき、percentile 正規化には useCohort でコホートを渡す
+ */
+export abstract class ScoredFilterStage extends BaseFilterStage {
+  abstract scoringStage: ScoringStage;
+  private cohort: ScoringCohort | null = null;
+
+  constructor(protected scoringModel?: ScoringModel) {
+    super();
+  }
+
+  // スコアの元になる指標の値と既定の正規化の範囲
+  abstract scoringInputs(repository: Repository, metrics?: RepositoryMetrics | null): ComponentInput[];
+
+  useCohort(cohort: ScoringCohort): void {
+    this.cohort = cohort;
+  }
 
-  protected normalizeScore(value: number, min: number, max: number): number {
-    if (max === min) return value >= min ? 1 : 0;
-    return Math.min(Math.max((value - min) / (max - min), 0), 1);
+  protected score(repository: Repository, metrics?: RepositoryMetrics | null): ScoreResult {
+    return scoreComponents(this.scoringStage, this.scoringInputs(repository, metrics), this.scoringModel, this.cohort);
   }
 }
@@ -1,35 +1,89 @@
-import { eq } from 'drizzle-orm';
+import { asc, eq } from 'drizzle-orm';
 import { repository_filter_status } from '../../../drizzle/schema.js';
-import { getDatabase } from '../../repository/database.js';
+import { createLogger, withLogContext } from '../../logging/logger.js';
+import type { StellarDatabase } from '../../repository/database.js';
 import type {
   FilterDetails,
   FilterStageResult,
   FilteringSummary,
-  InsertRepositoryFilterStatus,
   Repository,
   RepositoryFilterStatus,
+  RepositoryMetrics,
+  StageResultRecorder,
+  StageStatus,
 } from '../../types/index.js';
 import type { FilterStage } from './filter-stage.js';
 
+const logger = createLogger('FilteringPipeline');
+
+/**
+ * short-circuit: 不合格になったステージ以降を skipped として記録する（既定）
+ * evaluate-all: 前のステージの結果に関係なくすべてのステージを評価し、ステージごとの独立した通過率を得る
+ * どちらのモードでも、全体の合否（FilteringSummary.passed）は全ステージを通過したかどうかで決まる
+ */
+export type PipelineMode = 'short-circuit' | 'evaluate-all';
+
+export const PIPELINE_MODES: PipelineMode[] = ['short-circuit', 'evaluate-all'];
+
+/**
+ * フィルター実行（filter_runs）に記録するパイプラインのバージョン
+ * ステージの構成や評価ロジックを変えて、以前の実行と結果を比べられなくなったときに上げる
+ */
+export const PIPELINE_VERSION = 1;
+
+export interface FilteringPipelineOptions {
+  mode?: PipelineMode;
+  // ステージの結果の書き込み先（フィルター実行または評価の実行）。execute の前に useRecorder で設定してもよい
+  recorder?: StageResultRecorder;
+}
+
 export class FilteringPipeline {
   private stages: FilterStage[] = [];
+  private readonly mode: PipelineMode;
+  private recorder: StageResultRecorder | null;
+
+  constructor(
+    private db: StellarDatabase,
+    options: FilteringPipelineOptions = {},
+  ) {
+    this.mode = options.mode ?? 'short-circuit';
+    this.recorder = options.recorder ?? null;
+  }
+
+  /**
+   * 以降の結果の書き込み先を切り替える（収集ではバッチごとのフィルター実行に記録する）
+   */
+  useRecorder(recorder: StageResultRecorder): void {
+    this.recorder = recorder;
+  }
 
   addStage(stage: FilterStage): void {
     this.stages.push(stage);
     this.stages.sort((a, b) => a.id - b.id);
-    console.info(`[FilteringPipeline] Added stage: ${stage.name} (ID: ${stage.id})`);
+    logger.info(`Added stage: ${stage.name} (ID: ${stage.id})`);
   }
 
-  async execute(repository: Repository): Promise<FilteringSummary> {
-    console.info(`[FilteringPipeline] Starting pipeline for ${repository.full_name}`);
+  async execute(repository: Repository, metrics: RepositoryMetrics | null = null): Promise<FilteringSummary> {
+    if (!this.recorder) {
+      throw new Error('FilteringPipeline has no result recorder: pass one in the options or call useRecorder()');
+    }
+
+    // ステージ内のログにもリポジトリ名を付与する
+    return withLogContext({ repo: repository.full_name }, () => this.runStages(repository, metrics));
+  }
+
+  private async runStages(repository: Repository, metrics: RepositoryMetrics | null): Promise<FilteringSummary> {
+    logger.info('Starting pipeline', { mode: this.mode });
 
     const results: FilterStageResult[] = [];
+    const evaluateAll = this.mode === 'evaluate-all';
 
     for (const stage of this.stages) {
-      console.debug(`[FilteringPipeline] Executing stage: ${stage.name}`);
+      const stageLogger = logger.child({ stage: stage.name });
+      stageLogger.debug('Executing stage');
 
       try {
-        const result = await stage.evaluate(repository);
+        const result = await withLogContext({ stage: stage.name }, () => stage.evaluate(repository, metrics));
 
         const stageResult: FilterStageResult = {
           stage: stage.name,
@@ -43,13 +97,11 @@ export class FilteringPipeline {
         // データベースに結果を記録
         await this.recordStageResult(repository.id, stage.id, result);
 
-        console.info(
-          `[FilteringPipeline] Stage ${stage.name}: ${result.passed ? 'PASSED' : 'FAILED'} (score: ${result.score.toFixed(3)})`,
-        );
+        stageLogger.info(`Stage ${result.passed ? 'PASSED' : 'FAILED'}`, { score: Number(result.score.toFixed(3)) });
 
-        // 段階で失敗したら後続をスキップ（最終選定は除く）
-        if (!result.passed && stage.name !== 'final_selection') {
-          console.info(`[FilteringPipeline] Pipeline stopped at stage: ${stage.name}`);
+        // 段階で失敗したら後続をスキップ（最終選定と evaluate-all モードは除く）
+        if (!result.passed && stage.name !== 'final_selection' && !evaluateAll) {
+          stageLogger.info('Pipeline stopped');
 
           // 残りのステージをスキップとして記録
           for (const remainingStage of this.stages.slice(this.stages.indexOf(stage) + 1)) {
@@ -74,7 +126,7 @@ export class FilteringPipeline {
           break;
         }
       } catch (error) {
-        console.error(`[FilteringPipeline] Error in stage ${stage.name}:`, error);
+        stageLogger.error('Stage threw an error', { error });
 
         const errorResult: FilterStageResult = {
           stage: stage.name,
@@ -97,21 +149,22 @@ export class FilteringPipeline {
           'failed',
         );
 
-        break;
+        if (!evaluateAll) {
+          break;
+        }
       }
     }
 
+    const passedStages = results.filter((r) => r.passed).length;
+    const totalStages = this.stages.length;
+
     const summary: FilteringSummary = {
       repository: repository.id,
       stages: results,
+      passed: passedStages === totalStages,
     };
 
-    const passedStages = results.filter((r) => r.passed).length;
-    const totalStages = this.stages.length;
-
-    console.info(
-      `[FilteringPipeline] Pipeline completed for ${repository.full_name}: ${passedStages}/${totalStages} stages passed`,
-    );
+    logger.info(`Pipeline completed: ${passedStages}/${totalStages} stages passed`);
 
     return summary;
   }
@@ -120,27 +173,15 @@ export class FilteringPipeline {
     repositoryId: number,
     stageId: number,
     result: { passed: boolean; score: number; details: FilterDetails },
-    status?: 'pending' | 'passed' | 'failed' | 'skipped',
+    status?: StageStatus,
   ): Promise<void> {
-    const db = getDatabase();
-
     const statusValue = status || (result.passed ? 'passed' : 'failed');
 
-    const filterStatus: InsertRepositoryFilterStatus = {
-      repository_id: repositoryId,
-      stage_id: stageId,
-      status: statusValue,
-      score: result.score,
-      details: JSON.stringify(result.details),
-    };
-
     try {
-      await db.insert(repository_filter_status).values(filterStatus);
-      console.debug(
-        `[FilteringPipeline] Recorded stage result: repo=${repositoryId}, stage=${stageId}, status=${statusValue}`,
-      );
+      await this.recorder?.record(repositoryId, stageId, statusValue, result);
+      logger.debug('Recorded stage result', { repositoryId, stageId, status: statusValue });
     } catch (error) {
-      console.error('[FilteringPipeline] Failed to record stage result:', error);
+      logger.error('Failed to record stage result', { error });
     }
   }
 
@@ -152,18 +193,25 @@ export class FilteringPipeline {
     return this.stages.length;
   }
 
-  async getRepositoryFilterHistory(repositoryId: number): Promise<RepositoryFilterStatus[]> {
-    const db = getDatabase();
+  getStageIds(): number[] {
+    return this.stages.map((stage) => stage.id);
+  }
 
+  getMode(): PipelineMode {
+    return this.mode;
+  }
+
+  async getRepositoryFilterHistory(repositoryId: number): Promise<RepositoryFilterStatus[]> {
     try {
-      const history = await db
+      const history = await this.db
         .select()
         .from(repository_filter_status)
-        .where(eq(repository_filter_status.repository_id, repositoryId));
+        .where(eq(repository_filter_status.repository_id, repositoryId))
+        .orderBy(asc(repository_filter_status.run_id), asc(repository_filter_status.stage_id));
 
       return history;
     } catch (error) {
-      console.error(`[FilteringPipeline] Failed to get filter history for repository ${repositoryId}:`, error);
+      logger.error(`Failed to get filter history for repository ${repositoryId}`, { error });
       return [];
     }
   }
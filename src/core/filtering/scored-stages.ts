@@ -0,0 +1,64 @@
+import { repositories } from '../../../drizzle/schema.js';
+import { createLogger } from '../../logging/logger.js';
+import type { StellarDatabase } from '../../repository/database.js';
+import { MetricsRepository } from '../../repository/metrics-repository.js';
+import type { ActivityCriteria, PopularityCriteria, QualityCriteria, ScoringModel } from '../../types/index.js';
+import type { ScoredFilterStage } from './filter-stage.js';
+import { ScoringCohort, usesPercentile } from './scoring.js';
+import { ActivityFilter } from './stages/activity-filter.js';
+import { PopularityFilter } from './stages/popularity-filter.js';
+import { QualityFilter } from './stages/quality-filter.js';
+
+const logger = createLogger('ScoredStages');
+
+export interface ScoredStageCriteria {
+  popularity: PopularityCriteria;
+  activity: ActivityCriteria;
+  quality: QualityCriteria;
+  scoring?: ScoringModel;
+}
+
+/**
+ * 人気度・活動度・品質ステージを基準とスコアリングモデルから作る
+ * モデルが percentile 正規化を使う場合は、作成時点で保存済みのリポジトリをコホートとして読み込む
+ */
+export async function createScoredStages(
+  db: StellarDatabase,
+  criteria: ScoredStageCriteria,
+): Promise<ScoredFilterStage[]> {
+  const stages = [
+    new PopularityFilter(criteria.popularity, criteria.scoring),
+    new ActivityFilter(criteria.activity, criteria.scoring),
+    new QualityFilter(criteria.quality, criteria.scoring),
+  ];
+
+  if (usesPercentile(criteria.scoring)) {
+    const cohort = await loadScoringCohort(db, stages);
+    for (const stage of stages) {
+      stage.useCohort(cohort);
+    }
+  }
+  return stages;
+}
+
+/**
+ * 保存済みのリポジトリと最新の詳細メトリクスから、ステージごとの指標の値を集める
+ */
+export async function loadScoringCohort(db: StellarDatabase, stages: ScoredFilterStage[]): Promise<ScoringCohort> {
+  const stored = await db.select().from(repositories);
+  const metrics = await new MetricsRepository(db).getLatestForAll();
+
+  const cohort = new ScoringCohort();
+  for (const repository of stored) {
+    for (const stage of stages) {
+      cohort.add(stage.scoringStage, stage.scoringInputs(repository, metrics.get(repository.id) ?? null));
+    }
+  }
+
+  if (stored.length === 0) {
+    logger.warn('No stored repositories to rank against, percentile components are left out of the scores');
+  } else {
+    logger.info(`Loaded scoring cohort of ${stored.length} repositories`);
+  }
+  return cohort;
+}
@@ -0,0 +1,235 @@
+/**
+ * スコアリングモデル
+ * 人気度・活動度・品質ステージのスコアは、ステージごとの指標（コンポーネント）を 0〜1 に正規化した重み付き平均
+ * criteria.scoring で指標ごとに重みと正規化方法（linear / log / percentile / sigmoid）を上書きできる
+ * 既定のモデルはすべての指標が重み 1 の線形正規化で、各ステージの既定の範囲を使う
+ * 各ステージは使ったモデルと指標ごとの値・正規化・スコアを details.scoring に記録し、スコアを再現できるようにする
+ */
+
+import type {
+  ComponentScore,
+  NormalizationSpec,
+  NormalizationType,
+  ResolvedNormalization,
+  ScoreBreakdown,
+  ScoringModel,
+  ScoringStage,
+} from '../../types/index.js';
+
+export const NORMALIZATION_TYPES: NormalizationType[] = ['linear', 'log', 'percentile', 'sigmoid'];
+
+export const DEFAULT_SCORING_MODEL_NAME = 'default';
+
+// ステージごとの指標。criteria.scoring で指定できるのはここにある名前のみ
+export const SCORING_COMPONENTS: Record<ScoringStage, string[]> = {
+  popularity: ['stars', 'forks', 'not_archived', 'not_disabled'],
+  activity: ['push_recency', 'update_recency', 'open_issues'],
+  quality: [
+    'license',
+    'description',
+    'homepage',
+    'topics',
+    'features',
+    'readme',
+    'community_health',
+    'issue_close_time',
+  ],
+};
+
+// sigmoid の傾きを省略した場合、既定の範囲の両端が 0.01 と 0.99 になるようにする
+const SIGMOID_SPAN = 2 * Math.log(99);
+
+export interface ComponentInput {
+  name: string;
+  // null は未収集（スコアの母数に含めない）
+  value: number | null;
+  // 既定の正規化の範囲。log・sigmoid で範囲を省略した場合にも使う
+  range: [number, number];
+  // true なら値が小さいほど高いスコア（経過日数など）
+  lowerIsBetter?: boolean;
+}
+
+export interface ScoreResult {
+  score: number;
+  scoring: ScoreBreakdown;
+}
+
+/**
+ * percentile 正規化で順位を求めるリポジトリの集合。指標ごとに昇順に並べた値を持つ
+ */
+export class ScoringCohort {
+  private values = new Map<string, number[]>();
+  private sorted = true;
+
+  add(stage: ScoringStage, inputs: ComponentInput[]): void {
+    for (const input of inputs) {
+      if (input.value === null) continue;
+      const key = cohortKey(stage, input.name);
+      const values = this.values.get(key) ?? [];
+      values.push(input.value);
+      this.values.set(key, values);
+    }
+    this.sorted = false;
+  }
+
+  size(stage: ScoringStage, component: string): number {
+    return this.values.get(cohortKey(stage, component))?.length ?? 0;
+  }
+
+  /**
+   * コホート内のパーセンタイル（0〜1）。同じ値は半分ずつ数える。コホートが空なら null
+   */
+  percentile(stage: ScoringStage, component: string, value: number): number | null {
+    this.sort();
+    const values = this.values.get(cohortKey(stage, component)) ?? [];
+    if (values.length === 0) return null;
+
+    const below = bound(values, (candidate) => candidate < value);
+    const notAbove = bound(values, (candidate) => candidate <= value);
+    return (below + (notAbove - below) / 2) / values.length;
+  }
+
+  private sort(): void {
+    if (this.sorted) return;
+    for (const values of this.values.values()) {
+      values.sort((a, b) => a - b);
+    }
+    this.sorted = true;
+  }
+}
+
+/**
+ * モデルが percentile 正規化を使うか（使う場合のみコホートを読み込む）
+ */
+export function usesPercentile(model: ScoringModel | undefined): boolean {
+  return (Object.keys(SCORING_COMPONENTS) as ScoringStage[]).some((stage) =>
+    Object.values(model?.[stage] ?? {}).some((spec) => spec.normalization?.type === 'percentile'),
+  );
+}
+
+/**
+ * 指標ごとにモデルの正規化を適用し、未収集の指標を除いた重み付き平均を求める
+ * percentile でコホートが空の指標も母数に含めない
+ */
+export function scoreComponents(
+  stage: ScoringStage,
+  inputs: ComponentInput[],
+  model: ScoringModel | undefined,
+  cohort: ScoringCohort | null,
+): ScoreResult {
+  const components: Record<string, ComponentScore> = {};
+  let weighted = 0;
+  let totalWeight = 0;
+
+  for (const input of inputs) {
+    const spec = model?.[stage]?.[input.name];
+    const weight = spec?.weight ?? 1;
+    const normalization = resolveNormalization(spec?.normalization, input.range);
+    if (normalization.type === 'percentile') {
+      normalization.cohort_size = cohort?.size(stage, input.name) ?? 0;
+    }
+
+    const score = scoreComponent(stage, input, normalization, cohort);
+    if (score !== null) {
+      weighted += score * weight;
+      totalWeight += weight;
+    }
+
+    components[input.name] = {
+      value: input.value,
+      weight,
+      lower_is_better: input.lowerIsBetter ?? false,
+      normalization,
+      score,
+    };
+  }
+
+  return {
+    score: totalWeight === 0 ? 0 : weighted / totalWeight,
+    scoring: { model: model?.name ?? DEFAULT_SCORING_MODEL_NAME, components },
+  };
+}
+
+function scoreComponent(
+  stage: ScoringStage,
+  input: ComponentInput,
+  normalization: ResolvedNormalization,
+  cohort: ScoringCohort | null,
+): number | null {
+  if (input.value === null) return null;
+
+  const normalized =
+    normalization.type === 'percentile'
+      ? (cohort?.percentile(stage, input.name, input.value) ?? null)
+      : normalize(input.value, normalization);
+  if (normalized === null) return null;
+  return input.lowerIsBetter ? 1 - normalized : normalized;
+}
+
+/**
+ * 省略されたパラメータを既定の範囲から補う
+ */
+export function resolveNormalization(
+  spec: NormalizationSpec | undefined,
+  range: [number, number],
+): ResolvedNormalization {
+  const [min, max] = range;
+  switch (spec?.type ?? 'linear') {
+    case 'linear':
+    case 'log':
+      return { type: spec?.type ?? 'linear', min: spec?.min ?? min, max: spec?.max ?? max };
+    case 'sigmoid':
+      return {
+        type: 'sigmoid',
+        midpoint: spec?.midpoint ?? (min + max) / 2,
+        steepness: spec?.steepness ?? (max > min ? SIGMOID_SPAN / (max - min) : 1),
+      };
+    case 'percentile':
+      return { type: 'percentile' };
+  }
+}
+
+/**
+ * 値を 0〜1 に正規化する（percentile はコホートが必要なため scoreComponents で扱う）
+ * linear / log は範囲の外を 0 と 1 に丸め、範囲の幅が 0 なら min 以上を 1 とする
+ */
+export function normalize(value: number, normalization: ResolvedNormalization): number {
+  const min = normalization.min ?? 0;
+  const max = normalization.max ?? 1;
+
+  switch (normalization.type) {
+    case 'linear':
+      return scale(value, min, max);
+    case 'log':
+      // 0 を扱えるよう log(1 + x) を使う
+      return scale(Math.log1p(Math.max(value, 0)), Math.log1p(Math.max(min, 0)), Math.log1p(Math.max(max, 0)));
+    case 'sigmoid':
+      return 1 / (1 + Math.exp(-(normalization.steepness ?? 1) * (value - (normalization.midpoint ?? 0))));
+    case 'percentile':
+      throw new Error('percentile normalization needs a cohort');
+  }
+}
+
+function scale(value: number, min: number, max: number): number {
+  if (max === min) return value >= min ? 1 : 0;
+  return Math.min(Math.max((value - min) / (max - min), 0), 1);
+}
+
+function cohortKey(stage: ScoringStage, component: string): string {
+  return `${stage}.${component}`;
+}
+
+// 昇順の配列で predicate を満たす先頭からの要素数
+function bound(values: number[], predicate: (value: number) => boolean): number {
+  let low = 0;
+  let high = values.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (predicate(values[middle] as number)) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
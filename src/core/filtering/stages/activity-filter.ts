@@ -1,60 +1,81 @@
-import type { ActivityCriteria, ActivityFilterDetails, FilterResult, Repository } from '../../../types/index.js';
-import { BaseFilterStage } from '../filter-stage.js';
+import { createLogger } from '../../../logging/logger.js';
+import type {
+  ActivityCriteria,
+  ActivityFilterDetails,
+  FilterResult,
+  Repository,
+  RepositoryMetrics,
+  ScoringModel,
+} from '../../../types/index.js';
+import { ScoredFilterStage } from '../filter-stage.js';
+import type { ComponentInput } from '../scoring.js';
 
-export class ActivityFilter extends BaseFilterStage {
+const logger = createLogger('ActivityFilter');
+
+export class ActivityFilter extends ScoredFilterStage {
   id = 2;
   name = 'activity_filter';
   description = '活動度フィルタ - 最近のプッシュ活動、イシュー・プルリクエストの状況をチェック';
+  scoringStage = 'activity' as const;
 
-  constructor(private criteria: ActivityCriteria) {
-    super();
+  constructor(
+    private criteria: ActivityCriteria,
+    scoringModel?: ScoringModel,
+  ) {
+    super(scoringModel);
   }
 
-  async evaluate(repository: Repository): Promise<FilterResult> {
-    console.debug(`[ActivityFilter] Evaluating ${repository.full_name}`);
+  async evaluate(repository: Repository, metrics?: RepositoryMetrics | null): Promise<FilterResult> {
+    logger.debug('Evaluating');
 
     const pushDaysAgo = this.calculateDaysAgo(repository.pushed_at);
     const updateDaysAgo = this.calculateDaysAgo(repository.updated_at);
 
+    // 件数が未収集の場合はチェックを適用しない
+    const contributorsCount = metrics?.contributors_count ?? null;
+    const commitsCount = metrics?.commits_count ?? null;
+
     const checks = {
-      // Note: contributors check skipped (requires additional API calls)
+      contributors: contributorsCount === null || contributorsCount >= this.criteria.min_contributors,
+      commits: commitsCount === null || commitsCount >= this.criteria.min_commits,
       recent_activity: updateDaysAgo <= this.criteria.recent_activity_days,
       push_activity: pushDaysAgo <= this.criteria.min_push_activity_days,
     };
 
     const passed = Object.values(checks).every((check) => check);
 
-    // アクティビティスコア計算
-    const pushScore = this.normalizeScore(
-      this.criteria.min_push_activity_days - pushDaysAgo,
-      0,
-      this.criteria.min_push_activity_days,
-    );
-
-    const updateScore = this.normalizeScore(
-      this.criteria.recent_activity_days - updateDaysAgo,
-      0,
-      this.criteria.recent_activity_days,
-    );
-
-    // イシューアクティビティスコア
-    const issueScore = this.normalizeScore(repository.open_issues_count ?? 0, 0, 50);
-
-    const score = (pushScore + updateScore + issueScore) / 3;
+    const { score, scoring } = this.score(repository);
 
     const details: ActivityFilterDetails = {
-      checks: {
-        contributors: true, // Skipped for now (requires additional API calls)
-        recent_activity: checks.recent_activity,
-        push_activity: checks.push_activity,
-      },
-      contributors_count: 0, // Not implemented (would require GitHub API call)
+      checks,
+      contributors_count: contributorsCount,
+      commits_count: commitsCount,
       last_push_days: pushDaysAgo,
       last_update_days: updateDaysAgo,
+      scoring,
     };
 
-    console.debug(`[ActivityFilter] ${repository.full_name}: passed=${passed}, score=${score.toFixed(3)}`);
+    logger.debug('Evaluated', { passed, score: Number(score.toFixed(3)) });
 
     return this.createResult(passed, score, details);
   }
+
+  // プッシュ・更新からの経過日数は基準の日数で 0 点、イシュー数は 50 件で満点とする
+  scoringInputs(repository: Repository): ComponentInput[] {
+    return [
+      {
+        name: 'push_recency',
+        value: this.calculateDaysAgo(repository.pushed_at),
+        range: [0, this.criteria.min_push_activity_days],
+        lowerIsBetter: true,
+      },
+      {
+        name: 'update_recency',
+        value: this.calculateDaysAgo(repository.updated_at),
+        range: [0, this.criteria.recent_activity_days],
+        lowerIsBetter: true,
+      },
+      { name: 'open_issues', value: repository.open_issues_count ?? 0, range: [0, 50] },
+    ];
+  }
 }
@@ -1,3 +1,4 @@
+import { createLogger } from '../../../logging/logger.js';
 import type {
   FilterResult,
   FinalSelectionCriteria,
@@ -7,6 +8,8 @@ import type {
 } from '../../../types/index.js';
 import { BaseFilterStage } from '../filter-stage.js';
 
+const logger = createLogger('FinalSelectionFilter');
+
 export class FinalSelectionFilter extends BaseFilterStage {
   id = 4;
   name = 'final_selection';
@@ -20,13 +23,13 @@ export class FinalSelectionFilter extends BaseFilterStage {
   }
 
   async evaluate(repository: Repository): Promise<FilterResult> {
-    console.debug(`[FinalSelectionFilter] Evaluating ${repository.full_name}`);
+    logger.debug('Evaluating');
 
     // 該当リポジトリの品質評価を取得
     const assessment = this.qualityAssessments.find((a) => a.repository_id === repository.id);
 
     if (!assessment) {
-      console.warn(`[FinalSelectionFilter] No quality assessment found for ${repository.full_name}`);
+      logger.warn('No quality assessment found');
       return this.createResult(false, 0, {
         error: 'No quality assessment found',
         repository_id: repository.id,
@@ -55,9 +58,7 @@ export class FinalSelectionFilter extends BaseFilterStage {
       percentile_rank: this.calculatePercentileRank(assessment),
     };
 
-    console.debug(
-      `[FinalSelectionFilter] ${repository.full_name}: passed=${passed}, score=${score.toFixed(3)}, rank=${assessment.overall_rank}`,
-    );
+    logger.debug('Evaluated', { passed, score: Number(score.toFixed(3)), rank: assessment.overall_rank });
 
     return this.createResult(passed, score, details);
   }
@@ -1,17 +1,31 @@
-import type { FilterResult, PopularityCriteria, PopularityFilterDetails, Repository } from '../../../types/index.js';
-import { BaseFilterStage } from '../filter-stage.js';
+import { createLogger } from '../../../logging/logger.js';
+import type {
+  FilterResult,
+  PopularityCriteria,
+  PopularityFilterDetails,
+  Repository,
+  ScoringModel,
+} from '../../../types/index.js';
+import { ScoredFilterStage } from '../filter-stage.js';
+import type { ComponentInput } from '../scoring.js';
 
-export class PopularityFilter extends BaseFilterStage {
+const logger = createLogger('PopularityFilter');
+
+export class PopularityFilter extends ScoredFilterStage {
   id = 1;
   name = 'basic_popularity';
   description = '基本人気度フィルタ - スター数、フォーク数、アーカイブ状況をチェック';
+  scoringStage = 'popularity' as const;
 
-  constructor(private criteria: PopularityCriteria) {
-    super();
+  constructor(
+    private criteria: PopularityCriteria,
+    scoringModel?: ScoringModel,
+  ) {
+    super(scoringModel);
   }
 
   async evaluate(repository: Repository): Promise<FilterResult> {
-    console.debug(`[PopularityFilter] Evaluating ${repository.full_name}`);
+    logger.debug('Evaluating');
 
     const checks = {
       stars: (repository.stars_count ?? 0) >= this.criteria.min_stars,
@@ -22,23 +36,7 @@ export class PopularityFilter extends BaseFilterStage {
 
     const passed = Object.values(checks).every((check) => check);
 
-    // スコア計算 (0-1の範囲)
-    const starScore = this.normalizeScore(
-      repository.stars_count ?? 0,
-      this.criteria.min_stars,
-      this.criteria.min_stars * 10,
-    );
-    const forkScore = this.normalizeScore(
-      repository.forks_count ?? 0,
-      this.criteria.min_forks,
-      this.criteria.min_forks * 10,
-    );
-
-    // アーカイブ・無効化のペナルティ
-    const archiveScore = repository.archived ? 0 : 1;
-    const disabledScore = repository.disabled ? 0 : 1;
-
-    const score = (starScore + forkScore + archiveScore + disabledScore) / 4;
+    const { score, scoring } = this.score(repository);
 
     const details: PopularityFilterDetails = {
       checks,
@@ -46,10 +44,29 @@ export class PopularityFilter extends BaseFilterStage {
       forks_count: repository.forks_count,
       archived: repository.archived ?? false,
       disabled: repository.disabled ?? false,
+      scoring,
     };
 
-    console.debug(`[PopularityFilter] ${repository.full_name}: passed=${passed}, score=${score.toFixed(3)}`);
+    logger.debug('Evaluated', { passed, score: Number(score.toFixed(3)) });
 
     return this.createResult(passed, score, details);
   }
+
+  // スター数・フォーク数は基準値からその 10 倍までを既定の範囲とし、アーカイブ・無効化はペナルティとする
+  scoringInputs(repository: Repository): ComponentInput[] {
+    return [
+      {
+        name: 'stars',
+        value: repository.stars_count ?? 0,
+        range: [this.criteria.min_stars, this.criteria.min_stars * 10],
+      },
+      {
+        name: 'forks',
+        value: repository.forks_count ?? 0,
+        range: [this.criteria.min_forks, this.criteria.min_forks * 10],
+      },
+      { name: 'not_archived', value: repository.archived ? 0 : 1, range: [0, 1] },
+      { name: 'not_disabled', value: repository.disabled ? 0 : 1, range: [0, 1] },
+    ];
+  }
 }
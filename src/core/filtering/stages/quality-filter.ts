@@ -1,49 +1,97 @@
-import type { FilterResult, QualityCriteria, QualityFilterDetails, Repository } from '../../../types/index.js';
-import { BaseFilterStage } from '../filter-stage.js';
+import { createLogger } from '../../../logging/logger.js';
+import type {
+  FilterResult,
+  QualityCriteria,
+  QualityFilterDetails,
+  Repository,
+  RepositoryMetrics,
+  ScoringModel,
+} from '../../../types/index.js';
+import { communityHealthScore, pickCommunityHealth } from '../../enrichment/community-health.js';
+import { ScoredFilterStage } from '../filter-stage.js';
+import type { ComponentInput } from '../scoring.js';
 
-export class QualityFilter extends BaseFilterStage {
+const logger = createLogger('QualityFilter');
+
+export class QualityFilter extends ScoredFilterStage {
   id = 3;
   name = 'quality_filter';
   description = '品質フィルタ - ライセンス、ドキュメント、プロジェクト管理機能をチェック';
+  scoringStage = 'quality' as const;
 
-  constructor(private criteria: QualityCriteria) {
-    super();
+  constructor(
+    private criteria: QualityCriteria,
+    scoringModel?: ScoringModel,
+  ) {
+    super(scoringModel);
   }
 
-  async evaluate(repository: Repository): Promise<FilterResult> {
-    console.debug(`[QualityFilter] Evaluating ${repository.full_name}`);
+  async evaluate(repository: Repository, metrics?: RepositoryMetrics | null): Promise<FilterResult> {
+    logger.debug('Evaluating');
 
-    const topics = Array.isArray(repository.topics) ? repository.topics : [];
-    const hasDescription = repository.description !== null && repository.description.length > 10;
+    const hasDescription = this.hasDescription(repository);
+
+    // README が未収集の場合はチェックを適用しない
+    const hasReadme = metrics?.has_readme ?? null;
+    const readmeScore = metrics?.readme_quality_score ?? null;
+    // クローズまでの日数は外れ値の影響を避けるため中央値で判定する
+    const issueCloseTime = metrics?.median_issue_close_time_days ?? null;
 
     const checks = {
-      // Note: README check skipped (requires additional API calls for file contents)
-      has_readme: true, // Assumed true (would require GitHub API call to verify)
+      has_readme: !this.criteria.has_readme || hasReadme === null || hasReadme,
       has_license: this.criteria.has_license ? repository.license !== null : true,
+      readme_quality: readmeScore === null || readmeScore >= this.criteria.min_readme_quality,
+      issue_close_time: issueCloseTime === null || issueCloseTime <= this.criteria.max_issue_close_time,
       documentation_quality: hasDescription,
     };
 
-    const passed = this.criteria.has_license ? checks.has_license : true;
+    const passed = checks.has_license && checks.has_readme && checks.readme_quality && checks.issue_close_time;
 
-    // 品質スコア計算
-    const licenseScore = checks.has_license ? 1 : 0;
-    const descriptionScore = checks.documentation_quality ? 1 : 0;
-    const homepageScore = repository.homepage ? 0.5 : 0;
-    const topicsScore = this.normalizeScore(topics.length, 0, 5);
-    const featuresScore =
-      ((repository.has_issues ? 1 : 0) + (repository.has_projects ? 0.5 : 0) + (repository.has_wiki ? 0.5 : 0)) / 2;
-
-    const score = (licenseScore + descriptionScore + homepageScore + topicsScore + featuresScore) / 5;
+    const communityHealth = pickCommunityHealth(metrics);
+    const { score, scoring } = this.score(repository, metrics);
 
     const details: QualityFilterDetails = {
       checks,
-      readme_score: 0.8, // Fixed value (actual README analysis not implemented)
+      readme_score: readmeScore,
       license_name: typeof repository.license === 'string' ? repository.license : null,
       has_description: hasDescription,
+      community_health: communityHealth,
+      community_health_score: communityHealthScore(communityHealth),
+      median_issue_close_time_days: issueCloseTime,
+      scoring,
     };
 
-    console.debug(`[QualityFilter] ${repository.full_name}: passed=${passed}, score=${score.toFixed(3)}`);
+    logger.debug('Evaluated', { passed, score: Number(score.toFixed(3)) });
 
     return this.createResult(passed, score, details);
   }
+
+  // 未収集の指標（README・コミュニティヘルス・クローズまでの日数）は null としてスコアの母数に含めない
+  scoringInputs(repository: Repository, metrics?: RepositoryMetrics | null): ComponentInput[] {
+    const topics = Array.isArray(repository.topics) ? repository.topics : [];
+    const features =
+      ((repository.has_issues ? 1 : 0) + (repository.has_projects ? 0.5 : 0) + (repository.has_wiki ? 0.5 : 0)) / 2;
+    const hasLicense = this.criteria.has_license ? repository.license !== null : true;
+
+    return [
+      { name: 'license', value: hasLicense ? 1 : 0, range: [0, 1] },
+      { name: 'description', value: this.hasDescription(repository) ? 1 : 0, range: [0, 1] },
+      // ホームページは半分だけ加点する
+      { name: 'homepage', value: repository.homepage ? 0.5 : 0, range: [0, 1] },
+      { name: 'topics', value: topics.length, range: [0, 5] },
+      { name: 'features', value: features, range: [0, 1] },
+      { name: 'readme', value: metrics?.readme_quality_score ?? null, range: [0, 1] },
+      { name: 'community_health', value: communityHealthScore(pickCommunityHealth(metrics)), range: [0, 1] },
+      {
+        name: 'issue_close_time',
+        value: metrics?.median_issue_close_time_days ?? null,
+        range: [0, this.criteria.max_issue_close_time],
+        lowerIsBetter: true,
+      },
+    ];
+  }
+
+  private hasDescription(repository: Repository): boolean {
+    return repository.description !== null && repository.description.length > 10;
+  }
 }
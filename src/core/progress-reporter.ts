@@ -0,0 +1,177 @@
+/**
+ * 収集中の進捗の集計
+ * 処理済みリポジトリ数・ステージごとの通過数・API呼び出し数・残りレート制限から ETA を求め、
+ * 一定間隔で collection_batches（total_found / total_collected / progress）に書き出して別プロセスから参照できるようにする
+ */
+
+import { eq } from 'drizzle-orm';
+import { collection_batches } from '../../drizzle/schema.js';
+import type { RateLimitBucket } from '../api/rate-limit-scheduler.js';
+import type { TokenUsage } from '../api/token-pool.js';
+import { createLogger } from '../logging/logger.js';
+import type { StellarDatabase } from '../repository/database.js';
+import type { FilteringSummary } from '../types/index.js';
+
+const logger = createLogger('ProgressReporter');
+
+export const DEFAULT_PROGRESS_FLUSH_INTERVAL_MS = 10_000;
+
+export interface StageCounts {
+  passed: number;
+  failed: number;
+  skipped: number;
+}
+
+/**
+ * collection_batches.progress に保存する進捗
+ */
+export interface BatchProgress {
+  processed: number;
+  // 処理予定の総数（検索結果と収集上限の小さい方、リストのエントリ数など）。不明なら null
+  expected: number | null;
+  stages: Record<string, StageCounts>;
+  // このバッチの実行中に送った API リクエスト数（再開前の実行分は含まない）
+  api_requests: number;
+  // 有効なトークンの残りリクエスト数の合計
+  rate_limit_remaining: Partial<Record<RateLimitBucket, number>>;
+  repositories_per_minute: number | null;
+  eta_seconds: number | null;
+  updated_at: string;
+}
+
+export type ProgressListener = (progress: BatchProgress) => void;
+
+export interface ProgressReporterOptions {
+  flushIntervalMs?: number;
+  now?: () => number;
+}
+
+export class ProgressReporter {
+  private processed = 0;
+  // 再開時にチェックポイントから引き継いだ件数。処理速度の計算からは除く
+  private baseline = 0;
+  private found: number | null = null;
+  private expected: number | null = null;
+  private stages: Record<string, StageCounts> = {};
+  private readonly startedAt: number;
+  private readonly initialRequests: number;
+  private lastFlushAt: number;
+  private flushing: Promise<void> | null = null;
+  private readonly flushIntervalMs: number;
+  private readonly now: () => number;
+
+  constructor(
+    private db: StellarDatabase,
+    private batchId: number,
+    private tokenUsage: () => TokenUsage[],
+    private listeners: ProgressListener[] = [],
+    options: ProgressReporterOptions = {},
+  ) {
+    this.now = options.now ?? Date.now;
+    this.flushIntervalMs = options.flushIntervalMs ?? DEFAULT_PROGRESS_FLUSH_INTERVAL_MS;
+    this.startedAt = this.now();
+    this.lastFlushAt = this.startedAt;
+    this.initialRequests = countRequests(tokenUsage());
+  }
+
+  /**
+   * 再開時は、チェックポイントに記録された処理済みの件数と前回までのステージ集計から始める
+   */
+  resume(processed: number, previous?: BatchProgress | null): void {
+    this.processed = processed;
+    this.baseline = processed;
+    this.stages = structuredClone(previous?.stages ?? {});
+  }
+
+  /**
+   * found は検索でヒットした総数（total_found）、expected はこのバッチで処理する予定の総数
+   */
+  setTotals(found: number | null, expected: number | null): void {
+    this.found = found;
+    this.expected = expected;
+  }
+
+  /**
+   * 1 件の処理結果を集計し、前回の書き出しから一定時間が経っていれば進捗を書き出す
+   * summary が null のリポジトリ（保存や評価に失敗したもの）は処理済みとしてのみ数える
+   */
+  async record(summary: FilteringSummary | null): Promise<void> {
+    this.processed++;
+    for (const stage of summary?.stages ?? []) {
+      this.stages[stage.stage] ??= { passed: 0, failed: 0, skipped: 0 };
+      const counts = this.stages[stage.stage] as StageCounts;
+      if (stage.details.skipped) counts.skipped++;
+      else if (stage.passed) counts.passed++;
+      else counts.failed++;
+    }
+
+    const progress = this.snapshot();
+    for (const listener of this.listeners) {
+      listener(progress);
+    }
+
+    if (this.now() - this.lastFlushAt >= this.flushIntervalMs) {
+      await this.flush();
+    }
+  }
+
+  snapshot(): BatchProgress {
+    const elapsedMinutes = (this.now() - this.startedAt) / 60_000;
+    const done = this.processed - this.baseline;
+    const perMinute = elapsedMinutes > 0 && done > 0 ? done / elapsedMinutes : null;
+    const remaining = this.expected === null ? null : Math.max(this.expected - this.processed, 0);
+
+    return {
+      processed: this.processed,
+      expected: this.expected,
+      stages: structuredClone(this.stages),
+      api_requests: countRequests(this.tokenUsage()) - this.initialRequests,
+      rate_limit_remaining: sumRemaining(this.tokenUsage()),
+      repositories_per_minute: perMinute === null ? null : Math.round(perMinute * 10) / 10,
+      eta_seconds: remaining === null || perMinute === null ? null : Math.round((remaining / perMinute) * 60),
+      updated_at: new Date(this.now()).toISOString(),
+    };
+  }
+
+  /**
+   * 現在の進捗を collection_batches に書き出す。並行して呼ばれても書き込みは 1 つずつ行う
+   */
+  async flush(): Promise<void> {
+    this.lastFlushAt = this.now();
+    const previous = this.flushing ?? Promise.resolve();
+
+    this.flushing = previous.then(async () => {
+      const progress = this.snapshot();
+      try {
+        await this.db
+          .update(collection_batches)
+          .set({
+            progress,
+            total_collected: progress.processed,
+            ...(this.found === null ? {} : { total_found: this.found }),
+          })
+          .where(eq(collection_batches.id, this.batchId));
+      } catch (error) {
+        // 進捗の書き出しに失敗しても収集は続ける
+        logger.warn('Failed to write batch progress', { batchId: this.batchId, error });
+      }
+    });
+    await this.flushing;
+  }
+}
+
+function countRequests(usage: TokenUsage[]): number {
+  return usage.reduce((total, entry) => total + entry.requests, 0);
+}
+
+function sumRemaining(usage: TokenUsage[]): Partial<Record<RateLimitBucket, number>> {
+  const remaining: Partial<Record<RateLimitBucket, number>> = {};
+  for (const entry of usage) {
+    if (entry.revoked) continue;
+    for (const [bucket, budget] of Object.entries(entry.budgets) as [RateLimitBucket, { remaining: number | null }][]) {
+      if (budget.remaining === null) continue;
+      remaining[bucket] = (remaining[bucket] ?? 0) + budget.remaining;
+    }
+  }
+  return remaining;
+}
@@ -0,0 +1,248 @@
+/**
+ * 品質評価エンジン
+ * フィルター実行に記録された人気度・活動度・品質ステージのスコアと、詳細メトリクスから求めたコミュニティスコアを総合スコアにまとめる
+ * 順位は同じフィルター実行で評価したリポジトリ（コホート）の中で付け、quality_assessments に記録する
+ * 最終選定はコホート全体の順位が必要なため、パイプラインの後に第2パスとして実行する
+ */
+
+import { and, asc, eq, inArray, ne } from 'drizzle-orm';
+import { filtering_stages, repositories, repository_filter_status } from '../../drizzle/schema.js';
+import { createLogger } from '../logging/logger.js';
+import type { StellarDatabase } from '../repository/database.js';
+import { MetricsRepository } from '../repository/metrics-repository.js';
+import { QualityAssessmentRepository } from '../repository/quality-assessment-repository.js';
+import type {
+  FinalSelectionCriteria,
+  InsertQualityAssessment,
+  QualityAssessment,
+  RepositoryMetrics,
+  StageResultRecorder,
+  StageStatus,
+} from '../types/index.js';
+import { communityHealthScore, pickCommunityHealth } from './enrichment/community-health.js';
+import { FilteringPipeline, type PipelineMode } from './filtering/pipeline.js';
+import { FinalSelectionFilter } from './filtering/stages/final-selection-filter.js';
+
+const logger = createLogger('QualityAssessmentEngine');
+
+/**
+ * quality_assessments に記録する評価のバージョン。重みやスコアの算出方法を変えたら上げる
+ */
+export const ASSESSMENT_VERSION = '1';
+
+export const DEFAULT_FINAL_SELECTION: FinalSelectionCriteria = {
+  min_overall_score: 0.5,
+  top_percentile: 25,
+};
+
+type AssessmentComponent = 'popularity' | 'activity' | 'quality' | 'community';
+
+// 総合スコアの重み（合計 1）。コミュニティスコアを算出できないリポジトリでは残りの重みで按分する
+export const ASSESSMENT_WEIGHTS: Record<AssessmentComponent, number> = {
+  popularity: 0.3,
+  activity: 0.25,
+  quality: 0.25,
+  community: 0.2,
+};
+
+const STAGE_COMPONENTS: Record<string, Exclude<AssessmentComponent, 'community'>> = {
+  basic_popularity: 'popularity',
+  activity_filter: 'activity',
+  quality_filter: 'quality',
+};
+
+// コントリビューター数はこの人数で満点、初回応答はこの日数で 0 点とする
+const FULL_SCORE_CONTRIBUTORS = 50;
+const ZERO_SCORE_FIRST_RESPONSE_DAYS = 30;
+
+export interface FinalSelectionOptions {
+  criteria?: FinalSelectionCriteria;
+  mode?: PipelineMode;
+  recorder: StageResultRecorder;
+}
+
+export interface FinalSelectionSummary {
+  // 品質評価を記録したリポジトリ数（コホートの大きさ）
+  assessed: number;
+  // 最終選定を評価したリポジトリ数（short-circuit では前のステージをすべて通過したもののみ）
+  evaluated: number;
+  selected: number;
+}
+
+interface StageResult {
+  status: StageStatus;
+  score: number;
+}
+
+export class QualityAssessmentEngine {
+  private metricsRepository: MetricsRepository;
+  private assessments: QualityAssessmentRepository;
+
+  constructor(private db: StellarDatabase) {
+    this.metricsRepository = new MetricsRepository(db);
+    this.assessments = new QualityAssessmentRepository(db);
+  }
+
+  /**
+   * フィルター実行で評価したすべてのリポジトリの総合スコアと順位を記録する
+   * skipped のステージは評価されていないため 0 点として扱う
+   */
+  async assess(runId: number): Promise<QualityAssessment[]> {
+    return this.recordAssessments(runId, await this.stageResults(runId));
+  }
+
+  /**
+   * 品質評価を記録してから、同じフィルター実行の第2パスとして最終選定を実行する
+   * short-circuit では前のステージをすべて通過したリポジトリのみを評価し、それ以外は skipped として記録する
+   */
+  async selectFinal(runId: number, options: FinalSelectionOptions): Promise<FinalSelectionSummary> {
+    const results = await this.stageResults(runId);
+    const assessments = await this.recordAssessments(runId, results);
+    const mode = options.mode ?? 'short-circuit';
+
+    const finalStage = new FinalSelectionFilter(options.criteria ?? DEFAULT_FINAL_SELECTION, assessments);
+    const pipeline = new FilteringPipeline(this.db, { mode, recorder: options.recorder });
+    pipeline.addStage(finalStage);
+
+    const cohort =
+      results.size === 0
+        ? []
+        : await this.db
+            .select()
+            .from(repositories)
+            .where(inArray(repositories.id, [...results.keys()]))
+            .orderBy(asc(repositories.id));
+
+    let evaluated = 0;
+    let selected = 0;
+    for (const repository of cohort) {
+      const previous = [...(results.get(repository.id)?.values() ?? [])];
+      if (mode === 'short-circuit' && !previous.every((result) => result.status === 'passed')) {
+        await options.recorder.record(repository.id, finalStage.id, 'skipped', {
+          score: 0,
+          details: { error: '', skipped: true, reason: 'Did not pass all previous stages' },
+        });
+        continue;
+      }
+
+      const summary = await pipeline.execute(repository);
+      evaluated++;
+      if (summary.passed) {
+        selected++;
+      }
+    }
+
+    logger.info(`Final selection: ${selected}/${evaluated} selected from ${cohort.length} assessed repositories`);
+    return { assessed: assessments.length, evaluated, selected };
+  }
+
+  private async recordAssessments(
+    runId: number,
+    results: Map<number, Map<string, StageResult>>,
+  ): Promise<QualityAssessment[]> {
+    const drafts: InsertQualityAssessment[] = [];
+    for (const [repositoryId, byStage] of results) {
+      const community = communityScore(await this.metricsRepository.getLatest(repositoryId));
+      const scores = {
+        popularity_score: byStage.get('popularity')?.score ?? 0,
+        activity_score: byStage.get('activity')?.score ?? 0,
+        quality_score: byStage.get('quality')?.score ?? 0,
+      };
+
+      drafts.push({
+        run_id: runId,
+        repository_id: repositoryId,
+        ...scores,
+        community_score: community ?? 0,
+        overall_score: overallScore({
+          popularity: scores.popularity_score,
+          activity: scores.activity_score,
+          quality: scores.quality_score,
+          community,
+        }),
+        assessment_version: ASSESSMENT_VERSION,
+      });
+    }
+
+    const popularityRanks = competitionRanks(drafts.map((draft) => draft.popularity_score));
+    const overallRanks = competitionRanks(drafts.map((draft) => draft.overall_score));
+    for (const [index, draft] of drafts.entries()) {
+      draft.popularity_rank = popularityRanks[index];
+      draft.overall_rank = overallRanks[index];
+    }
+
+    await this.assessments.upsert(drafts);
+    logger.info(`Assessed ${drafts.length} repositories (run ${runId})`);
+    return this.assessments.listForRun(runId);
+  }
+
+  // リポジトリごとの人気度・活動度・品質ステージの結果（最終選定の結果は含めない）
+  private async stageResults(runId: number): Promise<Map<number, Map<string, StageResult>>> {
+    const rows = await this.db
+      .select({
+        repository_id: repository_filter_status.repository_id,
+        stage: filtering_stages.name,
+        status: repository_filter_status.status,
+        score: repository_filter_status.score,
+      })
+      .from(repository_filter_status)
+      .innerJoin(filtering_stages, eq(filtering_stages.id, repository_filter_status.stage_id))
+      .where(and(eq(repository_filter_status.run_id, runId), ne(filtering_stages.name, 'final_selection')))
+      .orderBy(asc(repository_filter_status.repository_id));
+
+    const results = new Map<number, Map<string, StageResult>>();
+    for (const row of rows) {
+      const byStage = results.get(row.repository_id) ?? new Map<string, StageResult>();
+      byStage.set(STAGE_COMPONENTS[row.stage] ?? row.stage, { status: row.status, score: row.score ?? 0 });
+      results.set(row.repository_id, byStage);
+    }
+    return results;
+  }
+}
+
+/**
+ * 詳細メトリクスからコミュニティスコア（0〜1）を求める。未収集の指標は母数に含めず、何も収集されていなければ null
+ */
+export function communityScore(metrics: RepositoryMetrics | null): number | null {
+  if (!metrics) return null;
+
+  const contributors = metrics.contributors_count ?? null;
+  const firstResponseDays = metrics.median_first_response_time_days ?? null;
+  const components = [
+    communityHealthScore(pickCommunityHealth(metrics)),
+    contributors === null ? null : clamp(contributors / FULL_SCORE_CONTRIBUTORS),
+    metrics.issue_response_rate ?? null,
+    metrics.pr_acceptance_rate ?? null,
+    firstResponseDays === null ? null : clamp(1 - firstResponseDays / ZERO_SCORE_FIRST_RESPONSE_DAYS),
+  ].filter((component): component is number => component !== null);
+
+  if (components.length === 0) return null;
+  return components.reduce((sum, component) => sum + component, 0) / components.length;
+}
+
+export function overallScore(scores: Record<AssessmentComponent, number | null>): number {
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const [component, weight] of Object.entries(ASSESSMENT_WEIGHTS) as [AssessmentComponent, number][]) {
+    const score = scores[component];
+    if (score === null) continue;
+    weighted += score * weight;
+    totalWeight += weight;
+  }
+  return totalWeight === 0 ? 0 : weighted / totalWeight;
+}
+
+/**
+ * スコアの高い順の順位（同点は同じ順位で、次の順位は同点の数だけ進む）
+ */
+export function competitionRanks(scores: number[]): number[] {
+  const ranks = new Map<number, number>();
+  for (const [index, score] of [...scores].sort((a, b) => b - a).entries()) {
+    if (!ranks.has(score)) ranks.set(score, index + 1);
+  }
+  return scores.map((score) => ranks.get(score) as number);
+}
+
+function clamp(value: number): number {
+  return Math.min(Math.max(value, 0), 1);
+}
@@ -0,0 +1,155 @@
+/**
+ * 収集対象リポジトリのリスト（txt / CSV / JSON）の読み込み
+ * 各エントリは owner/name 形式に正規化し、github.com の URL も受け付ける
+ * 大文字小文字を区別せずに重複を除き、解釈できないエントリは invalid として返す
+ */
+
+import { readFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { createLogger } from '../logging/logger.js';
+
+const logger = createLogger('RepositoryList');
+
+export type RepositoryListFormat = 'txt' | 'csv' | 'json';
+
+export interface RepositoryList {
+  entries: string[];
+  invalid: string[];
+}
+
+// CSV のヘッダーとして扱う列名。full_name 系の列がなければ owner と name の列を組み合わせる
+const FULL_NAME_COLUMNS = ['full_name', 'repository', 'repo', 'url'];
+const HEADER_COLUMNS = [...FULL_NAME_COLUMNS, 'owner', 'name'];
+
+const REPOSITORY_NAME_PATTERN = /^[A-Za-z0-9-]+\/[A-Za-z0-9._-]+$/;
+
+export async function loadRepositoryList(path: string): Promise<RepositoryList> {
+  const format = detectFormat(path);
+  const content = await readFile(path, 'utf-8');
+  const list = parseRepositoryList(content, format);
+
+  logger.info(`Loaded ${list.entries.length} repositories from ${path} (${list.invalid.length} invalid)`);
+  return list;
+}
+
+export function detectFormat(path: string): RepositoryListFormat {
+  const extension = extname(path).slice(1).toLowerCase();
+  if (extension === 'txt' || extension === 'csv' || extension === 'json') {
+    return extension;
+  }
+  throw new Error(`Unsupported repository list format: ${path} (expected .txt, .csv or .json)`);
+}
+
+export function parseRepositoryList(content: string, format: RepositoryListFormat): RepositoryList {
+  const raw = format === 'json' ? parseJson(content) : format === 'csv' ? parseCsv(content) : parseText(content);
+
+  const entries: string[] = [];
+  const invalid: string[] = [];
+  const seen = new Set<string>();
+
+  for (const value of raw) {
+    const fullName = normalizeRepositoryName(value);
+    if (fullName === null) {
+      invalid.push(value);
+      continue;
+    }
+    if (seen.has(fullName.toLowerCase())) continue;
+
+    seen.add(fullName.toLowerCase());
+    entries.push(fullName);
+  }
+
+  return { entries, invalid };
+}
+
+/**
+ * owner/name、github.com/owner/name、https://github.com/owner/name(.git) を owner/name にする
+ */
+export function normalizeRepositoryName(value: string): string | null {
+  const name = value
+    .trim()
+    .replace(/^(https?:\/\/)?(www\.)?github\.com\//i, '')
+    .replace(/\/+$/, '')
+    .replace(/\.git$/i, '');
+
+  return REPOSITORY_NAME_PATTERN.test(name) ? name : null;
+}
+
+// 1行1リポジトリ。空行と # 以降のコメントは無視する
+function parseText(content: string): string[] {
+  return content
+    .split(/\r?\n/)
+    .map((line) => line.replace(/#.*$/, '').trim())
+    .filter((line) => line.length > 0);
+}
+
+function parseCsv(content: string): string[] {
+  const rows = content
+    .split(/\r?\n/)
+    .filter((line) => line.trim().length > 0)
+    .map(splitCsvRow);
+
+  const header = (rows[0] ?? []).map((cell) => cell.toLowerCase());
+  if (!header.some((cell) => HEADER_COLUMNS.includes(cell))) {
+    // ヘッダーがなければ先頭列を使う
+    return rows.map((row) => row[0] ?? '');
+  }
+
+  const body = rows.slice(1);
+  const fullNameIndex = header.findIndex((cell) => FULL_NAME_COLUMNS.includes(cell));
+  if (fullNameIndex >= 0) {
+    return body.map((row) => row[fullNameIndex] ?? '');
+  }
+
+  const ownerIndex = header.indexOf('owner');
+  const nameIndex = header.indexOf('name');
+  if (ownerIndex < 0 || nameIndex < 0) {
+    throw new Error('CSV repository list needs a full_name, repository, repo or url column, or owner and name columns');
+  }
+  return body.map((row) => `${row[ownerIndex] ?? ''}/${row[nameIndex] ?? ''}`);
+}
+
+function splitCsvRow(line: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted && char === '"' && line[i + 1] === '"') {
+      current += '"';
+      i++;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (char === ',' && !quoted) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+
+  return cells;
+}
+
+// 文字列の配列、{ full_name } または { owner, name } の配列、あるいはそれらを repositories に持つオブジェクト
+function parseJson(content: string): string[] {
+  const data: unknown = JSON.parse(content);
+  const items =
+    data && typeof data === 'object' && !Array.isArray(data) && 'repositories' in data ? data.repositories : data;
+
+  if (!Array.isArray(items)) {
+    throw new Error('JSON repository list must be an array or an object with a repositories array');
+  }
+
+  return items.map((item: unknown) => {
+    if (typeof item === 'string') return item;
+    if (item && typeof item === 'object') {
+      const record = item as Record<string, unknown>;
+      if (typeof record.full_name === 'string') return record.full_name;
+      if (typeof record.owner === 'string' && typeof record.name === 'string') return `${record.owner}/${record.name}`;
+    }
+    return JSON.stringify(item);
+  });
+}
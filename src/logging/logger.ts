@@ -0,0 +1,209 @@
+/**
+ * 構造化ログ
+ * LOG_LEVEL 未満のレコードは捨て、pretty（人が読む形式）または JSON Lines で標準エラー出力に書き出す
+ * withLogContext で付けた batchId・repo・stage などのフィールドは、その非同期処理内のすべてのレコードに付与される
+ * LOG_DIR を指定すると、バッチ実行中のレコードを <LOG_DIR>/batch-<id>.jsonl にも書き出す
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { closeSync, mkdirSync, openSync, writeSync } from 'node:fs';
+import { join } from 'node:path';
+import { inspect } from 'node:util';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+export type LogFormat = 'pretty' | 'json';
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error', 'silent'];
+export const LOG_FORMATS: LogFormat[] = ['pretty', 'json'];
+
+export type LogFields = Record<string, unknown>;
+
+export interface LogRecord {
+  time: string;
+  level: Exclude<LogLevel, 'silent'>;
+  scope: string;
+  message: string;
+  fields: LogFields;
+}
+
+export interface LoggingOptions {
+  level: LogLevel;
+  format: LogFormat;
+  // バッチごとのログファイルを書き出すディレクトリ
+  directory?: string;
+}
+
+export interface BatchLog {
+  path: string;
+  close(): void;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 };
+
+const contextStorage = new AsyncLocalStorage<LogFields>();
+// batchId ごとのログファイルのディスクリプタ
+const batchFiles = new Map<number, number>();
+
+let options: LoggingOptions | null = null;
+let output: (line: string) => void = (line) => process.stderr.write(`${line}\n`);
+
+/**
+ * LOG_LEVEL / LOG_FORMAT / LOG_DIR からログ設定を読み込む
+ */
+export function resolveLoggingOptions(env: NodeJS.ProcessEnv = process.env): LoggingOptions {
+  const level = (env.LOG_LEVEL || 'info').toLowerCase() as LogLevel;
+  if (!LOG_LEVELS.includes(level)) {
+    throw new Error(`Invalid LOG_LEVEL: ${env.LOG_LEVEL} (expected one of ${LOG_LEVELS.join(', ')})`);
+  }
+
+  const format = (env.LOG_FORMAT || 'pretty').toLowerCase() as LogFormat;
+  if (!LOG_FORMATS.includes(format)) {
+    throw new Error(`Invalid LOG_FORMAT: ${env.LOG_FORMAT} (expected one of ${LOG_FORMATS.join(', ')})`);
+  }
+
+  return { level, format, directory: env.LOG_DIR || undefined };
+}
+
+/**
+ * ログ設定を上書きする。指定しなかった項目は環境変数の値を使う
+ */
+export function configureLogging(overrides: Partial<LoggingOptions> = {}): void {
+  const defined = Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined));
+  options = { ...resolveLoggingOptions(), ...defined };
+}
+
+/**
+ * 出力先を差し替える（テストや CLI の進捗表示用）。null で標準エラー出力に戻す
+ */
+export function setLogOutput(write: ((line: string) => void) | null): void {
+  output = write ?? ((line) => process.stderr.write(`${line}\n`));
+}
+
+export function createLogger(scope: string, fields: LogFields = {}): Logger {
+  return new Logger(scope, fields);
+}
+
+/**
+ * fn の中（await の先を含む）で出力されるレコードに fields を付与する
+ */
+export function withLogContext<T>(fields: LogFields, fn: () => T): T {
+  return contextStorage.run({ ...contextStorage.getStore(), ...fields }, fn);
+}
+
+/**
+ * batchId を持つレコードを LOG_DIR のバッチ用ファイルにも書き出す。LOG_DIR がなければ null
+ */
+export function openBatchLog(batchId: number): BatchLog | null {
+  const directory = currentOptions().directory;
+  if (!directory) return null;
+
+  mkdirSync(directory, { recursive: true });
+  const path = join(directory, `batch-${batchId}.jsonl`);
+  const fd = openSync(path, 'a');
+  batchFiles.set(batchId, fd);
+
+  return {
+    path,
+    close() {
+      if (batchFiles.get(batchId) === fd) {
+        batchFiles.delete(batchId);
+      }
+      closeSync(fd);
+    },
+  };
+}
+
+export class Logger {
+  constructor(
+    private scope: string,
+    private fields: LogFields = {},
+  ) {}
+
+  /**
+   * 常に同じフィールドを付与する子ロガーを作る
+   */
+  child(fields: LogFields): Logger {
+    return new Logger(this.scope, { ...this.fields, ...fields });
+  }
+
+  isLevelEnabled(level: LogLevel): boolean {
+    return LEVEL_ORDER[level] >= LEVEL_ORDER[currentOptions().level];
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields);
+  }
+
+  private log(level: LogRecord['level'], message: string, fields: LogFields = {}): void {
+    const batchId = contextStorage.getStore()?.batchId;
+    const batchFile = typeof batchId === 'number' ? batchFiles.get(batchId) : undefined;
+    const enabled = this.isLevelEnabled(level);
+    // バッチのログファイルにはしきい値に関係なくすべてのレベルを残す
+    if (!enabled && batchFile === undefined) return;
+
+    const record: LogRecord = {
+      time: new Date().toISOString(),
+      level,
+      scope: this.scope,
+      message,
+      fields: { ...contextStorage.getStore(), ...this.fields, ...fields },
+    };
+
+    if (enabled) {
+      output(currentOptions().format === 'json' ? formatJson(record) : formatPretty(record));
+    }
+    if (batchFile !== undefined) {
+      writeSync(batchFile, `${formatJson(record)}\n`);
+    }
+  }
+}
+
+export function formatJson(record: LogRecord): string {
+  const fields = Object.fromEntries(Object.entries(record.fields).map(([key, value]) => [key, serialize(value)]));
+  return JSON.stringify({
+    time: record.time,
+    level: record.level,
+    scope: record.scope,
+    msg: record.message,
+    ...fields,
+  });
+}
+
+export function formatPretty(record: LogRecord): string {
+  const { error, ...fields } = record.fields;
+  const time = record.time.slice(11, 23);
+  const context = Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(serialize(value))}`)
+    .join(' ');
+
+  const line = `${time} ${record.level.toUpperCase().padEnd(5)} [${record.scope}] ${record.message}`;
+  const withContext = context ? `${line}  ${context}` : line;
+  return error === undefined ? withContext : `${withContext}\n${inspect(error, { depth: 3 })}`;
+}
+
+function currentOptions(): LoggingOptions {
+  options ??= resolveLoggingOptions();
+  return options;
+}
+
+function serialize(value: unknown): unknown {
+  if (value instanceof Error) {
+    // GitHubApiError の status などの独自プロパティも残す
+    const own = Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, serialize(entry)]));
+    return { ...own, name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
@@ -1,18 +1,236 @@
+import { existsSync, mkdirSync, readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
 import Database from 'better-sqlite3';
-import { drizzle } from 'drizzle-orm/better-sqlite3';
+import { type BetterSQLite3Database, drizzle } from 'drizzle-orm/better-sqlite3';
+import { migrate } from 'drizzle-orm/better-sqlite3/migrator';
+import { readMigrationFiles } from 'drizzle-orm/migrator';
 import * as schema from '../../drizzle/schema.js';
+import { createLogger } from '../logging/logger.js';
 
-let db: ReturnType<typeof drizzle> | null = null;
+const logger = createLogger('Database');
 
-export function getDatabase() {
-  if (!db) {
-    const sqlite = new Database('./data/stellar.db');
+export type StellarDatabase = BetterSQLite3Database<typeof schema> & { $client: Database.Database };
+
+export const DEFAULT_DATABASE_PATH = './data/stellar.db';
+export const MEMORY_DATABASE_PATH = ':memory:';
+
+// プロファイル名が memory ならインメモリ、それ以外は data/<profile>.db を使う
+export const MEMORY_PROFILE = 'memory';
+const PROFILE_DIRECTORY = './data';
+const PROFILE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+
+const MIGRATIONS_FOLDER = fileURLToPath(new URL('../../drizzle/migrations', import.meta.url));
+// drizzle のマイグレーターが適用履歴を記録するテーブル
+const MIGRATIONS_TABLE = '__drizzle_migrations';
+
+export interface DatabaseOptions {
+  // 明示的なファイルパス（--db）。profile より優先する
+  path?: string;
+  // 名前付きプロファイル（--profile）
+  profile?: string;
+}
+
+let db: StellarDatabase | null = null;
+let databasePath: string | null = null;
+
+/**
+ * 接続先を解決する。優先順位は path > profile > DATABASE_PATH > DATABASE_PROFILE > 既定値
+ */
+export function resolveDatabasePath(options: DatabaseOptions = {}, env: NodeJS.ProcessEnv = process.env): string {
+  if (options.path) return options.path;
+  if (options.profile) return profilePath(options.profile);
+  if (env.DATABASE_PATH) return env.DATABASE_PATH;
+  if (env.DATABASE_PROFILE) return profilePath(env.DATABASE_PROFILE);
+  return DEFAULT_DATABASE_PATH;
+}
+
+export function profilePath(profile: string): string {
+  if (profile === MEMORY_PROFILE) return MEMORY_DATABASE_PATH;
+  if (!PROFILE_NAME_PATTERN.test(profile)) {
+    throw new Error(`Invalid database profile: ${profile} (use letters, digits, "-" and "_")`);
+  }
+  return join(PROFILE_DIRECTORY, `${profile}.db`);
+}
+
+export interface DatabaseUpgrade {
+  // 適用履歴のないファイル（drizzle-kit push で作成）で適用済みとみなしたマイグレーション
+  baseline: string | null;
+  // 今回適用したマイグレーション
+  applied: string[];
+}
+
+interface MigrationSnapshot {
+  tables: Record<string, { columns: Record<string, unknown>; indexes: Record<string, unknown> }>;
+  views?: Record<string, unknown>;
+}
+
+/**
+ * 新しい接続を開く。インメモリと新規作成したファイルにはマイグレーションを適用する
+ * 既存のファイルのスキーマには手を加えず、upgradeDatabase（stellar migrate）で更新する
+ */
+export function openDatabase(path: string): StellarDatabase {
+  const inMemory = path === MEMORY_DATABASE_PATH;
+  const created = !inMemory && !existsSync(path);
+
+  if (!inMemory) {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+  const sqlite = new Database(path);
+  if (!inMemory) {
     sqlite.pragma('journal_mode = WAL');
-    sqlite.pragma('foreign_keys = ON');
+  }
+  sqlite.pragma('foreign_keys = ON');
+
+  const connection = drizzle(sqlite, { schema });
+  if (inMemory || created) {
+    migrate(connection, { migrationsFolder: MIGRATIONS_FOLDER });
+  }
+
+  logger.info(`Connected to SQLite database: ${path}`);
+  return connection;
+}
+
+/**
+ * 既存のファイルに未適用のマイグレーションを適用する
+ * マイグレーションには既存の行を移し替える SQL が含まれるため、drizzle-kit push では更新できない
+ * 適用履歴のないファイルは、スキーマが一致する最後のマイグレーションまでを適用済みとして記録してから残りを適用する
+ */
+export function upgradeDatabase(connection: StellarDatabase): DatabaseUpgrade {
+  const sqlite = connection.$client;
+  const journal = readJournal();
+  const migrations = readMigrationFiles({ migrationsFolder: MIGRATIONS_FOLDER });
+  const objects = schemaObjects(sqlite);
+  let baseline: string | null = null;
 
-    db = drizzle(sqlite, { schema });
+  if (!objects.has(MIGRATIONS_TABLE) && objects.size > 0) {
+    const index = findAppliedMigration(objects, journal);
+    if (index === null) {
+      throw new Error(
+        'The database schema does not match any migration, so the applied migrations cannot be determined',
+      );
+    }
 
-    console.info('[Database] Connected to SQLite database');
+    // drizzle のマイグレーターは最後に記録された created_at より新しいマイグレーションを適用する
+    const migration = migrations[index] as (typeof migrations)[number];
+    sqlite.exec(`CREATE TABLE ${MIGRATIONS_TABLE} (id SERIAL PRIMARY KEY, hash text NOT NULL, created_at numeric)`);
+    sqlite
+      .prepare(`INSERT INTO ${MIGRATIONS_TABLE} (hash, created_at) VALUES (?, ?)`)
+      .run(migration.hash, migration.folderMillis);
+    baseline = journal[index] as string;
+    logger.info(`Recorded migrations up to ${baseline} as applied`);
+  }
+
+  const last =
+    objects.has(MIGRATIONS_TABLE) || baseline !== null
+      ? (sqlite.prepare(`SELECT max(created_at) AS created_at FROM ${MIGRATIONS_TABLE}`).get() as {
+          created_at: number | null;
+        })
+      : { created_at: null };
+  const applied = migrations
+    .map((migration, index) => ({ tag: journal[index] as string, folderMillis: migration.folderMillis }))
+    .filter((migration) => last.created_at === null || Number(last.created_at) < migration.folderMillis)
+    .map((migration) => migration.tag);
+
+  migrate(connection, { migrationsFolder: MIGRATIONS_FOLDER });
+  if (applied.length > 0) {
+    logger.info(`Applied migrations: ${applied.join(', ')}`);
+  }
+  return { baseline, applied };
+}
+
+// マイグレーションのタグ（ファイル名）を適用順に返す
+function readJournal(): string[] {
+  const journal = JSON.parse(readFileSync(join(MIGRATIONS_FOLDER, 'meta', '_journal.json'), 'utf-8')) as {
+    entries: { tag: string }[];
+  };
+  return journal.entries.map((entry) => entry.tag);
+}
+
+// テーブル・インデックス・ビューの名前と、テーブルごとの列名
+function schemaObjects(sqlite: Database.Database): Map<string, Set<string>> {
+  const rows = sqlite
+    .prepare(
+      "SELECT name, type FROM sqlite_master WHERE type IN ('table', 'index', 'view') AND name NOT LIKE 'sqlite_%'",
+    )
+    .all() as { name: string; type: string }[];
+
+  return new Map(
+    rows.map((row) => [
+      row.name,
+      new Set(
+        row.type === 'table'
+          ? (sqlite.pragma(`table_info(\`${row.name}\`)`) as { name: string }[]).map((column) => column.name)
+          : [],
+      ),
+    ]),
+  );
+}
+
+/**
+ * スナップショットのテーブル・列・インデックス・ビューがすべて存在する最後のマイグレーションの位置
+ * マイグレーションはスキーマに追加する一方のため、最後に一致したものまでが適用済みとみなせる
+ * スキーマを変えないデータの移行は判別できないため、直前とスキーマが同じマイグレーションは未適用として扱う
+ */
+function findAppliedMigration(objects: Map<string, Set<string>>, journal: string[]): number | null {
+  for (let index = journal.length - 1; index >= 0; index--) {
+    const snapshot = readSnapshot(index);
+
+    const matches =
+      Object.entries(snapshot.tables).every(
+        ([table, definition]) =>
+          Object.keys(definition.columns).every((column) => objects.get(table)?.has(column)) &&
+          Object.keys(definition.indexes).every((name) => objects.has(name)),
+      ) && Object.keys(snapshot.views ?? {}).every((view) => objects.has(view));
+    if (!matches) continue;
+
+    let applied = index;
+    while (applied > 0 && sameSchema(readSnapshot(applied - 1), snapshot)) {
+      applied--;
+    }
+    return applied;
+  }
+  return null;
+}
+
+function readSnapshot(index: number): MigrationSnapshot {
+  return JSON.parse(
+    readFileSync(join(MIGRATIONS_FOLDER, 'meta', `${String(index).padStart(4, '0')}_snapshot.json`), 'utf-8'),
+  ) as MigrationSnapshot;
+}
+
+// 一致の判定に使うテーブル・列・インデックス・ビューの名前が同じか
+function sameSchema(a: MigrationSnapshot, b: MigrationSnapshot): boolean {
+  const names = (snapshot: MigrationSnapshot) =>
+    JSON.stringify([
+      ...Object.entries(snapshot.tables)
+        .map(([table, definition]) =>
+          [table, ...Object.keys(definition.columns).sort(), ...Object.keys(definition.indexes).sort()].join(','),
+        )
+        .sort(),
+      ...Object.keys(snapshot.views ?? {}).sort(),
+    ]);
+  return names(a) === names(b);
+}
+
+/**
+ * getDatabase() が開く既定の接続先を変更する。最初の getDatabase() より前に呼ぶ必要がある
+ */
+export function configureDatabase(options: DatabaseOptions) {
+  const path = resolveDatabasePath(options);
+  if (db && path !== databasePath) {
+    throw new Error(`Database is already connected to ${databasePath}`);
+  }
+  databasePath = path;
+}
+
+/**
+ * スクリプトや CLI のための既定の接続。ライブラリのクラスは接続を引数で受け取る
+ */
+export function getDatabase(): StellarDatabase {
+  if (!db) {
+    databasePath ??= resolveDatabasePath();
+    db = openDatabase(databasePath);
   }
 
   return db;
@@ -20,10 +238,9 @@ export function getDatabase() {
 
 export function closeDatabase() {
   if (db) {
-    // Note: better-sqlite3 doesn't expose close method on drizzle instance
-    // The connection will be closed when the process exits
+    db.$client.close();
     db = null;
-    console.info('[Database] Database connection closed');
+    logger.info('Database connection closed');
   }
 }
 
@@ -0,0 +1,111 @@
+import { asc, desc, eq, sql } from 'drizzle-orm';
+import { evaluation_results, evaluation_runs, filtering_stages, repositories } from '../../drizzle/schema.js';
+import { createLogger } from '../logging/logger.js';
+import type { EvaluationRun, InsertEvaluationRun, StageResultRecorder, StageStatus } from '../types/index.js';
+import type { StellarDatabase } from './database.js';
+
+const logger = createLogger('EvaluationRunRepository');
+
+export interface EvaluationResultRow {
+  repository_id: number;
+  full_name: string;
+  stage: string;
+  order_index: number;
+  status: StageStatus;
+  score: number | null;
+}
+
+/**
+ * evaluation_runs は再評価の実行ごとに基準のスナップショットを持ち、結果は evaluation_results に実行単位で記録する
+ * 同じ実行・リポジトリ・ステージの結果は上書きされるため、実行を再試行しても行は増えない
+ */
+export class EvaluationRunRepository {
+  constructor(private db: StellarDatabase) {}
+
+  async create(run: Omit<InsertEvaluationRun, 'status'>): Promise<EvaluationRun> {
+    const [created] = await this.db
+      .insert(evaluation_runs)
+      .values({ ...run, status: 'running' })
+      .returning();
+
+    if (!created) {
+      throw new Error('Failed to create evaluation run');
+    }
+    logger.info(`Created evaluation run: ${created.id}`);
+    return created;
+  }
+
+  async complete(runId: number, totals: { evaluated: number; passed: number }): Promise<void> {
+    await this.db
+      .update(evaluation_runs)
+      .set({
+        status: 'completed',
+        total_evaluated: totals.evaluated,
+        total_passed: totals.passed,
+        completed_at: new Date().toISOString(),
+      })
+      .where(eq(evaluation_runs.id, runId));
+  }
+
+  async fail(runId: number, errorMessage: string): Promise<void> {
+    await this.db
+      .update(evaluation_runs)
+      .set({ status: 'failed', error_message: errorMessage, completed_at: new Date().toISOString() })
+      .where(eq(evaluation_runs.id, runId));
+  }
+
+  async get(runId: number): Promise<EvaluationRun | null> {
+    const [run] = await this.db.select().from(evaluation_runs).where(eq(evaluation_runs.id, runId)).limit(1);
+    return run ?? null;
+  }
+
+  async list(limit = 20): Promise<EvaluationRun[]> {
+    return this.db.select().from(evaluation_runs).orderBy(desc(evaluation_runs.id)).limit(limit);
+  }
+
+  /**
+   * パイプラインの結果をこの実行の結果として記録する
+   */
+  recorder(runId: number): StageResultRecorder {
+    return {
+      record: async (repositoryId, stageId, status, result) => {
+        await this.db
+          .insert(evaluation_results)
+          .values({
+            run_id: runId,
+            repository_id: repositoryId,
+            stage_id: stageId,
+            status,
+            score: result.score,
+            details: result.details,
+          })
+          .onConflictDoUpdate({
+            target: [evaluation_results.run_id, evaluation_results.repository_id, evaluation_results.stage_id],
+            set: {
+              status,
+              score: result.score,
+              details: result.details,
+              evaluated_at: sql`(datetime('now'))`,
+            },
+          });
+      },
+    };
+  }
+
+  async getResults(runId: number): Promise<EvaluationResultRow[]> {
+    return this.db
+      .select({
+        repository_id: evaluation_results.repository_id,
+        full_name: repositories.full_name,
+        stage: filtering_stages.name,
+        order_index: filtering_stages.order_index,
+        status: evaluation_results.status,
+        score: evaluation_results.score,
+      })
+      .from(evaluation_results)
+      .innerJoin(repositories, eq(repositories.id, evaluation_results.repository_id))
+      .innerJoin(filtering_stages, eq(filtering_stages.id, evaluation_results.stage_id))
+      .where(eq(evaluation_results.run_id, runId))
+      .orderBy(asc(evaluation_results.repository_id), asc(filtering_stages.order_index));
+  }
+}
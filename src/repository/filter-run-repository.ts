@@ -0,0 +1,73 @@
+import { desc, eq, sql } from 'drizzle-orm';
+import { filter_runs, repository_filter_status } from '../../drizzle/schema.js';
+import { createLogger } from '../logging/logger.js';
+import type { FilterRun, InsertFilterRun, StageResultRecorder } from '../types/index.js';
+import type { StellarDatabase } from './database.js';
+
+const logger = createLogger('FilterRunRepository');
+
+/**
+ * filter_runs は収集時のパイプライン実行ごとに基準とパイプラインのバージョンのスナップショットを持つ
+ * repository_filter_status の行はいずれかの実行に属し、同じ実行・リポジトリ・ステージの結果は上書きされる
+ * 集計やエクスポートでは、リポジトリごとに最新の実行の結果だけを返す latest_filter_status ビューを読む
+ */
+export class FilterRunRepository {
+  constructor(private db: StellarDatabase) {}
+
+  async create(run: InsertFilterRun): Promise<FilterRun> {
+    const [created] = await this.db.insert(filter_runs).values(run).returning();
+
+    if (!created) {
+      throw new Error('Failed to create filter run');
+    }
+    logger.info(`Created filter run: ${created.id}`, { batchId: created.batch_id });
+    return created;
+  }
+
+  /**
+   * バッチのフィルター実行を返す。バッチを再開したときは同じ実行に結果を書き込む
+   */
+  async findOrCreateForBatch(batchId: number, run: Omit<InsertFilterRun, 'batch_id'>): Promise<FilterRun> {
+    const [existing] = await this.db
+      .select()
+      .from(filter_runs)
+      .where(eq(filter_runs.batch_id, batchId))
+      .orderBy(desc(filter_runs.id))
+      .limit(1);
+
+    return existing ?? this.create({ ...run, batch_id: batchId });
+  }
+
+  async get(runId: number): Promise<FilterRun | null> {
+    const [run] = await this.db.select().from(filter_runs).where(eq(filter_runs.id, runId)).limit(1);
+    return run ?? null;
+  }
+
+  /**
+   * パイプラインの結果をこの実行の結果として repository_filter_status に記録する
+   */
+  recorder(runId: number): StageResultRecorder {
+    return {
+      record: async (repositoryId, stageId, status, result) => {
+        await this.db
+          .insert(repository_filter_status)
+          .values({
+            run_id: runId,
+            repository_id: repositoryId,
+            stage_id: stageId,
+            status,
+            score: result.score,
+            details: result.details,
+          })
+          .onConflictDoUpdate({
+            target: [
+              repository_filter_status.repository_id,
+              repository_filter_status.run_id,
+              repository_filter_status.stage_id,
+            ],
+            set: { status, score: result.score, details: result.details, evaluated_at: sql`(datetime('now'))` },
+          });
+      },
+    };
+  }
+}
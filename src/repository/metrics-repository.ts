@@ -0,0 +1,47 @@
+import { asc, desc, eq } from 'drizzle-orm';
+import { repository_metrics } from '../../drizzle/schema.js';
+import { createLogger } from '../logging/logger.js';
+import type { InsertRepositoryMetrics, RepositoryMetrics } from '../types/index.js';
+import type { StellarDatabase } from './database.js';
+
+const logger = createLogger('MetricsRepository');
+
+/**
+ * repository_metrics は時系列テーブルのため、収集ごとに新しい行を追加し
+ * 最新の行を現在値として扱う
+ */
+export class MetricsRepository {
+  constructor(private db: StellarDatabase) {}
+
+  async insert(metrics: InsertRepositoryMetrics): Promise<void> {
+    await this.db.insert(repository_metrics).values(metrics);
+    logger.debug(`Stored metrics for repository ${metrics.repository_id}`);
+  }
+
+  async getLatest(repositoryId: number): Promise<RepositoryMetrics | null> {
+    const [latest] = await this.db
+      .select()
+      .from(repository_metrics)
+      .where(eq(repository_metrics.repository_id, repositoryId))
+      .orderBy(desc(repository_metrics.collected_at), desc(repository_metrics.id))
+      .limit(1);
+
+    return latest ?? null;
+  }
+
+  /**
+   * リポジトリごとの最新の行（getLatest と同じ順序で最後の行を最新とする）
+   */
+  async getLatestForAll(): Promise<Map<number, RepositoryMetrics>> {
+    const rows = await this.db
+      .select()
+      .from(repository_metrics)
+      .orderBy(asc(repository_metrics.repository_id), asc(repository_metrics.collected_at), asc(repository_metrics.id));
+
+    const latest = new Map<number, RepositoryMetrics>();
+    for (const row of rows) {
+      latest.set(row.repository_id, row);
+    }
+    return latest;
+  }
+}
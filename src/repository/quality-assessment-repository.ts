@@ -0,0 +1,36 @@
+import { asc, eq, sql } from 'drizzle-orm';
+import { quality_assessments } from '../../drizzle/schema.js';
+import { createLogger } from '../logging/logger.js';
+import type { InsertQualityAssessment, QualityAssessment } from '../types/index.js';
+import type { StellarDatabase } from './database.js';
+
+const logger = createLogger('QualityAssessmentRepository');
+
+/**
+ * quality_assessments はフィルター実行・リポジトリごとに1行で、評価し直すと上書きされる
+ */
+export class QualityAssessmentRepository {
+  constructor(private db: StellarDatabase) {}
+
+  async upsert(assessments: InsertQualityAssessment[]): Promise<void> {
+    for (const assessment of assessments) {
+      const { run_id, repository_id, ...scores } = assessment;
+      await this.db
+        .insert(quality_assessments)
+        .values(assessment)
+        .onConflictDoUpdate({
+          target: [quality_assessments.run_id, quality_assessments.repository_id],
+          set: { ...scores, assessed_at: sql`(datetime('now'))` },
+        });
+    }
+    logger.debug(`Stored ${assessments.length} quality assessments`);
+  }
+
+  async listForRun(runId: number): Promise<QualityAssessment[]> {
+    return this.db
+      .select()
+      .from(quality_assessments)
+      .where(eq(quality_assessments.run_id, runId))
+      .orderBy(asc(quality_assessments.overall_rank), asc(quality_assessments.repository_id));
+  }
+}
@@ -0,0 +1,84 @@
+import { and, asc, eq, gte, inArray, lte, max } from 'drizzle-orm';
+import { batch_repositories, repository_snapshots } from '../../drizzle/schema.js';
+import { createLogger } from '../logging/logger.js';
+import type { InsertRepositorySnapshot, RepositorySnapshot } from '../types/index.js';
+import type { StellarDatabase } from './database.js';
+
+const logger = createLogger('SnapshotRepository');
+
+export interface SnapshotRange {
+  from?: string;
+  to?: string;
+}
+
+export interface SnapshotCohort {
+  repositoryIds?: number[];
+  // 指定したバッチに含まれるリポジトリ
+  batchId?: number;
+}
+
+/**
+ * repository_snapshots は収集・リフレッシュのたびに基本メトリクスを追記する時系列テーブル
+ * 日付のみ（YYYY-MM-DD）の指定はその日の終わり（UTC）として扱う
+ */
+export class SnapshotRepository {
+  constructor(private db: StellarDatabase) {}
+
+  async insert(snapshot: InsertRepositorySnapshot): Promise<void> {
+    await this.db.insert(repository_snapshots).values(snapshot);
+    logger.debug(`Stored snapshot for repository ${snapshot.repository_id}`);
+  }
+
+  /**
+   * リポジトリのスナップショットを古い順に返す（成長曲線用）
+   */
+  async getSeries(repositoryId: number, range: SnapshotRange = {}): Promise<RepositorySnapshot[]> {
+    const conditions = [eq(repository_snapshots.repository_id, repositoryId)];
+    if (range.from) conditions.push(gte(repository_snapshots.captured_at, toInstant(range.from, 'start')));
+    if (range.to) conditions.push(lte(repository_snapshots.captured_at, toInstant(range.to, 'end')));
+
+    return this.db
+      .select()
+      .from(repository_snapshots)
+      .where(and(...conditions))
+      .orderBy(asc(repository_snapshots.captured_at), asc(repository_snapshots.id));
+  }
+
+  /**
+   * 指定時点におけるコホートの状態として、各リポジトリのその時点以前で最新のスナップショットを返す
+   */
+  async getCohortAsOf(asOf: string, cohort: SnapshotCohort = {}): Promise<RepositorySnapshot[]> {
+    const conditions = [lte(repository_snapshots.captured_at, toInstant(asOf, 'end'))];
+
+    if (cohort.repositoryIds) {
+      conditions.push(inArray(repository_snapshots.repository_id, cohort.repositoryIds));
+    }
+    if (cohort.batchId !== undefined) {
+      const members = this.db
+        .select({ repository_id: batch_repositories.repository_id })
+        .from(batch_repositories)
+        .where(eq(batch_repositories.batch_id, cohort.batchId));
+      conditions.push(inArray(repository_snapshots.repository_id, members));
+    }
+
+    // スナップショットは取得時刻順に追記されるため、ID の最大値がその時点の最新
+    const latest = this.db
+      .select({ id: max(repository_snapshots.id) })
+      .from(repository_snapshots)
+      .where(and(...conditions))
+      .groupBy(repository_snapshots.repository_id);
+
+    return this.db
+      .select()
+      .from(repository_snapshots)
+      .where(inArray(repository_snapshots.id, latest))
+      .orderBy(asc(repository_snapshots.repository_id));
+  }
+}
+
+function toInstant(value: string, boundary: 'start' | 'end'): string {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return boundary === 'start' ? `${value}T00:00:00.000Z` : `${value}T23:59:59.999Z`;
+  }
+  return new Date(value).toISOString();
+}
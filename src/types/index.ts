@@ -1,13 +1,18 @@
 import type { InferInsertModel, InferSelectModel } from 'drizzle-orm';
 import type {
+  api_response_cache,
   batch_repositories,
   collection_batches,
+  evaluation_results,
+  evaluation_runs,
+  filter_runs,
   filtering_stages,
   quality_assessments,
   repositories,
   repository_filter_status,
   repository_metrics,
-} from '../../drizzle/schema';
+  repository_snapshots,
+} from '../../drizzle/schema.js';
 
 // Database model types
 export type Repository = InferSelectModel<typeof repositories>;
@@ -31,6 +36,21 @@ export type InsertCollectionBatch = InferInsertModel<typeof collection_batches>;
 export type BatchRepository = InferSelectModel<typeof batch_repositories>;
 export type InsertBatchRepository = InferInsertModel<typeof batch_repositories>;
 
+export type RepositorySnapshot = InferSelectModel<typeof repository_snapshots>;
+export type InsertRepositorySnapshot = InferInsertModel<typeof repository_snapshots>;
+
+export type ApiResponseCacheEntry = InferSelectModel<typeof api_response_cache>;
+export type InsertApiResponseCacheEntry = InferInsertModel<typeof api_response_cache>;
+
+export type EvaluationRun = InferSelectModel<typeof evaluation_runs>;
+export type InsertEvaluationRun = InferInsertModel<typeof evaluation_runs>;
+
+export type EvaluationResult = InferSelectModel<typeof evaluation_results>;
+export type InsertEvaluationResult = InferInsertModel<typeof evaluation_results>;
+
+export type FilterRun = InferSelectModel<typeof filter_runs>;
+export type InsertFilterRun = InferInsertModel<typeof filter_runs>;
+
 // Filter result types
 export interface PopularityFilterDetails {
   checks: {
@@ -43,33 +63,71 @@ export interface PopularityFilterDetails {
   forks_count: number | null;
   archived: boolean | null;
   disabled: boolean | null;
+  scoring: ScoreBreakdown;
   [key: string]: unknown;
 }
 
 export interface ActivityFilterDetails {
   checks: {
     contributors: boolean;
+    commits: boolean;
     recent_activity: boolean;
     push_activity: boolean;
   };
-  contributors_count: number;
+  // null は件数が未収集（エンリッチメント無効、またはAPIが件数を返さない）
+  contributors_count: number | null;
+  commits_count: number | null;
   last_push_days: number | null;
   last_update_days: number;
+  scoring: ScoreBreakdown;
   [key: string]: unknown;
 }
 
+// Community health files detected for a repository (null when undetermined)
+export interface CommunityHealthFlags {
+  has_contributing_guide: boolean | null;
+  has_code_of_conduct: boolean | null;
+  has_security_policy: boolean | null;
+  has_issue_template: boolean | null;
+  has_pull_request_template: boolean | null;
+  has_ci: boolean | null;
+  has_tests: boolean | null;
+}
+
 export interface QualityFilterDetails {
   checks: {
     has_readme: boolean;
     has_license: boolean;
+    readme_quality: boolean;
+    issue_close_time: boolean;
     documentation_quality: boolean;
   };
-  readme_score: number;
+  readme_score: number | null;
   license_name: string | null;
   has_description: boolean;
+  community_health: CommunityHealthFlags;
+  community_health_score: number | null;
+  median_issue_close_time_days: number | null;
+  scoring: ScoreBreakdown;
   [key: string]: unknown;
 }
 
+// Score breakdown recorded by the scored stages (popularity, activity, quality)
+export interface ComponentScore {
+  // null when the metric was not collected
+  value: number | null;
+  weight: number;
+  lower_is_better: boolean;
+  normalization: ResolvedNormalization;
+  // null when the component was left out of the weighted average
+  score: number | null;
+}
+
+export interface ScoreBreakdown {
+  model: string;
+  components: Record<string, ComponentScore>;
+}
+
 export interface FilterErrorDetails {
   error: string;
   skipped?: boolean;
@@ -113,9 +171,22 @@ export interface FilterStageResult {
   details: FilterDetails;
 }
 
+export type StageStatus = 'pending' | 'passed' | 'failed' | 'skipped';
+
+export interface StageResultRecorder {
+  record(
+    repositoryId: number,
+    stageId: number,
+    status: StageStatus,
+    result: { score: number; details: FilterDetails },
+  ): Promise<void>;
+}
+
 export interface FilteringSummary {
   repository: number;
   stages: FilterStageResult[];
+  // 全ステージを通過したか（パイプラインのモードに関係なく同じ基準）
+  passed: boolean;
 }
 
 // GitHub API raw response types (from GitHub API)
@@ -194,6 +265,106 @@ export interface GitHubRepository {
   disabled: boolean;
 }
 
+// GitHub GraphQL raw response types
+export interface GitHubGraphQLRepositoryRaw {
+  databaseId?: number | null;
+  nameWithOwner?: string;
+  name?: string;
+  owner?: { login?: string; __typename?: string } | null;
+  description?: string | null;
+  primaryLanguage?: { name?: string } | null;
+  languages?: { edges?: ({ size?: number; node?: { name?: string } | null } | null)[] | null } | null;
+  licenseInfo?: { name?: string; spdxId?: string | null } | null;
+  homepageUrl?: string | null;
+  repositoryTopics?: { nodes?: ({ topic?: { name?: string } | null } | null)[] | null } | null;
+  createdAt?: string;
+  updatedAt?: string;
+  pushedAt?: string | null;
+  stargazerCount?: number;
+  forkCount?: number;
+  watchers?: { totalCount?: number } | null;
+  diskUsage?: number | null;
+  issues?: { totalCount?: number } | null;
+  pullRequests?: { totalCount?: number } | null;
+  releases?: { totalCount?: number } | null;
+  hasIssuesEnabled?: boolean;
+  hasProjectsEnabled?: boolean;
+  hasWikiEnabled?: boolean;
+  isArchived?: boolean;
+  isDisabled?: boolean;
+  defaultBranchRef?: { target?: { history?: { totalCount?: number } | null } | null } | null;
+}
+
+// Metrics only available through GraphQL, stored alongside the transformed repository
+export interface GitHubRepositoryExtraMetrics {
+  languages: Record<string, number>;
+  license_spdx_id: string | null;
+  commits_count: number | null;
+  releases_count: number;
+}
+
+export interface GitHubRepositoryDetails {
+  repository: GitHubRepository;
+  metrics: GitHubRepositoryExtraMetrics;
+}
+
+// Exact list counts derived from pagination headers
+export interface RepositoryActivityCounts {
+  contributors_count: number | null;
+  commits_count: number | null;
+  branches_count: number | null;
+  tags_count: number | null;
+}
+
+// Community profile files reported by GitHub (GET /repos/{owner}/{repo}/community/profile)
+export interface GitHubCommunityProfile {
+  health_percentage: number | null;
+  files: {
+    contributing: boolean;
+    code_of_conduct: boolean;
+    issue_template: boolean;
+    pull_request_template: boolean;
+  };
+}
+
+// Paths of the default-branch tree; truncated when GitHub cut the listing short
+export interface GitHubRepositoryTree {
+  paths: string[];
+  truncated: boolean;
+}
+
+// Recent issues and pull requests sampled for responsiveness metrics
+export interface IssueActivityResponse {
+  author: string | null;
+  author_is_bot: boolean;
+  created_at: string;
+}
+
+export interface IssueActivityItem {
+  kind: 'issue' | 'pull_request';
+  author: string | null;
+  author_is_bot: boolean;
+  created_at: string;
+  closed_at: string | null;
+  merged_at: string | null;
+  // Comments and reviews in chronological order
+  responses: IssueActivityResponse[];
+}
+
+export interface GitHubGraphQLActorRaw {
+  login?: string;
+  __typename?: string;
+}
+
+export interface GitHubGraphQLIssueActivityRaw {
+  createdAt?: string;
+  closedAt?: string | null;
+  mergedAt?: string | null;
+  author?: GitHubGraphQLActorRaw | null;
+  comments?: { nodes?: ({ createdAt?: string; author?: GitHubGraphQLActorRaw | null } | null)[] | null } | null;
+  reviews?: { nodes?: ({ createdAt?: string; author?: GitHubGraphQLActorRaw | null } | null)[] | null } | null;
+}
+
 // Filtering criteria types
 export interface PopularityCriteria {
   min_stars: number;
@@ -221,6 +392,39 @@ export interface FinalSelectionCriteria {
   top_percentile: number;
 }
 
+// Scoring model types
+export type NormalizationType = 'linear' | 'log' | 'percentile' | 'sigmoid';
+
+export interface NormalizationSpec {
+  type: NormalizationType;
+  // linear / log: range mapped onto 0..1 (defaults to the stage's range for the component)
+  min?: number;
+  max?: number;
+  // sigmoid: value scored 0.5 and slope at that point
+  midpoint?: number;
+  steepness?: number;
+}
+
+// Normalization with every default filled in, as recorded in the stage details
+export interface ResolvedNormalization extends NormalizationSpec {
+  // percentile: number of repositories in the cohort
+  cohort_size?: number;
+}
+
+export interface ScoringComponentSpec {
+  weight?: number;
+  normalization?: NormalizationSpec;
+}
+
+export type ScoringStage = 'popularity' | 'activity' | 'quality';
+
+export interface ScoringModel {
+  name?: string;
+  popularity?: Record<string, ScoringComponentSpec>;
+  activity?: Record<string, ScoringComponentSpec>;
+  quality?: Record<string, ScoringComponentSpec>;
+}
+
 export type FilterCriteria = PopularityCriteria | ActivityCriteria | QualityCriteria | FinalSelectionCriteria;
 
 // Collection status types
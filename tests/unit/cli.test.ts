@@ -0,0 +1,134 @@
+import { mkdtemp, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { collectCommand } from '../../src/cli/commands/collect.js';
+import { runCli } from '../../src/cli/index.js';
+import {
+  CliUsageError,
+  EXIT_CODES,
+  formatUsage,
+  integerOption,
+  loadCriteria,
+  parseCommandArgs,
+} from '../../src/cli/options.js';
+import { DEFAULT_CRITERIA } from '../../src/core/collection-config.js';
+
+describe('cli', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  describe('正常系', () => {
+    it('コマンドのオプションと共通オプションを解釈する', () => {
+      const { values, positionals } = parseCommandArgs(collectCommand, ['-q', 'language:go', '--db', 'test.db']);
+
+      expect(values.query).toBe('language:go');
+      expect(values.db).toBe('test.db');
+      expect(positionals).toEqual([]);
+    });
+
+    it('基準ファイルの値をステージごとに既定値へ上書きする', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'stellar-cli-'));
+      const path = join(dir, 'criteria.json');
+      await writeFile(path, JSON.stringify({ popularity: { min_stars: 1000 } }));
+
+      const criteria = await loadCriteria(path);
+
+      expect(criteria.popularity).toEqual({ ...DEFAULT_CRITERIA.popularity, min_stars: 1000 });
+      expect(criteria.quality).toEqual(DEFAULT_CRITERIA.quality);
+    });
+
+    it('--helpでは使い方を表示して0で終了する', async () => {
+      const info = vi.spyOn(console, 'info').mockImplementation(() => undefined);
+
+      await expect(runCli(['collect', '--help'])).resolves.toBe(EXIT_CODES.success);
+      expect(info).toHaveBeenCalledWith(formatUsage(collectCommand));
+    });
+  });
+
+  describe('異常系', () => {
+    it('未知のコマンドとオプションは終了コード2になる', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await expect(runCli(['unknown'])).resolves.toBe(EXIT_CODES.usage);
+      await expect(runCli(['collect', '--bogus'])).resolves.toBe(EXIT_CODES.usage);
+    });
+
+    it('数値でないオプションはCliUsageErrorになる', () => {
+      expect(() => integerOption({ limit: 'ten' }, 'limit')).toThrow(CliUsageError);
+      expect(() => integerOption({ limit: '-1' }, 'limit')).toThrow(CliUsageError);
+    });
+
+    it.each([
+      ['--batch-size', '0'],
+      ['--concurrency', '0'],
+      ['--limit', '0'],
+      ['--batch-size', '2.5'],
+    ])('collect の %s %s は処理を始める前に終了コード2になる', async (flag, value) => {
+      vi.stubEnv('GITHUB_TOKEN', 'test-token');
+      const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await expect(runCli(['collect', '--profile', 'memory', flag, value])).resolves.toBe(EXIT_CODES.usage);
+      expect(error).toHaveBeenCalledWith(expect.stringContaining(`${flag} must be a positive integer`));
+    });
+
+    it.each([
+      ['COLLECTION_BATCH_SIZE', '0'],
+      ['COLLECTION_CONCURRENCY', 'four'],
+      ['MAX_REPOSITORIES', '-5'],
+    ])('環境変数 %s=%s は終了コード2になる', async (name, value) => {
+      vi.stubEnv('GITHUB_TOKEN', 'test-token');
+      vi.stubEnv(name, value);
+      const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await expect(runCli(['collect', '--profile', 'memory'])).resolves.toBe(EXIT_CODES.usage);
+      expect(error).toHaveBeenCalledWith(expect.stringContaining(`${name} must be a positive integer`));
+    });
+
+    it.each([
+      ['--query', ['--query', 'language:go'], '--list cannot be combined with --query'],
+      [
+        '複数の Tier',
+        ['--config', 'config/collection.example.yaml'],
+        '--list cannot be combined with a multi-tier config',
+      ],
+    ])('--list と %s は併用できず終了コード2になる', async (_name, args, message) => {
+      vi.stubEnv('GITHUB_TOKEN', 'test-token');
+      const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await expect(runCli(['collect', '--profile', 'memory', '--list', 'repos.txt', ...args])).resolves.toBe(
+        EXIT_CODES.usage,
+      );
+      expect(error).toHaveBeenCalledWith(expect.stringContaining(message));
+    });
+
+    it('0 の件数は refresh でも終了コード2になる', async () => {
+      vi.stubEnv('GITHUB_TOKEN', 'test-token');
+      vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await expect(runCli(['refresh', '--profile', 'memory', '--batch-size', '0'])).resolves.toBe(EXIT_CODES.usage);
+    });
+
+    it('未知のステージを含む基準ファイルはConfigValidationErrorになる', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'stellar-cli-'));
+      const path = join(dir, 'criteria.json');
+      await writeFile(path, JSON.stringify({ popularty: { min_stars: 1000 } }));
+
+      await expect(loadCriteria(path)).rejects.toThrow('criteria.popularty is not a known option');
+    });
+  });
+
+  describe('エッジケース', () => {
+    it('基準ファイルを指定しなければ既定値を使う', async () => {
+      await expect(loadCriteria(undefined)).resolves.toBe(DEFAULT_CRITERIA);
+    });
+
+    it('コマンドなしでは使い方を表示して終了コード2になる', async () => {
+      vi.spyOn(console, 'info').mockImplementation(() => undefined);
+
+      await expect(runCli([])).resolves.toBe(EXIT_CODES.usage);
+    });
+  });
+});
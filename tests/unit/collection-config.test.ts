@@ -0,0 +1,221 @@
+import { mkdtemp, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import {
+  ConfigValidationError,
+  DEFAULT_CRITERIA,
+  loadCollectionConfig,
+  parseCollectionConfig,
+  resolveTierConfigs,
+  validateCollectionConfig,
+} from '../../src/core/collection-config.js';
+
+const validConfig = () => ({
+  query: 'language:typescript stars:>100',
+  criteria: structuredClone(DEFAULT_CRITERIA),
+});
+
+const issuesOf = (data: unknown): string[] => {
+  try {
+    parseCollectionConfig(data);
+  } catch (error) {
+    if (error instanceof ConfigValidationError) return error.issues;
+    throw error;
+  }
+  return [];
+};
+
+describe('collection-config', () => {
+  describe('正常系', () => {
+    it('省略した項目に既定値を補う', () => {
+      const { config, tiers } = parseCollectionConfig(validConfig(), 'collection.json');
+
+      expect(config).toEqual({
+        query: 'language:typescript stars:>100',
+        maxRepositories: 1000,
+        batchSize: 100,
+        concurrency: 4,
+        detailsSource: 'search',
+        pipelineMode: 'short-circuit',
+        criteria: DEFAULT_CRITERIA,
+        configSource: 'collection.json',
+      });
+      expect(tiers).toEqual([]);
+    });
+
+    it('YAMLファイルを読み込める', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'stellar-config-'));
+      const path = join(dir, 'collection.yaml');
+      await writeFile(
+        path,
+        [
+          'query: "language:go"',
+          'maxRepositories: 50',
+          'criteria:',
+          ...Object.entries(DEFAULT_CRITERIA).flatMap(([stage, fields]) => [
+            `  ${stage}:`,
+            ...Object.entries(fields).map(([key, value]) => `    ${key}: ${value}`),
+          ]),
+        ].join('\n'),
+      );
+
+      const { config } = await loadCollectionConfig(path);
+
+      expect(config.query).toBe('language:go');
+      expect(config.maxRepositories).toBe(50);
+      expect(config.configSource).toBe(path);
+    });
+
+    it('Tierごとにクエリ・収集数・基準の上書きを適用する', () => {
+      const plan = parseCollectionConfig({
+        ...validConfig(),
+        tiers: [
+          {
+            id: 's-tier',
+            name: 'S-Tier',
+            query: 'stars:>=20000',
+            maxRepositories: 100,
+            criteria: { popularity: { min_stars: 20000 } },
+          },
+          { id: 'a-tier', query: 'stars:5000..19999', maxRepositories: 300 },
+        ],
+      });
+
+      const [sTier, aTier] = resolveTierConfigs(plan);
+
+      expect(sTier?.query).toBe('stars:>=20000');
+      expect(sTier?.maxRepositories).toBe(100);
+      expect(sTier?.tier).toEqual({ id: 's-tier', name: 'S-Tier' });
+      expect(sTier?.criteria.popularity).toEqual({ ...DEFAULT_CRITERIA.popularity, min_stars: 20000 });
+      expect(aTier?.tier).toEqual({ id: 'a-tier', name: 'a-tier' });
+      expect(aTier?.criteria).toEqual(DEFAULT_CRITERIA);
+    });
+
+    it('Tierのスコアリングモデルは指標ごとに基本のモデルを上書きする', () => {
+      const base = validConfig();
+      const plan = parseCollectionConfig({
+        ...base,
+        criteria: {
+          ...base.criteria,
+          scoring: { name: 'log-stars', popularity: { stars: { weight: 2, normalization: { type: 'log' } } } },
+        },
+        tiers: [
+          {
+            id: 'ranked',
+            query: 'stars:>1000',
+            maxRepositories: 10,
+            criteria: { scoring: { popularity: { stars: { normalization: { type: 'percentile' } } } } },
+          },
+        ],
+      });
+
+      expect(resolveTierConfigs(plan)[0]?.criteria.scoring).toEqual({
+        name: 'log-stars',
+        popularity: { stars: { weight: 2, normalization: { type: 'percentile' } } },
+      });
+    });
+  });
+
+  describe('異常系', () => {
+    it('範囲外の値をパス付きで報告する', () => {
+      const config = validConfig();
+      config.criteria.activity.recent_activity_days = 0;
+      config.criteria.quality.min_readme_quality = 1.5;
+
+      expect(issuesOf(config)).toEqual([
+        'criteria.activity.recent_activity_days must be > 0',
+        'criteria.quality.min_readme_quality must be <= 1',
+      ]);
+    });
+
+    it('パイプラインのモードを検証する', () => {
+      expect(parseCollectionConfig({ ...validConfig(), pipelineMode: 'evaluate-all' }).config.pipelineMode).toBe(
+        'evaluate-all',
+      );
+      expect(issuesOf({ ...validConfig(), pipelineMode: 'all' })).toEqual([
+        'pipelineMode must be one of short-circuit, evaluate-all',
+      ]);
+    });
+
+    it('未知のキーと型の誤りを報告する', () => {
+      expect(issuesOf({ ...validConfig(), maxRepos: 10, batchSize: '100' })).toEqual([
+        expect.stringMatching(/^maxRepos is not a known option/),
+        'batchSize must be a number',
+      ]);
+    });
+
+    it('基本のcriteriaに欠けている項目を報告する', () => {
+      const config = validConfig() as { query: string; criteria: Record<string, unknown> };
+      config.criteria.quality = undefined;
+      config.criteria.activity = { min_contributors: 5 };
+
+      expect(issuesOf(config)).toEqual([
+        'criteria.activity.min_commits is required',
+        'criteria.activity.recent_activity_days is required',
+        'criteria.activity.min_push_activity_days is required',
+        'criteria.quality is required',
+      ]);
+    });
+
+    it('Tierの重複したIDと不正な上書きを報告する', () => {
+      const { query: _query, ...withoutQuery } = validConfig();
+
+      expect(
+        issuesOf({
+          ...withoutQuery,
+          tiers: [
+            { id: 'a', query: 'stars:>1', maxRepositories: 10 },
+            { id: 'a', query: 'stars:>2', maxRepositories: 10, criteria: { quality: { has_license: 'yes' } } },
+          ],
+        }),
+      ).toEqual([
+        'tiers[1].id must be unique ("a" is used more than once)',
+        'tiers[1].criteria.quality.has_license must be a boolean',
+      ]);
+    });
+  });
+
+  describe('エッジケース', () => {
+    it('スコアリングモデルの未知の指標と正規化のパラメータを報告する', () => {
+      const config = validConfig();
+
+      expect(
+        issuesOf({
+          ...config,
+          criteria: {
+            ...config.criteria,
+            scoring: {
+              popularity: { watchers: { weight: 1 }, stars: { weight: -1 } },
+              activity: { open_issues: { normalization: { type: 'log', min: 10, max: 5, midpoint: 1 } } },
+              quality: { topics: { normalization: { type: 'zscore' } } },
+            },
+          },
+        }),
+      ).toEqual([
+        expect.stringMatching(/^criteria\.scoring\.popularity\.watchers is not a known option/),
+        'criteria.scoring.popularity.stars.weight must be >= 0',
+        'criteria.scoring.activity.open_issues.normalization.midpoint does not apply to log normalization',
+        'criteria.scoring.activity.open_issues.normalization.max must be > 10',
+        'criteria.scoring.quality.topics.normalization.type must be one of linear, log, percentile, sigmoid',
+      ]);
+    });
+
+    it('フラグで上書きした後の設定も同じ規則で検証する', () => {
+      const { config } = parseCollectionConfig(validConfig());
+
+      expect(validateCollectionConfig({ ...config, batchSize: 10 }, 'command line').batchSize).toBe(10);
+      expect(() => validateCollectionConfig({ ...config, batchSize: 0, concurrency: 0 }, 'command line')).toThrow(
+        expect.objectContaining({ issues: ['batchSize must be > 0', 'concurrency must be > 0'] }),
+      );
+    });
+
+    it('Tierがなければqueryは必須', () => {
+      expect(issuesOf({ criteria: DEFAULT_CRITERIA })).toEqual(['query is required unless tiers are given']);
+    });
+
+    it('未対応の拡張子はConfigValidationErrorになる', async () => {
+      await expect(loadCollectionConfig('collection.toml')).rejects.toThrow(ConfigValidationError);
+    });
+  });
+});
@@ -0,0 +1,280 @@
+import { eq } from 'drizzle-orm';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  collection_batches,
+  filter_runs,
+  latest_filter_status,
+  repositories,
+  repository_filter_status,
+  repository_snapshots,
+} from '../../drizzle/schema.js';
+import { DEFAULT_CRITERIA } from '../../src/core/collection-config.js';
+import { type CollectionConfig, RepositoryCollector } from '../../src/core/collector.js';
+import { PIPELINE_VERSION } from '../../src/core/filtering/pipeline.js';
+import { configureLogging } from '../../src/logging/logger.js';
+import { MEMORY_DATABASE_PATH, type StellarDatabase, openDatabase } from '../../src/repository/database.js';
+import { FilterRunRepository } from '../../src/repository/filter-run-repository.js';
+
+// tests/fixtures/github に記録したレスポンスを再生し、インメモリのデータベースに収集する
+const config: CollectionConfig = {
+  query: 'language:typescript stars:>1',
+  maxRepositories: 10,
+  batchSize: 10,
+  concurrency: 1,
+  detailsSource: 'search',
+  enrichment: { counts: false, readme: false, community: false, responsiveness: false },
+  criteria: DEFAULT_CRITERIA,
+};
+
+const replayCollector = (db: StellarDatabase) =>
+  new RepositoryCollector('test-token', db, {
+    transport: { mode: 'replay', fixturesDir: 'tests/fixtures/github' },
+    scheduler: { maxRetries: 0, sleep: vi.fn().mockResolvedValue(undefined) },
+  });
+
+describe('RepositoryCollector', () => {
+  let db: StellarDatabase;
+
+  beforeEach(() => {
+    configureLogging({ level: 'silent' });
+    db = openDatabase(MEMORY_DATABASE_PATH);
+  });
+
+  afterEach(() => {
+    db.$client.close();
+  });
+
+  describe('正常系', () => {
+    it('検索結果を保存し、パイプラインの結果とスナップショットを記録する', async () => {
+      const collector = replayCollector(db);
+      await collector.setupPipeline(config);
+
+      const result = await collector.collectRepositories(config);
+
+      expect(result).toEqual({ batchId: 1, status: 'completed', totalCollected: 2 });
+
+      const stored = await db.select().from(repositories);
+      expect(stored.map((repository) => repository.full_name).sort()).toEqual(['acme/sparse', 'acme/widget']);
+
+      const popularity = await db
+        .select({ repository: repositories.full_name, status: repository_filter_status.status })
+        .from(repository_filter_status)
+        .innerJoin(repositories, eq(repositories.id, repository_filter_status.repository_id))
+        .where(eq(repository_filter_status.stage_id, 1));
+      expect(Object.fromEntries(popularity.map((row) => [row.repository, row.status]))).toEqual({
+        'acme/widget': 'passed',
+        'acme/sparse': 'failed',
+      });
+
+      expect(await db.select().from(repository_snapshots)).toHaveLength(2);
+
+      // evaluation_results と同じく details はオブジェクトとして保存する
+      const [status] = await db.select().from(repository_filter_status).limit(1);
+      expect(status?.details).toHaveProperty('checks');
+    });
+
+    it('検索の総数と最終的な進捗をバッチに書き出す', async () => {
+      const collector = replayCollector(db);
+      const listener = vi.fn();
+      collector.onProgress(listener);
+      await collector.setupPipeline(config);
+
+      const { batchId } = await collector.collectRepositories(config);
+
+      const [batch] = await db.select().from(collection_batches).where(eq(collection_batches.id, batchId));
+      expect(batch?.total_found).toBe(2);
+      expect(batch?.total_collected).toBe(2);
+      expect(batch?.progress).toMatchObject({
+        processed: 2,
+        expected: 2,
+        stages: { basic_popularity: { passed: 1, failed: 1 }, quality_filter: { skipped: 2 } },
+      });
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it('バッチに解決済みの設定を記録する', async () => {
+      const collector = replayCollector(db);
+      await collector.setupPipeline(config);
+
+      const { batchId } = await collector.collectRepositories({
+        ...config,
+        tier: { id: 's-tier', name: 'S-Tier' },
+        configSource: 'config/collection.yaml',
+      });
+
+      const [batch] = await db.select().from(collection_batches).where(eq(collection_batches.id, batchId));
+      expect(batch?.status).toBe('completed');
+      expect(batch?.query_params).toMatchObject({
+        query: config.query,
+        tier: { id: 's-tier', name: 'S-Tier' },
+        config_source: 'config/collection.yaml',
+      });
+    });
+  });
+
+  describe('エッジケース', () => {
+    it('接続ごとにデータベースが分かれる', async () => {
+      const other = openDatabase(MEMORY_DATABASE_PATH);
+      const collector = replayCollector(db);
+      await collector.setupPipeline(config);
+
+      await collector.collectRepositories(config);
+
+      expect(await db.select().from(repositories)).toHaveLength(2);
+      expect(await other.select().from(repositories)).toHaveLength(0);
+      other.$client.close();
+    });
+
+    it('リフレッシュで一時的なエラーになったリポジトリは処理済みにせず、バッチを失敗させる', async () => {
+      // gone は 404、flaky は 500 を返すフィクスチャ。gone を先に処理するよう更新日時をずらす
+      await db.insert(repositories).values(
+        ['gone', 'flaky'].map((name, index) => ({
+          full_name: `acme/${name}`,
+          name,
+          owner: 'acme',
+          created_at: '2024-01-01',
+          updated_at: '2024-01-01',
+          last_updated_at: `2024-01-0${index + 1}T00:00:00.000Z`,
+        })),
+      );
+      const collector = replayCollector(db);
+      await collector.setupPipeline(config);
+
+      await expect(
+        collector.refreshRepositories({ selection: { staleDays: 1 }, batchSize: 1, criteria: DEFAULT_CRITERIA }),
+      ).rejects.toMatchObject({ status: 500 });
+
+      const [batch] = await db.select().from(collection_batches);
+      expect(batch?.status).toBe('failed');
+      // 404 の gone だけが処理済みで、flaky は再開時に再試行される
+      expect(batch?.checkpoint).toEqual({ cursor: null, processed_ids: [1] });
+    });
+
+    it('レート制限のリセット待ち中に中断すると待機を打ち切り、バッチを paused にする', async () => {
+      // throttled は残量 0 を返すフィクスチャ。throttled を先に処理するよう更新日時をずらす
+      await db.insert(repositories).values(
+        ['throttled', 'sparse'].map((name, index) => ({
+          full_name: `acme/${name}`,
+          name,
+          owner: 'acme',
+          created_at: '2024-01-01',
+          updated_at: '2024-01-01',
+          last_updated_at: `2024-01-0${index + 1}T00:00:00.000Z`,
+        })),
+      );
+      // リセット（1700000000）より前の時刻で、sleep はシグナルでしか終わらない
+      const sleep = vi.fn(() => {
+        collector.requestPause();
+        return new Promise<void>(() => undefined);
+      });
+      const collector = new RepositoryCollector('test-token', db, {
+        transport: { mode: 'replay', fixturesDir: 'tests/fixtures/github' },
+        scheduler: { maxRetries: 0, sleep, now: () => 1_699_999_000_000 },
+      });
+      await collector.setupPipeline(config);
+
+      const result = await collector.refreshRepositories({
+        selection: { staleDays: 1 },
+        batchSize: 1,
+        criteria: DEFAULT_CRITERIA,
+      });
+
+      expect(result).toMatchObject({ status: 'paused', totalCollected: 1 });
+      expect(sleep).toHaveBeenCalledTimes(1);
+      const [batch] = await db.select().from(collection_batches);
+      expect(batch?.status).toBe('paused');
+      // 待機していた sparse は再開時に処理する
+      expect(batch?.checkpoint).toEqual({ cursor: null, processed_ids: [1003] });
+    });
+
+    it('中断したコレクターで再開したバッチは、中断されずに最後まで処理する', async () => {
+      await db.insert(repositories).values(
+        ['throttled', 'sparse'].map((name, index) => ({
+          full_name: `acme/${name}`,
+          name,
+          owner: 'acme',
+          created_at: '2024-01-01',
+          updated_at: '2024-01-01',
+          last_updated_at: `2024-01-0${index + 1}T00:00:00.000Z`,
+        })),
+      );
+      // 最初の待機だけが中断要求で打ち切られ、再開後の待機はそのまま終わる
+      const sleep = vi
+        .fn()
+        .mockImplementationOnce(() => {
+          collector.requestPause();
+          return new Promise<void>(() => undefined);
+        })
+        .mockResolvedValue(undefined);
+      const collector = new RepositoryCollector('test-token', db, {
+        transport: { mode: 'replay', fixturesDir: 'tests/fixtures/github' },
+        scheduler: { maxRetries: 0, sleep, now: () => 1_699_999_000_000 },
+      });
+      await collector.setupPipeline(config);
+
+      const paused = await collector.refreshRepositories({
+        selection: { staleDays: 1 },
+        batchSize: 1,
+        criteria: DEFAULT_CRITERIA,
+      });
+      const resumed = await collector.resumeCollection(paused.batchId);
+
+      expect(paused.status).toBe('paused');
+      expect(resumed).toMatchObject({ status: 'completed', totalCollected: 2 });
+    });
+
+    it('全ステージ通過の判定には第2パスの最終選定を含めない', async () => {
+      const [widget] = await db
+        .insert(repositories)
+        .values({
+          full_name: 'acme/widget',
+          name: 'widget',
+          owner: 'acme',
+          created_at: '2024-01-01',
+          updated_at: '2024-01-01',
+        })
+        .returning();
+      const collector = replayCollector(db);
+      await collector.setupPipeline(config);
+
+      // フィルターの 3 ステージは通過し、最終選定では選ばれなかった
+      const filterRuns = new FilterRunRepository(db);
+      const run = await filterRuns.create({ pipeline_version: PIPELINE_VERSION, pipeline_mode: 'short-circuit' });
+      const recorder = filterRuns.recorder(run.id);
+      for (const [stageId, status] of [
+        [1, 'passed'],
+        [2, 'passed'],
+        [3, 'passed'],
+        [4, 'failed'],
+      ] as const) {
+        await recorder.record(widget?.id as number, stageId, status, { score: 0, details: { error: '' } });
+      }
+
+      const result = await collector.refreshRepositories({
+        selection: { passedAllStages: true },
+        batchSize: 10,
+        criteria: DEFAULT_CRITERIA,
+      });
+
+      expect(result).toMatchObject({ status: 'completed', totalCollected: 1 });
+    });
+
+    it('再収集の結果は新しいフィルター実行に記録し、最新のビューには重複させない', async () => {
+      const collector = replayCollector(db);
+      await collector.setupPipeline(config);
+
+      await collector.collectRepositories(config);
+      const { batchId } = await collector.collectRepositories(config);
+
+      const runs = await db.select().from(filter_runs);
+      expect(runs.map((run) => run.batch_id)).toEqual([1, batchId]);
+      expect(runs[1]).toMatchObject({ criteria: DEFAULT_CRITERIA, pipeline_version: PIPELINE_VERSION });
+
+      // 2 リポジトリ × 4 ステージ（第2パスの最終選定を含む） × 2 回
+      expect(await db.select().from(repository_filter_status)).toHaveLength(16);
+      const latest = await db.select().from(latest_filter_status);
+      expect(latest).toHaveLength(8);
+      expect(new Set(latest.map((row) => row.run_id))).toEqual(new Set([runs[1]?.id]));
+    });
+  });
+});
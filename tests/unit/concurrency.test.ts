@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { mapWithConcurrency } from '../../src/core/concurrency.js';
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('mapWithConcurrency', () => {
+  describe('正常系', () => {
+    it('完了順に関わらず入力と同じ順序で結果を返す', async () => {
+      const results = await mapWithConcurrency([30, 10, 20], 3, async (ms) => {
+        await wait(ms);
+        return ms * 2;
+      });
+
+      expect(results).toEqual([60, 20, 40]);
+    });
+
+    it('同時実行数を上限以内に保つ', async () => {
+      let running = 0;
+      let peak = 0;
+
+      await mapWithConcurrency(
+        Array.from({ length: 10 }, (_, i) => i),
+        3,
+        async () => {
+          running++;
+          peak = Math.max(peak, running);
+          await wait(5);
+          running--;
+        },
+      );
+
+      expect(peak).toBe(3);
+    });
+  });
+
+  describe('異常系', () => {
+    it('処理が失敗すると以降の要素を開始せず、実行中の処理を待ってからエラーを投げる', async () => {
+      const started: number[] = [];
+      const finished: number[] = [];
+
+      const mapped = mapWithConcurrency([1, 2, 3, 4, 5], 2, async (value) => {
+        started.push(value);
+        if (value === 1) throw new Error('fetch failed');
+        await wait(10);
+        finished.push(value);
+        return value;
+      });
+
+      await expect(mapped).rejects.toThrow('fetch failed');
+      expect(started).toEqual([1, 2]);
+      expect(finished).toEqual([2]);
+    });
+  });
+
+  describe('エッジケース', () => {
+    it('停止条件を満たすと新しい要素を開始せず、未処理の結果は undefined になる', async () => {
+      let stop = false;
+      const results = await mapWithConcurrency(
+        [1, 2, 3, 4],
+        1,
+        async (value) => {
+          if (value === 2) stop = true;
+          return value;
+        },
+        { shouldStop: () => stop },
+      );
+
+      expect(results).toEqual([1, 2, undefined, undefined]);
+    });
+
+    it('空の入力と0以下の上限を扱える', async () => {
+      expect(await mapWithConcurrency([], 4, async (value) => value)).toEqual([]);
+      expect(await mapWithConcurrency([1, 2], 0, async (value) => value + 1)).toEqual([2, 3]);
+    });
+  });
+});
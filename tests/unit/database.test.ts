@@ -0,0 +1,117 @@
+import Database from 'better-sqlite3';
+import { drizzle } from 'drizzle-orm/better-sqlite3';
+import { readMigrationFiles } from 'drizzle-orm/migrator';
+import { describe, expect, it } from 'vitest';
+import * as schema from '../../drizzle/schema.js';
+import {
+  DEFAULT_DATABASE_PATH,
+  MEMORY_DATABASE_PATH,
+  type StellarDatabase,
+  openDatabase,
+  profilePath,
+  resolveDatabasePath,
+  upgradeDatabase,
+} from '../../src/repository/database.js';
+
+// drizzle-kit push で作られたデータベースを再現するため、適用履歴を残さずに先頭 count 件のマイグレーションを実行する
+const pushedDatabase = (count: number): StellarDatabase => {
+  const sqlite = new Database(MEMORY_DATABASE_PATH);
+  for (const migration of readMigrationFiles({ migrationsFolder: 'drizzle/migrations' }).slice(0, count)) {
+    for (const statement of migration.sql) {
+      sqlite.exec(statement);
+    }
+  }
+  return drizzle(sqlite, { schema });
+};
+
+describe('database', () => {
+  describe('正常系', () => {
+    it('プロファイル名からデータベースファイルを決める', () => {
+      expect(profilePath('study-a')).toBe('data/study-a.db');
+      expect(profilePath('memory')).toBe(MEMORY_DATABASE_PATH);
+    });
+
+    it('引数・環境変数・既定値の順に接続先を解決する', () => {
+      const env = { DATABASE_PATH: '/srv/stellar.db', DATABASE_PROFILE: 'study-b' };
+
+      expect(resolveDatabasePath({ path: 'custom.db', profile: 'study-a' }, env)).toBe('custom.db');
+      expect(resolveDatabasePath({ profile: 'study-a' }, env)).toBe('data/study-a.db');
+      expect(resolveDatabasePath({}, env)).toBe('/srv/stellar.db');
+      expect(resolveDatabasePath({}, { DATABASE_PROFILE: 'study-b' })).toBe('data/study-b.db');
+      expect(resolveDatabasePath({}, {})).toBe(DEFAULT_DATABASE_PATH);
+    });
+  });
+
+  describe('異常系', () => {
+    it('パスとして解釈される文字を含むプロファイル名は拒否する', () => {
+      expect(() => profilePath('../outside')).toThrow('Invalid database profile');
+      expect(() => profilePath('')).toThrow('Invalid database profile');
+    });
+
+    it('どのマイグレーションとも一致しないスキーマは移行しない', () => {
+      const db = drizzle(new Database(MEMORY_DATABASE_PATH), { schema });
+      db.$client.exec('CREATE TABLE unrelated (id integer)');
+
+      expect(() => upgradeDatabase(db)).toThrow('does not match any migration');
+      db.$client.close();
+    });
+  });
+
+  describe('エッジケース', () => {
+    it('push で作られたデータベースは一致するマイグレーションから移行し、既存のフィルター結果を引き継ぐ', () => {
+      // フィルター実行（0010）を追加する前のスキーマ
+      const db = pushedDatabase(10);
+      db.$client.exec(`
+        INSERT INTO repositories (id, full_name, name, owner, created_at, updated_at)
+          VALUES (1, 'acme/widget', 'widget', 'acme', '2024-01-01', '2024-01-01');
+        INSERT INTO filtering_stages (id, name, order_index, criteria) VALUES (1, 'basic_popularity', 1, '{}');
+        INSERT INTO repository_filter_status (repository_id, stage_id, status) VALUES (1, 1, 'failed'), (1, 1, 'passed');
+      `);
+
+      const upgrade = upgradeDatabase(db);
+
+      expect(upgrade).toEqual({
+        baseline: '0009_superb_hammerhead',
+        applied: ['0010_high_maginty', '0011_demonic_agent_zero', '0012_decode_filter_details'],
+      });
+      expect(db.$client.prepare('SELECT pipeline_version FROM filter_runs').all()).toEqual([{ pipeline_version: 0 }]);
+      expect(db.$client.prepare('SELECT run_id, status FROM repository_filter_status').all()).toEqual([
+        { run_id: 1, status: 'passed' },
+      ]);
+      expect(upgradeDatabase(db)).toEqual({ baseline: null, applied: [] });
+      db.$client.close();
+    });
+
+    it('スキーマを変えないデータの移行は、push で作られたデータベースでも適用する', () => {
+      const db = pushedDatabase(12);
+      db.$client.exec(`
+        INSERT INTO repositories (id, full_name, name, owner, created_at, updated_at)
+          VALUES (1, 'acme/widget', 'widget', 'acme', '2024-01-01', '2024-01-01');
+        INSERT INTO filtering_stages (id, name, order_index, criteria) VALUES (1, 'basic_popularity', 1, '{}');
+        INSERT INTO filter_runs (id, pipeline_version, pipeline_mode) VALUES (1, 3, 'short-circuit');
+      `);
+      // 以前の記録は JSON.stringify した文字列を json モードの列に保存していた
+      db.$client
+        .prepare(
+          "INSERT INTO repository_filter_status (run_id, repository_id, stage_id, status, details) VALUES (1, 1, 1, 'passed', ?)",
+        )
+        .run(JSON.stringify(JSON.stringify({ error: '', score: 1 })));
+
+      expect(upgradeDatabase(db)).toEqual({
+        baseline: '0011_demonic_agent_zero',
+        applied: ['0012_decode_filter_details'],
+      });
+      expect(
+        db.select({ details: schema.repository_filter_status.details }).from(schema.repository_filter_status).all(),
+      ).toEqual([{ details: { error: '', score: 1 } }]);
+      db.$client.close();
+    });
+
+    it('マイグレーションで作られたデータベースには適用済みとみなす記録を追加しない', () => {
+      const db = openDatabase(MEMORY_DATABASE_PATH);
+
+      expect(upgradeDatabase(db)).toEqual({ baseline: null, applied: [] });
+      db.$client.close();
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { communityHealthScore, detectCommunityHealth } from '../../../src/core/enrichment/community-health.js';
+import type { GitHubCommunityProfile } from '../../../src/types/index.js';
+
+const profile = (files: Partial<GitHubCommunityProfile['files']> = {}): GitHubCommunityProfile => ({
+  health_percentage: 50,
+  files: {
+    contributing: false,
+    code_of_conduct: false,
+    issue_template: false,
+    pull_request_template: false,
+    ...files,
+  },
+});
+
+describe('detectCommunityHealth', () => {
+  describe('正常系', () => {
+    it('ファイルツリーからガイドライン・テンプレート・CI・テストを検出する', () => {
+      const flags = detectCommunityHealth(profile(), {
+        paths: [
+          '.github',
+          '.github/CONTRIBUTING.md',
+          '.github/ISSUE_TEMPLATE/bug_report.yml',
+          '.github/pull_request_template.md',
+          '.github/workflows/ci.yml',
+          'CODE_OF_CONDUCT.md',
+          'SECURITY.md',
+          'src/index.ts',
+          'tests/index.test.ts',
+        ],
+        truncated: false,
+      });
+
+      expect(flags).toEqual({
+        has_contributing_guide: true,
+        has_code_of_conduct: true,
+        has_security_policy: true,
+        has_issue_template: true,
+        has_pull_request_template: true,
+        has_ci: true,
+        has_tests: true,
+      });
+    });
+
+    it('コミュニティプロファイルで報告されたファイルを検出する', () => {
+      const flags = detectCommunityHealth(profile({ contributing: true, code_of_conduct: true }), {
+        paths: ['README.md', 'src/main.go'],
+        truncated: false,
+      });
+
+      expect(flags.has_contributing_guide).toBe(true);
+      expect(flags.has_code_of_conduct).toBe(true);
+      expect(flags.has_security_policy).toBe(false);
+      expect(flags.has_ci).toBe(false);
+      expect(flags.has_tests).toBe(false);
+    });
+
+    it('テスト設定ファイルや命名規則からテストの存在を検出する', () => {
+      const detect = (path: string) => detectCommunityHealth(null, { paths: [path], truncated: false }).has_tests;
+
+      expect(detect('vitest.config.ts')).toBe(true);
+      expect(detect('packages/core/__tests__/core.ts')).toBe(true);
+      expect(detect('pkg/server/handler_test.go')).toBe(true);
+      expect(detect('pytest.ini')).toBe(true);
+      expect(detect('src/latest.ts')).toBe(false);
+    });
+  });
+
+  describe('エッジケース', () => {
+    it('情報源がない場合はすべて未判定になる', () => {
+      const flags = detectCommunityHealth(null, null);
+
+      expect(Object.values(flags).every((flag) => flag === null)).toBe(true);
+      expect(communityHealthScore(flags)).toBeNull();
+    });
+
+    it('切り詰められたツリーで見つからないファイルは未判定にする', () => {
+      const flags = detectCommunityHealth(null, { paths: ['.github/workflows/ci.yml'], truncated: true });
+
+      expect(flags.has_ci).toBe(true);
+      expect(flags.has_tests).toBeNull();
+      expect(flags.has_security_policy).toBeNull();
+    });
+  });
+});
+
+describe('communityHealthScore', () => {
+  it('判定済みのフラグのみで充足率を計算する', () => {
+    expect(communityHealthScore({ has_ci: true, has_tests: false, has_security_policy: null })).toBe(0.5);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeReadme } from '../../../src/core/enrichment/readme-analyzer.js';
+
+const COMPLETE_README = `# Project
+
+[![CI](https://github.com/test/repo/actions/workflows/ci.yml/badge.svg)](https://github.com/test/repo/actions)
+[![npm](https://img.shields.io/npm/v/repo.svg)](https://www.npmjs.com/package/repo)
+[![coverage](https://codecov.io/gh/test/repo/branch/main/graph/badge.svg)](https://codecov.io/gh/test/repo)
+
+${'A library that does useful things for its users. '.repeat(70)}
+
+## Installation
+
+\`\`\`bash
+npm install repo
+\`\`\`
+
+## Usage
+
+\`\`\`ts
+import { repo } from 'repo';
+repo();
+\`\`\`
+
+## Configuration
+
+\`\`\`json
+{ "enabled": true }
+\`\`\`
+
+## Contributing
+
+See [CONTRIBUTING](CONTRIBUTING.md), the [docs](https://example.com/docs), the [changelog](CHANGELOG.md),
+the [issues](https://github.com/test/repo/issues) and the [discussions](https://github.com/test/repo/discussions).
+
+## License
+
+MIT
+`;
+
+describe('analyzeReadme', () => {
+  describe('正常系', () => {
+    it('すべての要素を備えたREADMEは満点になる', () => {
+      const analysis = analyzeReadme(COMPLETE_README);
+
+      expect(analysis.heading_count).toBe(6);
+      expect(analysis.has_install_section).toBe(true);
+      expect(analysis.has_usage_section).toBe(true);
+      expect(analysis.code_block_count).toBe(3);
+      expect(analysis.badge_count).toBe(3);
+      expect(analysis.link_count).toBeGreaterThanOrEqual(5);
+      expect(analysis.score).toBe(1);
+    });
+
+    it('日本語の見出しとSetext形式の見出しを認識する', () => {
+      const analysis = analyzeReadme('Project\n=======\n\n## インストール\n\nnpm i\n\n## 使い方\n\nrun');
+
+      expect(analysis.heading_count).toBe(3);
+      expect(analysis.has_install_section).toBe(true);
+      expect(analysis.has_usage_section).toBe(true);
+    });
+
+    it('内容が充実するほどスコアが高くなる', () => {
+      const minimal = analyzeReadme('# repo\n\nA tool.');
+      const partial = analyzeReadme('# repo\n\nA tool.\n\n## Install\n\n```\nnpm i repo\n```\n');
+
+      expect(partial.score).toBeGreaterThan(minimal.score);
+      expect(analyzeReadme(COMPLETE_README).score).toBeGreaterThan(partial.score);
+    });
+  });
+
+  describe('エッジケース', () => {
+    it('空のREADMEはスコア0になる', () => {
+      const analysis = analyzeReadme('');
+
+      expect(analysis.score).toBe(0);
+      expect(analysis.length).toBe(0);
+      expect(analysis.heading_count).toBe(0);
+    });
+
+    it('コードブロック内の見出し記号は見出しとして数えない', () => {
+      const analysis = analyzeReadme('# Title\n\n```sh\n# install dependencies\nnpm i\n```\n');
+
+      expect(analysis.heading_count).toBe(1);
+      expect(analysis.has_install_section).toBe(false);
+      expect(analysis.code_block_count).toBe(1);
+    });
+
+    it('バッジ以外の画像はバッジとして数えない', () => {
+      const analysis = analyzeReadme(
+        '![screenshot](docs/screenshot.png)\n![build](https://img.shields.io/badge/build-passing-green)',
+      );
+
+      expect(analysis.badge_count).toBe(1);
+      expect(analysis.link_count).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeResponsiveness } from '../../../src/core/enrichment/responsiveness.js';
+import type { IssueActivityItem, IssueActivityResponse } from '../../../src/types/index.js';
+
+const day = (days: number) => new Date(Date.UTC(2024, 0, 1) + days * 24 * 60 * 60 * 1000).toISOString();
+
+const response = (author: string, days: number, isBot = false): IssueActivityResponse => ({
+  author,
+  author_is_bot: isBot,
+  created_at: day(days),
+});
+
+const item = (overrides: Partial<IssueActivityItem>): IssueActivityItem => ({
+  kind: 'issue',
+  author: 'reporter',
+  author_is_bot: false,
+  created_at: day(0),
+  closed_at: null,
+  merged_at: null,
+  responses: [],
+  ...overrides,
+});
+
+describe('analyzeResponsiveness', () => {
+  describe('正常系', () => {
+    it('クローズ・マージ日数の平均値と中央値を算出する', () => {
+      const metrics = analyzeResponsiveness([
+        item({ closed_at: day(1) }),
+        item({ closed_at: day(2) }),
+        item({ closed_at: day(9) }),
+        item({ kind: 'pull_request', merged_at: day(2), closed_at: day(2) }),
+        item({ kind: 'pull_request', merged_at: day(4), closed_at: day(4) }),
+      ]);
+
+      expect(metrics.avg_issue_close_time_days).toBe(4);
+      expect(metrics.median_issue_close_time_days).toBe(2);
+      expect(metrics.avg_pr_merge_time_days).toBe(3);
+      expect(metrics.median_pr_merge_time_days).toBe(3);
+      expect(metrics.responsiveness_sample_size).toBe(5);
+    });
+
+    it('作成者以外による最初の応答までの日数と応答率を算出する', () => {
+      const metrics = analyzeResponsiveness([
+        item({ responses: [response('reporter', 0.5), response('maintainer', 1)] }),
+        item({ responses: [response('maintainer', 3)] }),
+        item({ responses: [] }),
+        item({ responses: [response('reporter', 1)] }),
+      ]);
+
+      expect(metrics.avg_first_response_time_days).toBe(2);
+      expect(metrics.median_first_response_time_days).toBe(2);
+      expect(metrics.issue_response_rate).toBe(0.5);
+    });
+
+    it('採用率はマージ済みとクローズ済みのプルリクエストのみで算出する', () => {
+      const metrics = analyzeResponsiveness([
+        item({ kind: 'pull_request', merged_at: day(1), closed_at: day(1) }),
+        item({ kind: 'pull_request', merged_at: day(1), closed_at: day(1) }),
+        item({ kind: 'pull_request', closed_at: day(1) }),
+        item({ kind: 'pull_request' }),
+      ]);
+
+      expect(metrics.pr_acceptance_rate).toBe(0.67);
+    });
+  });
+
+  describe('エッジケース', () => {
+    it('ボットが作成したイシューとボットの応答を除外する', () => {
+      const metrics = analyzeResponsiveness([
+        item({ author: 'dependabot[bot]', author_is_bot: true, kind: 'pull_request', merged_at: day(1) }),
+        item({ responses: [response('github-actions[bot]', 0.1, true), response('maintainer', 5)] }),
+      ]);
+
+      expect(metrics.responsiveness_sample_size).toBe(1);
+      expect(metrics.pr_acceptance_rate).toBeNull();
+      expect(metrics.median_first_response_time_days).toBe(5);
+    });
+
+    it('サンプルが空の場合はすべて null になる', () => {
+      const metrics = analyzeResponsiveness([]);
+
+      expect(metrics.median_issue_close_time_days).toBeNull();
+      expect(metrics.avg_pr_merge_time_days).toBeNull();
+      expect(metrics.issue_response_rate).toBeNull();
+      expect(metrics.responsiveness_sample_size).toBe(0);
+    });
+  });
+});
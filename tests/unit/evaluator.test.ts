@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { evaluation_results, repositories, repository_filter_status } from '../../drizzle/schema.js';
+import { ComprehensiveAnalyzer } from '../../src/analysis/comprehensive-analyzer.js';
+import { DEFAULT_CRITERIA, applyCriteriaOverrides } from '../../src/core/collection-config.js';
+import { RepositoryEvaluator } from '../../src/core/evaluator.js';
+import { configureLogging } from '../../src/logging/logger.js';
+import { MEMORY_DATABASE_PATH, type StellarDatabase, openDatabase } from '../../src/repository/database.js';
+import { EvaluationRunRepository } from '../../src/repository/evaluation-run-repository.js';
+import type { PopularityFilterDetails } from '../../src/types/index.js';
+
+// 活動度と品質のチェックを実質的に外し、人気度の基準だけで合否が決まるようにする
+const lenient = applyCriteriaOverrides(DEFAULT_CRITERIA, {
+  activity: { recent_activity_days: 100_000, min_push_activity_days: 100_000 },
+  quality: { has_readme: false, min_readme_quality: 0, has_license: false, max_issue_close_time: 100_000 },
+});
+const strict = applyCriteriaOverrides(lenient, { popularity: { min_stars: 1000, min_forks: 100 } });
+const loose = applyCriteriaOverrides(lenient, { popularity: { min_stars: 1, min_forks: 0 } });
+
+describe('RepositoryEvaluator', () => {
+  let db: StellarDatabase;
+
+  const evaluate = async (criteria: typeof DEFAULT_CRITERIA, name: string) => {
+    const evaluator = new RepositoryEvaluator(db);
+    await evaluator.setupPipeline(criteria, { criteriaSource: `${name}.yaml` });
+    return evaluator.evaluateStored({ name });
+  };
+
+  beforeEach(async () => {
+    configureLogging({ level: 'silent' });
+    db = openDatabase(MEMORY_DATABASE_PATH);
+
+    const recent = new Date().toISOString();
+    await db.insert(repositories).values([
+      {
+        full_name: 'acme/widget',
+        name: 'widget',
+        owner: 'acme',
+        created_at: recent,
+        updated_at: recent,
+        pushed_at: recent,
+        stars_count: 1500,
+        forks_count: 120,
+      },
+      {
+        full_name: 'acme/sparse',
+        name: 'sparse',
+        owner: 'acme',
+        created_at: recent,
+        updated_at: recent,
+        pushed_at: recent,
+        stars_count: 3,
+        forks_count: 0,
+      },
+    ]);
+  });
+
+  afterEach(() => {
+    db.$client.close();
+  });
+
+  describe('正常系', () => {
+    it('評価の実行を作成し、基準のスナップショットと結果を記録する', async () => {
+      const summary = await evaluate(strict, 'strict');
+
+      expect(summary).toEqual({ runId: 1, evaluated: 2, passed: 1 });
+
+      const run = await new EvaluationRunRepository(db).get(summary.runId);
+      expect(run).toMatchObject({
+        name: 'strict',
+        status: 'completed',
+        pipeline_mode: 'short-circuit',
+        criteria_source: 'strict.yaml',
+        total_evaluated: 2,
+        total_passed: 1,
+      });
+      expect(run?.criteria).toEqual(strict);
+
+      expect(await db.select().from(evaluation_results)).toHaveLength(6);
+      // 収集時の評価（repository_filter_status）には書き込まない
+      expect(await db.select().from(repository_filter_status)).toHaveLength(0);
+    });
+
+    it('基準の異なる実行を比較し、合否が変わったリポジトリを返す', async () => {
+      const base = await evaluate(strict, 'strict');
+      const target = await evaluate(loose, 'loose');
+
+      const evaluator = new RepositoryEvaluator(db);
+      const comparison = await evaluator.compareRuns(base.runId, target.runId);
+
+      expect(comparison.stages.find((stage) => stage.stage === 'basic_popularity')).toEqual({
+        stage: 'basic_popularity',
+        base: { evaluated: 2, passed: 1 },
+        target: { evaluated: 2, passed: 2 },
+      });
+      expect(comparison.changed).toEqual([{ repository_id: 2, full_name: 'acme/sparse', base: false, target: true }]);
+      expect((await evaluator.listRuns()).map((run) => run.name)).toEqual(['loose', 'strict']);
+    });
+
+    it('評価の実行ごとにステージの通過率を分析できる', async () => {
+      const base = await evaluate(strict, 'strict');
+      const target = await evaluate(loose, 'loose');
+
+      const analyzer = new ComprehensiveAnalyzer(db);
+      expect((await analyzer.getStagePassRates(base.runId)).passedAll).toBe(1);
+      expect((await analyzer.getStagePassRates(target.runId)).passedAll).toBe(2);
+    });
+  });
+
+  describe('異常系', () => {
+    it('setupPipeline の前に評価するとエラーになる', async () => {
+      await expect(new RepositoryEvaluator(db).evaluateStored()).rejects.toThrow('setupPipeline must be called');
+    });
+
+    it('存在しない実行とは比較できない', async () => {
+      const { runId } = await evaluate(strict, 'strict');
+
+      await expect(new RepositoryEvaluator(db).compareRuns(runId, 99)).rejects.toThrow('Evaluation run 99 not found');
+    });
+  });
+
+  describe('エッジケース', () => {
+    it('percentile 正規化は保存済みのリポジトリをコホートとして順位を求める', async () => {
+      const ranked = applyCriteriaOverrides(loose, {
+        scoring: { name: 'ranked', popularity: { stars: { normalization: { type: 'percentile' } } } },
+      });
+      await evaluate(ranked, 'ranked');
+
+      const stars = (await db.select().from(evaluation_results))
+        .filter((row) => row.stage_id === 1)
+        .map((row) => (row.details as PopularityFilterDetails).scoring.components.stars);
+
+      expect(stars).toEqual([
+        expect.objectContaining({ value: 1500, score: 0.75, normalization: { type: 'percentile', cohort_size: 2 } }),
+        expect.objectContaining({ value: 3, score: 0.25 }),
+      ]);
+    });
+
+    it('同じ実行・リポジトリ・ステージの結果は上書きする', async () => {
+      const { runId } = await evaluate(strict, 'strict');
+      const recorder = new EvaluationRunRepository(db).recorder(runId);
+
+      await recorder.record(2, 1, 'passed', { score: 1, details: { error: '' } });
+
+      const results = await db.select().from(evaluation_results);
+      expect(results).toHaveLength(6);
+      expect(results.find((row) => row.repository_id === 2 && row.stage_id === 1)).toMatchObject({
+        status: 'passed',
+        score: 1,
+      });
+    });
+  });
+});
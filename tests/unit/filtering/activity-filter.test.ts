@@ -0,0 +1,147 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { ActivityFilter } from '../../../src/core/filtering/stages/activity-filter.js';
+import type {
+  ActivityCriteria,
+  ActivityFilterDetails,
+  Repository,
+  RepositoryMetrics,
+} from '../../../src/types/index.js';
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+describe('ActivityFilter', () => {
+  let filter: ActivityFilter;
+  let criteria: ActivityCriteria;
+  let testRepository: Repository;
+  let testMetrics: RepositoryMetrics;
+
+  beforeEach(() => {
+    criteria = {
+      min_contributors: 5,
+      min_commits: 100,
+      recent_activity_days: 90,
+      min_push_activity_days: 180,
+    };
+
+    filter = new ActivityFilter(criteria);
+
+    testRepository = {
+      id: 1,
+      full_name: 'test/repo',
+      name: 'repo',
+      owner: 'test',
+      description: 'Test repository',
+      language: 'TypeScript',
+      license: 'MIT',
+      homepage: null,
+      topics: [],
+      created_at: '2023-01-01T00:00:00Z',
+      updated_at: daysAgo(10),
+      pushed_at: daysAgo(10),
+      stars_count: 150,
+      forks_count: 20,
+      watchers_count: 100,
+      size: 1000,
+      open_issues_count: 5,
+      has_issues: true,
+      has_projects: true,
+      has_wiki: true,
+      has_pages: false,
+      has_downloads: true,
+      archived: false,
+      disabled: false,
+      first_collected_at: '2023-12-01T00:00:00Z',
+      last_updated_at: '2023-12-01T00:00:00Z',
+    };
+
+    testMetrics = {
+      id: 1,
+      repository_id: 1,
+      contributors_count: 12,
+      commits_count: 450,
+      branches_count: 3,
+      tags_count: 10,
+      releases_count: null,
+      avg_issue_close_time_days: null,
+      median_issue_close_time_days: null,
+      avg_pr_merge_time_days: null,
+      median_pr_merge_time_days: null,
+      avg_first_response_time_days: null,
+      median_first_response_time_days: null,
+      issue_response_rate: null,
+      pr_acceptance_rate: null,
+      responsiveness_sample_size: null,
+      has_readme: null,
+      readme_quality_score: null,
+      has_tests: null,
+      has_ci: null,
+      has_contributing_guide: null,
+      has_code_of_conduct: null,
+      has_security_policy: null,
+      has_issue_template: null,
+      has_pull_request_template: null,
+      license_spdx_id: null,
+      languages: null,
+      npm_weekly_downloads: null,
+      dependent_repos_count: null,
+      collected_at: '2023-12-01T00:00:00Z',
+    };
+  });
+
+  describe('正常系', () => {
+    it('基準を満たすリポジトリが通過し、件数が詳細に記録される', async () => {
+      const result = await filter.evaluate(testRepository, testMetrics);
+
+      expect(result.passed).toBe(true);
+      const details = result.details as ActivityFilterDetails;
+      expect(details.checks.contributors).toBe(true);
+      expect(details.checks.commits).toBe(true);
+      expect(details.contributors_count).toBe(12);
+      expect(details.commits_count).toBe(450);
+    });
+  });
+
+  describe('異常系', () => {
+    it('コントリビューター数が基準未満のリポジトリが失敗する', async () => {
+      const result = await filter.evaluate(testRepository, { ...testMetrics, contributors_count: 2 });
+
+      expect(result.passed).toBe(false);
+      expect((result.details as ActivityFilterDetails).checks.contributors).toBe(false);
+    });
+
+    it('コミット数が基準未満のリポジトリが失敗する', async () => {
+      const result = await filter.evaluate(testRepository, { ...testMetrics, commits_count: 20 });
+
+      expect(result.passed).toBe(false);
+      expect((result.details as ActivityFilterDetails).checks.commits).toBe(false);
+    });
+
+    it('最近プッシュされていないリポジトリが失敗する', async () => {
+      const result = await filter.evaluate({ ...testRepository, pushed_at: daysAgo(400) }, testMetrics);
+
+      expect(result.passed).toBe(false);
+      expect((result.details as ActivityFilterDetails).checks.push_activity).toBe(false);
+    });
+  });
+
+  describe('エッジケース', () => {
+    it('メトリクスが未収集の場合は件数チェックを適用しない', async () => {
+      const result = await filter.evaluate(testRepository, null);
+
+      expect(result.passed).toBe(true);
+      const details = result.details as ActivityFilterDetails;
+      expect(details.contributors_count).toBeNull();
+      expect(details.commits_count).toBeNull();
+    });
+
+    it('基準値ちょうどの件数は通過する', async () => {
+      const result = await filter.evaluate(testRepository, {
+        ...testMetrics,
+        contributors_count: 5,
+        commits_count: 100,
+      });
+
+      expect(result.passed).toBe(true);
+    });
+  });
+});
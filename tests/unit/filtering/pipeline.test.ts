@@ -0,0 +1,171 @@
+import { asc } from 'drizzle-orm';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { repositories, repository_filter_status } from '../../../drizzle/schema.js';
+import { ComprehensiveAnalyzer } from '../../../src/analysis/comprehensive-analyzer.js';
+import { DatabaseInitializer } from '../../../src/core/database-initializer.js';
+import type { FilterStage } from '../../../src/core/filtering/filter-stage.js';
+import { FilteringPipeline, PIPELINE_VERSION, type PipelineMode } from '../../../src/core/filtering/pipeline.js';
+import { configureLogging } from '../../../src/logging/logger.js';
+import { MEMORY_DATABASE_PATH, type StellarDatabase, openDatabase } from '../../../src/repository/database.js';
+import { FilterRunRepository } from '../../../src/repository/filter-run-repository.js';
+import type { Repository, StageResultRecorder } from '../../../src/types/index.js';
+
+// リポジトリ名ごとに合否を決めたステージ（ID は DatabaseInitializer が登録するステージに合わせる）
+const fixedStage = (id: number, name: string, passing: string[] | Error): FilterStage => ({
+  id,
+  name,
+  description: name,
+  async evaluate(repository) {
+    if (passing instanceof Error) throw passing;
+    const passed = passing.includes(repository.name);
+    return { passed, score: passed ? 1 : 0, details: { error: '' } };
+  },
+});
+
+describe('FilteringPipeline', () => {
+  let db: StellarDatabase;
+  let recorder: StageResultRecorder;
+
+  const insertRepository = async (name: string): Promise<Repository> => {
+    const [repository] = await db
+      .insert(repositories)
+      .values({ full_name: `acme/${name}`, name, owner: 'acme', created_at: '2024-01-01', updated_at: '2024-01-01' })
+      .returning();
+    return repository as Repository;
+  };
+
+  const createPipeline = (mode?: PipelineMode) => {
+    const pipeline = new FilteringPipeline(db, { mode, recorder });
+    pipeline.addStage(fixedStage(1, 'basic_popularity', ['popular', 'good']));
+    pipeline.addStage(fixedStage(2, 'activity_filter', ['active', 'good']));
+    pipeline.addStage(fixedStage(3, 'quality_filter', ['active', 'good']));
+    return pipeline;
+  };
+
+  const recordedStatuses = async () =>
+    (await db.select().from(repository_filter_status).orderBy(asc(repository_filter_status.id))).map(
+      (row) => `${row.stage_id}:${row.status}`,
+    );
+
+  beforeEach(async () => {
+    configureLogging({ level: 'silent' });
+    db = openDatabase(MEMORY_DATABASE_PATH);
+    await new DatabaseInitializer(db).initialize();
+
+    const filterRuns = new FilterRunRepository(db);
+    const run = await filterRuns.create({ pipeline_version: PIPELINE_VERSION, pipeline_mode: 'short-circuit' });
+    recorder = filterRuns.recorder(run.id);
+  });
+
+  afterEach(() => {
+    db.$client.close();
+  });
+
+  describe('正常系', () => {
+    it('既定では不合格のステージ以降を skipped として記録する', async () => {
+      const summary = await createPipeline().execute(await insertRepository('active'));
+
+      expect(summary.passed).toBe(false);
+      expect(summary.stages.map((stage) => stage.passed)).toEqual([false, false, false]);
+      expect(await recordedStatuses()).toEqual(['1:failed', '2:skipped', '3:skipped']);
+    });
+
+    it('evaluate-all では不合格の後もすべてのステージを評価する', async () => {
+      const summary = await createPipeline('evaluate-all').execute(await insertRepository('active'));
+
+      expect(summary.passed).toBe(false);
+      expect(summary.stages.map((stage) => stage.passed)).toEqual([false, true, true]);
+      expect(await recordedStatuses()).toEqual(['1:failed', '2:passed', '3:passed']);
+    });
+
+    it('全体の合否はどちらのモードでも全ステージの通過で決まる', async () => {
+      const popular = await insertRepository('popular');
+      expect((await createPipeline('short-circuit').execute(popular)).passed).toBe(false);
+      expect((await createPipeline('evaluate-all').execute(popular)).passed).toBe(false);
+
+      const good = await insertRepository('good');
+      expect((await createPipeline('short-circuit').execute(good)).passed).toBe(true);
+      expect((await createPipeline('evaluate-all').execute(good)).passed).toBe(true);
+    });
+  });
+
+  describe('異常系', () => {
+    it('evaluate-all ではステージの例外を不合格として記録し、後続のステージを評価する', async () => {
+      const pipeline = new FilteringPipeline(db, { mode: 'evaluate-all', recorder });
+      pipeline.addStage(fixedStage(1, 'basic_popularity', new Error('boom')));
+      pipeline.addStage(fixedStage(2, 'activity_filter', ['active']));
+
+      const summary = await pipeline.execute(await insertRepository('active'));
+
+      expect(summary.passed).toBe(false);
+      expect(summary.stages.map((stage) => [stage.stage, stage.passed])).toEqual([
+        ['basic_popularity', false],
+        ['activity_filter', true],
+      ]);
+      expect(await recordedStatuses()).toEqual(['1:failed', '2:passed']);
+    });
+
+    it('結果の書き込み先がなければ評価せずにエラーになる', async () => {
+      const pipeline = new FilteringPipeline(db);
+      pipeline.addStage(fixedStage(1, 'basic_popularity', ['active']));
+
+      await expect(pipeline.execute(await insertRepository('active'))).rejects.toThrow('no result recorder');
+      expect(await recordedStatuses()).toEqual([]);
+    });
+  });
+
+  describe('エッジケース', () => {
+    it('同じ実行で評価し直した結果は上書きする', async () => {
+      const repository = await insertRepository('active');
+
+      await createPipeline().execute(repository);
+      await createPipeline('evaluate-all').execute(repository);
+
+      expect(await recordedStatuses()).toEqual(['1:failed', '2:passed', '3:passed']);
+    });
+
+    it('通過率の分析で独立通過率と条件付き通過率を区別する', async () => {
+      const pipeline = createPipeline('evaluate-all');
+      for (const name of ['popular', 'active', 'good', 'none']) {
+        await pipeline.execute(await insertRepository(name));
+      }
+
+      const { stages, passedAll, repositories: evaluated } = await new ComprehensiveAnalyzer(db).getStagePassRates();
+
+      expect(passedAll).toBe(1);
+      expect(evaluated).toBe(4);
+      // activity は全体では 2/4 が通過するが、popularity を通過した 2 件の中では 1 件のみ
+      expect(stages.find((stage) => stage.stage === 'activity_filter')).toMatchObject({
+        evaluated: 4,
+        passed: 2,
+        independentPassRate: 0.5,
+        conditionalEvaluated: 2,
+        conditionalPassed: 1,
+        conditionalPassRate: 0.5,
+      });
+      expect(stages.find((stage) => stage.stage === 'quality_filter')).toMatchObject({
+        independentPassRate: 0.5,
+        conditionalEvaluated: 1,
+        conditionalPassRate: 1,
+      });
+      // 評価の記録がない final_selection は含めない
+      expect(stages.map((stage) => stage.stage)).toEqual(['basic_popularity', 'activity_filter', 'quality_filter']);
+    });
+
+    it('short-circuit の評価では skipped を独立通過率の分母に含めない', async () => {
+      const pipeline = createPipeline();
+      for (const name of ['popular', 'active', 'good']) {
+        await pipeline.execute(await insertRepository(name));
+      }
+
+      const { stages } = await new ComprehensiveAnalyzer(db).getStagePassRates();
+      expect(stages.find((stage) => stage.stage === 'activity_filter')).toMatchObject({
+        evaluated: 2,
+        passed: 1,
+        skipped: 1,
+        independentPassRate: 0.5,
+        conditionalPassRate: 0.5,
+      });
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type ComponentInput,
+  ScoringCohort,
+  normalize,
+  resolveNormalization,
+  scoreComponents,
+  usesPercentile,
+} from '../../../src/core/filtering/scoring.js';
+import { PopularityFilter } from '../../../src/core/filtering/stages/popularity-filter.js';
+import type { PopularityCriteria, PopularityFilterDetails, Repository } from '../../../src/types/index.js';
+
+const criteria: PopularityCriteria = { min_stars: 100, min_forks: 10, not_archived: true, not_disabled: true };
+
+const repository = (stars: number, forks = 0): Repository =>
+  ({ id: stars, full_name: `acme/${stars}`, stars_count: stars, forks_count: forks }) as Repository;
+
+const stars = (value: number | null): ComponentInput => ({ name: 'stars', value, range: [100, 1000] });
+
+describe('scoring', () => {
+  describe('正常系', () => {
+    it('既定のモデルは重み 1 の線形正規化で、指標ごとの内訳を記録する', async () => {
+      const result = await new PopularityFilter(criteria).evaluate(repository(550, 10));
+      const details = result.details as PopularityFilterDetails;
+
+      // (0.5 + 0 + 1 + 1) / 4
+      expect(result.score).toBeCloseTo(0.625);
+      expect(details.scoring.model).toBe('default');
+      expect(details.scoring.components.stars).toEqual({
+        value: 550,
+        weight: 1,
+        lower_is_better: false,
+        normalization: { type: 'linear', min: 100, max: 1000 },
+        score: 0.5,
+      });
+    });
+
+    it('モデルの重みと log 正規化でスコアを求める', async () => {
+      const filter = new PopularityFilter(criteria, {
+        name: 'log-stars',
+        popularity: {
+          stars: { weight: 3, normalization: { type: 'log', min: 100, max: 200_000 } },
+          forks: { weight: 0 },
+        },
+      });
+
+      const low = await filter.evaluate(repository(1_000));
+      const high = await filter.evaluate(repository(100_000));
+      const details = high.details as PopularityFilterDetails;
+
+      // 線形なら 0.005 にしかならない 1,000 スターも log では差が付く
+      expect(details.scoring.model).toBe('log-stars');
+      expect((low.details as PopularityFilterDetails).scoring.components.stars?.score).toBeCloseTo(0.302, 3);
+      expect(details.scoring.components.stars?.score).toBeCloseTo(0.909, 3);
+      expect(high.score).toBeCloseTo((0.909 * 3 + 1 + 1) / 5, 3);
+    });
+
+    it('コホート内のパーセンタイルで正規化する', () => {
+      const cohort = new ScoringCohort();
+      for (const value of [10, 20, 30, 40]) {
+        cohort.add('popularity', [stars(value)]);
+      }
+      const model = { popularity: { stars: { normalization: { type: 'percentile' as const } } } };
+
+      const { score, scoring } = scoreComponents('popularity', [stars(30)], model, cohort);
+
+      // 下に 2 件、同じ値が 1 件
+      expect(score).toBe(0.625);
+      expect(scoring.components.stars?.normalization).toEqual({ type: 'percentile', cohort_size: 4 });
+      expect(usesPercentile(model)).toBe(true);
+      expect(usesPercentile(undefined)).toBe(false);
+    });
+  });
+
+  describe('エッジケース', () => {
+    it('sigmoid は省略した中心と傾きを既定の範囲から補う', () => {
+      const normalization = resolveNormalization({ type: 'sigmoid' }, [0, 100]);
+
+      expect(normalization.midpoint).toBe(50);
+      expect(normalize(50, normalization)).toBe(0.5);
+      expect(normalize(100, normalization)).toBeCloseTo(0.99);
+      expect(normalize(0, normalization)).toBeCloseTo(0.01);
+    });
+
+    it('値が小さいほど良い指標は正規化した値を反転する', () => {
+      const { score } = scoreComponents(
+        'activity',
+        [{ name: 'push_recency', value: 45, range: [0, 180], lowerIsBetter: true }],
+        undefined,
+        null,
+      );
+
+      expect(score).toBe(0.75);
+    });
+
+    it('未収集の指標と空のコホートの percentile は母数に含めない', () => {
+      const model = { popularity: { forks: { normalization: { type: 'percentile' as const } } } };
+      const { score, scoring } = scoreComponents(
+        'popularity',
+        [stars(1000), { name: 'readme', value: null, range: [0, 1] }, { name: 'forks', value: 5, range: [0, 10] }],
+        model,
+        new ScoringCohort(),
+      );
+
+      expect(score).toBe(1);
+      expect(scoring.components.readme?.score).toBeNull();
+      expect(scoring.components.forks).toMatchObject({ score: null, normalization: { cohort_size: 0 } });
+    });
+  });
+});
@@ -1,6 +1,13 @@
-import { beforeEach, describe, expect, it } from 'vitest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { GitHubApiError, GitHubClient } from '../../src/api/github-client.js';
 
+// tests/fixtures/github に記録したレスポンスを再生し、ネットワークには接続しない
+const replayClient = () =>
+  new GitHubClient('test-token', {
+    transport: { mode: 'replay', fixturesDir: 'tests/fixtures/github' },
+    scheduler: { maxRetries: 0, sleep: vi.fn().mockResolvedValue(undefined) },
+  });
+
 describe('GitHubClient', () => {
   let client: GitHubClient;
   const testToken = 'test-token';
@@ -38,11 +45,84 @@ describe('GitHubClient', () => {
   });
 
   describe('エッジケース', () => {
-    it('nullやundefinedのレスポンスデータを適切にハンドリングできる', () => {
-      // transformRepositoryやtransformSearchResultのテスト用
-      // 実際の実装では、これらのプライベートメソッドを直接テストするか、
-      // より統合的なテストアプローチを取る必要があります
-      expect(true).toBe(true); // プレースホルダー
+    it('nullやundefinedのレスポンスデータを適切にハンドリングできる', async () => {
+      const repository = await replayClient().getRepositoryDetails('acme', 'sparse');
+
+      expect(repository.full_name).toBe('acme/sparse');
+      expect(repository.owner).toEqual({ login: '', type: '' });
+      expect(repository.description).toBeNull();
+      expect(repository.language).toBeNull();
+      expect(repository.license).toBeNull();
+      expect(repository.topics).toEqual([]);
+      expect(repository.pushed_at).toBeNull();
+    });
+  });
+
+  describe('記録済みレスポンスの再生', () => {
+    it('リポジトリ詳細を変換できる', async () => {
+      const repository = await replayClient().getRepositoryDetails('acme', 'widget');
+
+      expect(repository).toMatchObject({
+        id: 1001,
+        full_name: 'acme/widget',
+        owner: { login: 'acme', type: 'Organization' },
+        license: { name: 'MIT License' },
+        topics: ['widgets', 'ui'],
+        stargazers_count: 1500,
+        has_projects: false,
+      });
+    });
+
+    it('検索結果を重複なく取得できる', async () => {
+      const repositories = await replayClient().searchRepositories(
+        'language:typescript stars:>1',
+        'stars',
+        'desc',
+        100,
+      );
+
+      expect(repositories.map((repository) => repository.full_name)).toEqual(['acme/widget', 'acme/sparse']);
+    });
+
+    it('ページ単位の検索は再開用のカーソルを返す', async () => {
+      const client = replayClient();
+      const pages = [];
+      for await (const page of client.searchRepositoryPages('language:typescript stars:>1', 'stars', 'desc', 100)) {
+        pages.push(page);
+      }
+
+      expect(pages).toHaveLength(1);
+      expect(pages[0]?.cursor).toEqual({ slices: [], page: 1, collected: 2, totalFound: 2 });
+
+      // 検索し終えたカーソルから再開しても追加のページは返らない
+      const resumed = client.searchRepositoryPages(
+        'language:typescript stars:>1',
+        'stars',
+        'desc',
+        100,
+        pages[0]?.cursor,
+      );
+      expect((await resumed.next()).done).toBe(true);
+    });
+
+    it('Linkヘッダーから正確な件数を算出できる', async () => {
+      const counts = await replayClient().getRepositoryActivityCounts('acme', 'widget');
+
+      expect(counts).toEqual({ contributors_count: 42, commits_count: 1234, branches_count: 5, tags_count: 1 });
+    });
+
+    it('READMEをデコードし、存在しない場合は null を返す', async () => {
+      const client = replayClient();
+
+      expect(await client.getRepositoryReadme('acme', 'widget')).toContain('## Installation');
+      expect(await client.getRepositoryReadme('acme', 'sparse')).toBeNull();
+    });
+
+    it('記録されていないリクエストはネットワークに接続せずエラーにする', async () => {
+      const client = replayClient();
+
+      await expect(client.getRepositoryDetails('acme', 'unknown')).rejects.toThrow(GitHubApiError);
+      await expect(client.getRepositoryDetails('acme', 'unknown')).rejects.toThrow(/No recorded fixture.*replay mode/);
     });
   });
 });
@@ -0,0 +1,110 @@
+import { mkdtemp, readFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  configureLogging,
+  createLogger,
+  openBatchLog,
+  resolveLoggingOptions,
+  setLogOutput,
+  withLogContext,
+} from '../../src/logging/logger.js';
+
+describe('logger', () => {
+  let lines: string[];
+
+  beforeEach(() => {
+    lines = [];
+    setLogOutput((line) => lines.push(line));
+  });
+
+  afterEach(() => {
+    setLogOutput(null);
+    configureLogging({ level: 'info', format: 'pretty', directory: undefined });
+  });
+
+  describe('正常系', () => {
+    it('しきい値未満のレベルは出力しない', () => {
+      configureLogging({ level: 'warn', format: 'json' });
+      const logger = createLogger('Test');
+
+      logger.info('ignored');
+      logger.warn('kept', { status: 404 });
+
+      expect(lines.map((line) => JSON.parse(line))).toEqual([
+        { time: expect.any(String), level: 'warn', scope: 'Test', msg: 'kept', status: 404 },
+      ]);
+    });
+
+    it('コンテキストのフィールドはawaitの先のレコードにも付与される', async () => {
+      configureLogging({ level: 'debug', format: 'json' });
+      const logger = createLogger('Test');
+
+      await withLogContext({ batchId: 7 }, async () => {
+        await Promise.resolve();
+        await withLogContext({ repo: 'acme/widget' }, async () => logger.child({ stage: 'popularity' }).debug('done'));
+      });
+      logger.info('outside');
+
+      expect(lines.map((line) => JSON.parse(line))).toMatchObject([
+        { msg: 'done', batchId: 7, repo: 'acme/widget', stage: 'popularity' },
+        { msg: 'outside' },
+      ]);
+      expect(JSON.parse(lines[1] as string)).not.toHaveProperty('batchId');
+    });
+
+    it('prettyはスコープ・メッセージ・フィールドを1行にまとめる', () => {
+      configureLogging({ level: 'info', format: 'pretty' });
+
+      withLogContext({ batchId: 3, repo: 'acme/widget' }, () => createLogger('RepositoryCollector').info('Processed'));
+
+      expect(lines).toEqual([
+        expect.stringMatching(
+          /^\d{2}:\d{2}:\d{2}\.\d{3} INFO {2}\[RepositoryCollector\] Processed {2}batchId=3 repo=acme\/widget$/,
+        ),
+      ]);
+    });
+
+    it('バッチのログファイルにはしきい値に関係なくバッチ内のレコードを書き出す', async () => {
+      const directory = await mkdtemp(join(tmpdir(), 'stellar-logs-'));
+      configureLogging({ level: 'error', format: 'pretty', directory });
+      const logger = createLogger('Test');
+
+      const batchLog = openBatchLog(5);
+      withLogContext({ batchId: 5 }, () => logger.debug('inside', { error: new Error('boom') }));
+      logger.debug('outside');
+      batchLog?.close();
+
+      const records = (await readFile(join(directory, 'batch-5.jsonl'), 'utf-8'))
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line));
+      expect(records).toMatchObject([{ level: 'debug', msg: 'inside', batchId: 5, error: { message: 'boom' } }]);
+      expect(lines).toEqual([]);
+    });
+  });
+
+  describe('異常系', () => {
+    it('不正なLOG_LEVELとLOG_FORMATはエラーになる', () => {
+      expect(() => resolveLoggingOptions({ LOG_LEVEL: 'verbose' })).toThrow('Invalid LOG_LEVEL');
+      expect(() => resolveLoggingOptions({ LOG_FORMAT: 'xml' })).toThrow('Invalid LOG_FORMAT');
+    });
+  });
+
+  describe('エッジケース', () => {
+    it('環境変数がなければinfoとprettyを使い、大文字のレベルも受け付ける', () => {
+      expect(resolveLoggingOptions({})).toEqual({ level: 'info', format: 'pretty', directory: undefined });
+      expect(resolveLoggingOptions({ LOG_LEVEL: 'DEBUG', LOG_DIR: 'logs' })).toMatchObject({
+        level: 'debug',
+        directory: 'logs',
+      });
+    });
+
+    it('LOG_DIRがなければバッチのログファイルを作らない', () => {
+      configureLogging({ directory: undefined });
+
+      expect(openBatchLog(1)).toBeNull();
+    });
+  });
+});
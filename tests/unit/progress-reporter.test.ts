@@ -0,0 +1,175 @@
+import { eq } from 'drizzle-orm';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { collection_batches } from '../../drizzle/schema.js';
+import type { TokenUsage } from '../../src/api/token-pool.js';
+import { ProgressReporter } from '../../src/core/progress-reporter.js';
+import { configureLogging } from '../../src/logging/logger.js';
+import { MEMORY_DATABASE_PATH, type StellarDatabase, openDatabase } from '../../src/repository/database.js';
+import type { FilteringSummary } from '../../src/types/index.js';
+
+const summary = (...stages: [string, boolean, boolean?][]): FilteringSummary => ({
+  repository: 1,
+  stages: stages.map(([stage, passed, skipped]) => ({
+    stage,
+    passed,
+    score: passed ? 1 : 0,
+    details: skipped ? { error: '', skipped: true } : { error: '' },
+  })),
+  passed: stages.every(([, passed]) => passed),
+});
+
+describe('ProgressReporter', () => {
+  let db: StellarDatabase;
+  let batchId: number;
+  let clock: number;
+  let usage: TokenUsage[];
+
+  const createReporter = (flushIntervalMs = 60_000) =>
+    new ProgressReporter(db, batchId, () => usage, [], { flushIntervalMs, now: () => clock });
+
+  const readBatch = async () => {
+    const [batch] = await db.select().from(collection_batches).where(eq(collection_batches.id, batchId));
+    return batch;
+  };
+
+  beforeEach(async () => {
+    configureLogging({ level: 'silent' });
+    db = openDatabase(MEMORY_DATABASE_PATH);
+    const [batch] = await db
+      .insert(collection_batches)
+      .values({ name: 'test', status: 'running', query_params: {} })
+      .returning();
+    batchId = (batch as { id: number }).id;
+    clock = Date.parse('2026-01-01T00:00:00Z');
+    usage = [
+      {
+        label: 'token-1',
+        revoked: false,
+        requests: 10,
+        budgets: { core: { limit: 5000, remaining: 4000, reset: null } },
+      },
+    ];
+  });
+
+  afterEach(() => {
+    db.$client.close();
+  });
+
+  describe('正常系', () => {
+    it('ステージごとの通過・不合格・スキップを数える', async () => {
+      const reporter = createReporter();
+
+      await reporter.record(summary(['popularity', true], ['activity', false], ['quality', false, true]));
+      await reporter.record(summary(['popularity', false], ['activity', false, true], ['quality', false, true]));
+      await reporter.record(null);
+
+      const progress = reporter.snapshot();
+      expect(progress.processed).toBe(3);
+      expect(progress.stages).toEqual({
+        popularity: { passed: 1, failed: 1, skipped: 0 },
+        activity: { passed: 0, failed: 1, skipped: 1 },
+        quality: { passed: 0, failed: 0, skipped: 2 },
+      });
+    });
+
+    it('処理速度から残り件数の ETA を求め、API 呼び出し数は開始時点からの差分を返す', async () => {
+      const reporter = createReporter();
+      reporter.setTotals(500, 100);
+
+      clock += 60_000;
+      for (let i = 0; i < 10; i++) {
+        await reporter.record(null);
+      }
+      usage = [
+        { ...(usage[0] as TokenUsage), requests: 35, budgets: { core: { limit: 5000, remaining: 3975, reset: null } } },
+      ];
+
+      const progress = reporter.snapshot();
+      expect(progress.repositories_per_minute).toBe(10);
+      expect(progress.eta_seconds).toBe(540);
+      expect(progress.api_requests).toBe(25);
+      expect(progress.rate_limit_remaining).toEqual({ core: 3975 });
+    });
+
+    it('flush で進捗・total_found・total_collected を書き出す', async () => {
+      const reporter = createReporter();
+      reporter.setTotals(1234, 100);
+      await reporter.record(summary(['popularity', true]));
+
+      await reporter.flush();
+
+      const batch = await readBatch();
+      expect(batch?.total_found).toBe(1234);
+      expect(batch?.total_collected).toBe(1);
+      expect(batch?.progress).toMatchObject({ processed: 1, expected: 100, stages: { popularity: { passed: 1 } } });
+    });
+
+    it('再開時は引き継いだ件数を速度の計算から除く', async () => {
+      const reporter = createReporter();
+      reporter.resume(50, {
+        processed: 50,
+        expected: 100,
+        stages: { popularity: { passed: 20, failed: 30, skipped: 0 } },
+        api_requests: 80,
+        rate_limit_remaining: {},
+        repositories_per_minute: 25,
+        eta_seconds: 120,
+        updated_at: '2025-12-31T00:00:00.000Z',
+      });
+      reporter.setTotals(null, 100);
+
+      clock += 60_000;
+      await reporter.record(summary(['popularity', true]));
+
+      const progress = reporter.snapshot();
+      expect(progress.processed).toBe(51);
+      expect(progress.stages.popularity).toEqual({ passed: 21, failed: 30, skipped: 0 });
+      expect(progress.repositories_per_minute).toBe(1);
+      expect(progress.eta_seconds).toBe(49 * 60);
+    });
+  });
+
+  describe('エッジケース', () => {
+    it('書き出しの間隔が経つまでは record で書き出さない', async () => {
+      const reporter = createReporter(10_000);
+
+      await reporter.record(null);
+      expect((await readBatch())?.progress).toBeNull();
+
+      clock += 10_000;
+      await reporter.record(null);
+      expect((await readBatch())?.progress).toMatchObject({ processed: 2 });
+    });
+
+    it('総数や処理速度が分からないうちは ETA を null にする', async () => {
+      const reporter = createReporter();
+
+      expect(reporter.snapshot().eta_seconds).toBeNull();
+      reporter.setTotals(null, null);
+      clock += 1000;
+      await reporter.record(null);
+      expect(reporter.snapshot().eta_seconds).toBeNull();
+      expect(reporter.snapshot().expected).toBeNull();
+    });
+
+    it('無効化されたトークンと残数が不明なバケットは残りに含めない', () => {
+      usage = [
+        ...usage,
+        {
+          label: 'token-2',
+          revoked: true,
+          requests: 0,
+          budgets: { core: { limit: 5000, remaining: 5000, reset: null } },
+        },
+        {
+          label: 'token-3',
+          revoked: false,
+          requests: 0,
+          budgets: { search: { limit: 30, remaining: null, reset: null } },
+        },
+      ];
+
+      expect(createReporter().snapshot().rate_limit_remaining).toEqual({ core: 4000 });
+    });
+  });
+});
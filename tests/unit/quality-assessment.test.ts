@@ -0,0 +1,136 @@
+import { and, eq } from 'drizzle-orm';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { quality_assessments, repositories, repository_filter_status } from '../../drizzle/schema.js';
+import { DatabaseInitializer } from '../../src/core/database-initializer.js';
+import { PIPELINE_VERSION } from '../../src/core/filtering/pipeline.js';
+import {
+  ASSESSMENT_VERSION,
+  QualityAssessmentEngine,
+  communityScore,
+  competitionRanks,
+  overallScore,
+} from '../../src/core/quality-assessment.js';
+import { configureLogging } from '../../src/logging/logger.js';
+import { MEMORY_DATABASE_PATH, type StellarDatabase, openDatabase } from '../../src/repository/database.js';
+import { FilterRunRepository } from '../../src/repository/filter-run-repository.js';
+import type { RepositoryMetrics, StageResultRecorder, StageStatus } from '../../src/types/index.js';
+
+describe('QualityAssessmentEngine', () => {
+  let db: StellarDatabase;
+  let runId: number;
+  let recorder: StageResultRecorder;
+
+  // 人気度・活動度・品質ステージの結果をフィルター実行に記録する
+  const recordStages = async (name: string, scores: [number, number, number], status: StageStatus = 'passed') => {
+    const [repository] = await db
+      .insert(repositories)
+      .values({ full_name: `acme/${name}`, name, owner: 'acme', created_at: '2024-01-01', updated_at: '2024-01-01' })
+      .returning();
+    const id = repository?.id as number;
+    for (const [index, score] of scores.entries()) {
+      await recorder.record(id, index + 1, index === 0 ? status : 'passed', { score, details: { error: '' } });
+    }
+    return id;
+  };
+
+  const finalStatus = async (repositoryId: number) => {
+    const [row] = await db
+      .select()
+      .from(repository_filter_status)
+      .where(and(eq(repository_filter_status.repository_id, repositoryId), eq(repository_filter_status.stage_id, 4)));
+    return row?.status;
+  };
+
+  beforeEach(async () => {
+    configureLogging({ level: 'silent' });
+    db = openDatabase(MEMORY_DATABASE_PATH);
+    await new DatabaseInitializer(db).initialize();
+
+    const filterRuns = new FilterRunRepository(db);
+    const run = await filterRuns.create({ pipeline_version: PIPELINE_VERSION, pipeline_mode: 'short-circuit' });
+    runId = run.id;
+    recorder = filterRuns.recorder(runId);
+  });
+
+  afterEach(() => {
+    db.$client.close();
+  });
+
+  describe('正常系', () => {
+    it('ステージのスコアを総合スコアにまとめ、実行内の順位を記録する', async () => {
+      const top = await recordStages('top', [1, 1, 1]);
+      const middle = await recordStages('middle', [0.5, 0.5, 0.5]);
+      const low = await recordStages('low', [0.2, 0.2, 0.2]);
+
+      const assessments = await new QualityAssessmentEngine(db).assess(runId);
+
+      expect(assessments.map((assessment) => [assessment.repository_id, assessment.overall_rank])).toEqual([
+        [top, 1],
+        [middle, 2],
+        [low, 3],
+      ]);
+      // 詳細メトリクスがないためコミュニティスコアを除いた重みで按分する
+      expect(assessments[1]).toMatchObject({
+        overall_score: 0.5,
+        community_score: 0,
+        popularity_rank: 2,
+        assessment_version: ASSESSMENT_VERSION,
+      });
+    });
+
+    it('第2パスとして最終選定を実行し、上位のリポジトリだけを通過させる', async () => {
+      const ids = [];
+      for (const [index, score] of [1, 0.9, 0.8, 0.7].entries()) {
+        ids.push(await recordStages(`repo-${index}`, [score, score, score]));
+      }
+
+      const summary = await new QualityAssessmentEngine(db).selectFinal(runId, {
+        criteria: { min_overall_score: 0.75, top_percentile: 50 },
+        recorder,
+      });
+
+      expect(summary).toEqual({ assessed: 4, evaluated: 4, selected: 2 });
+      expect(await Promise.all(ids.map(finalStatus))).toEqual(['passed', 'passed', 'failed', 'failed']);
+    });
+  });
+
+  describe('エッジケース', () => {
+    it('short-circuit では前のステージで不合格のリポジトリを skipped にする', async () => {
+      const passing = await recordStages('passing', [1, 1, 1]);
+      const failing = await recordStages('failing', [0.1, 0, 0], 'failed');
+
+      const summary = await new QualityAssessmentEngine(db).selectFinal(runId, { recorder });
+
+      expect(summary).toEqual({ assessed: 2, evaluated: 1, selected: 1 });
+      expect(await finalStatus(passing)).toBe('passed');
+      expect(await finalStatus(failing)).toBe('skipped');
+    });
+
+    it('同じ実行を評価し直しても行は増えない', async () => {
+      await recordStages('repo', [1, 1, 1]);
+      const engine = new QualityAssessmentEngine(db);
+
+      await engine.selectFinal(runId, { recorder });
+      await engine.selectFinal(runId, { recorder });
+
+      expect(await db.select().from(quality_assessments)).toHaveLength(1);
+      expect(await db.select().from(repository_filter_status)).toHaveLength(4);
+    });
+
+    it('同点には同じ順位を付ける', () => {
+      expect(competitionRanks([0.5, 0.9, 0.5, 0.1])).toEqual([2, 1, 2, 4]);
+    });
+
+    it('収集されたメトリクスだけでコミュニティスコアを求める', () => {
+      expect(communityScore(null)).toBeNull();
+      expect(
+        communityScore({
+          contributors_count: 25,
+          issue_response_rate: 1,
+          pr_acceptance_rate: null,
+        } as RepositoryMetrics),
+      ).toBe(0.75);
+      expect(overallScore({ popularity: 1, activity: 1, quality: 1, community: 0 })).toBeCloseTo(0.8);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { RateLimitScheduler, RateLimitWaitAbortedError } from '../../src/api/rate-limit-scheduler.js';
+import { TokenPool } from '../../src/api/token-pool.js';
+
+const NOW = 1_700_000_000_000;
+
+const createHttpError = (status: number, message: string, headers: Record<string, string> = {}) =>
+  Object.assign(new Error(message), { status, response: { headers } });
+
+describe('RateLimitScheduler', () => {
+  let sleep: ReturnType<typeof vi.fn>;
+  let pool: TokenPool;
+  let scheduler: RateLimitScheduler;
+
+  beforeEach(() => {
+    sleep = vi.fn().mockResolvedValue(undefined);
+    pool = new TokenPool(['token-a']);
+    scheduler = new RateLimitScheduler(pool, { sleep, now: () => NOW, baseDelayMs: 100, maxRetries: 3 });
+  });
+
+  describe('正常系', () => {
+    it('URLからバケットを判定する', () => {
+      expect(RateLimitScheduler.bucketFor('/search/repositories')).toBe('search');
+      expect(RateLimitScheduler.bucketFor('/graphql')).toBe('graphql');
+      expect(RateLimitScheduler.bucketFor('/repos/{owner}/{repo}')).toBe('core');
+    });
+
+    it('レスポンスヘッダーからバケットごとの残量を記録する', async () => {
+      await scheduler.schedule('search', async () => ({
+        headers: { 'x-ratelimit-limit': '30', 'x-ratelimit-remaining': '29', 'x-ratelimit-reset': '1700000060' },
+      }));
+
+      const [usage] = pool.getUsage();
+      expect(usage?.budgets.search).toEqual({ limit: 30, remaining: 29, reset: 1700000060 });
+      expect(usage?.budgets.core).toBeUndefined();
+      expect(usage?.requests).toBe(1);
+    });
+
+    it('残量が0のバケットはリセットまで待機してから実行する', async () => {
+      const [entry] = pool.entries();
+      pool.updateBudget(entry!, 'core', { limit: 5000, remaining: 0, reset: NOW / 1000 + 30 });
+
+      await scheduler.schedule('core', async () => ({ headers: {} }));
+
+      expect(sleep).toHaveBeenCalledWith(31_000);
+    });
+  });
+
+  describe('異常系', () => {
+    it('retry-afterヘッダーに従って再試行する', async () => {
+      const task = vi
+        .fn()
+        .mockRejectedValueOnce(createHttpError(403, 'secondary rate limit', { 'retry-after': '60' }))
+        .mockResolvedValueOnce({ headers: {} });
+
+      await scheduler.schedule('search', task);
+
+      expect(task).toHaveBeenCalledTimes(2);
+      expect(sleep).toHaveBeenCalledWith(60_000);
+    });
+
+    it('プライマリレート制限はリセット時刻まで待って再試行する', async () => {
+      const task = vi
+        .fn()
+        .mockRejectedValueOnce(
+          createHttpError(403, 'API rate limit exceeded', {
+            'x-ratelimit-remaining': '0',
+            'x-ratelimit-reset': String(NOW / 1000 + 120),
+          }),
+        )
+        .mockResolvedValueOnce({ headers: {} });
+
+      await scheduler.schedule('core', task);
+
+      expect(task).toHaveBeenCalledTimes(2);
+      expect(sleep).toHaveBeenCalledWith(121_000);
+    });
+
+    it.each([
+      ['リセット時刻がない', {}],
+      ['リセット時刻が過去（時計のずれ）', { 'x-ratelimit-reset': String(NOW / 1000 - 60) }],
+    ])('プライマリレート制限で%s場合はバックオフして再試行回数に数える', async (_case, reset) => {
+      const error = createHttpError(403, 'API rate limit exceeded', { 'x-ratelimit-remaining': '0', ...reset });
+      const task = vi.fn().mockRejectedValue(error);
+
+      await expect(scheduler.schedule('core', task)).rejects.toBe(error);
+
+      expect(task).toHaveBeenCalledTimes(4);
+      expect(sleep).toHaveBeenCalledTimes(3);
+      for (const [delay] of sleep.mock.calls) {
+        expect(delay).toBeGreaterThan(0);
+      }
+    });
+
+    it('認証エラーのトークンは除外され、最後のトークンならエラーになる', async () => {
+      const task = vi.fn().mockRejectedValue(createHttpError(401, 'Bad credentials'));
+
+      await expect(scheduler.schedule('core', task)).rejects.toThrow('Bad credentials');
+      expect(pool.activeCount).toBe(0);
+    });
+
+    it('権限エラーの403は再試行しない', async () => {
+      const task = vi.fn().mockRejectedValue(createHttpError(403, 'Resource not accessible by integration'));
+
+      await expect(scheduler.schedule('core', task)).rejects.toThrow('Resource not accessible');
+      expect(task).toHaveBeenCalledTimes(1);
+    });
+
+    it('サーバーエラーは指数バックオフで再試行し、上限を超えたら失敗する', async () => {
+      const task = vi.fn().mockRejectedValue(createHttpError(502, 'Bad Gateway'));
+
+      await expect(scheduler.schedule('core', task)).rejects.toThrow('Bad Gateway');
+      expect(task).toHaveBeenCalledTimes(4);
+
+      const delays = sleep.mock.calls.map(([ms]) => ms as number);
+      expect(delays[0]).toBeGreaterThanOrEqual(50);
+      expect(delays[0]).toBeLessThanOrEqual(100);
+      expect(delays[2]).toBeGreaterThanOrEqual(200);
+      expect(delays[2]).toBeLessThanOrEqual(400);
+    });
+
+    it.each([
+      ['終わらない sleep', () => new Promise<void>(() => undefined)],
+      ['既定の sleep', undefined],
+    ])('シグナルを中断するとリセット待ちを打ち切る（%s）', async (_name, customSleep) => {
+      const controller = new AbortController();
+      const [entry] = pool.entries();
+      pool.updateBudget(entry!, 'core', { limit: 5000, remaining: 0, reset: NOW / 1000 + 3600 });
+      scheduler = new RateLimitScheduler(pool, { sleep: customSleep, now: () => NOW, signal: controller.signal });
+      const task = vi.fn().mockResolvedValue({ headers: {} });
+
+      const scheduled = scheduler.schedule('core', task);
+      controller.abort();
+
+      await expect(scheduled).rejects.toBeInstanceOf(RateLimitWaitAbortedError);
+      expect(task).not.toHaveBeenCalled();
+    });
+
+    it('中断済みのシグナルでは待機せずに失敗する', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      scheduler = new RateLimitScheduler(pool, { sleep, now: () => NOW, baseDelayMs: 100, signal: controller.signal });
+      const task = vi.fn().mockRejectedValue(createHttpError(502, 'Bad Gateway'));
+
+      await expect(scheduler.schedule('core', task)).rejects.toBeInstanceOf(RateLimitWaitAbortedError);
+      expect(task).toHaveBeenCalledTimes(1);
+      expect(sleep).not.toHaveBeenCalled();
+    });
+  });
+});
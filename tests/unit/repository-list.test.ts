@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { detectFormat, normalizeRepositoryName, parseRepositoryList } from '../../src/core/repository-list.js';
+
+describe('repository-list', () => {
+  describe('正常系', () => {
+    it('テキストは1行1リポジトリとして読み、空行とコメントを無視する', () => {
+      const content = '# curated list\nfacebook/react\n\nmicrosoft/TypeScript  # compiler\n';
+
+      expect(parseRepositoryList(content, 'txt')).toEqual({
+        entries: ['facebook/react', 'microsoft/TypeScript'],
+        invalid: [],
+      });
+    });
+
+    it('CSVはfull_name列、またはowner列とname列から読む', () => {
+      const withFullName = 'stars,full_name\n100,facebook/react\n200,"vercel/next.js"\n';
+      const withOwnerAndName = 'owner,name\nfacebook,react\n';
+
+      expect(parseRepositoryList(withFullName, 'csv').entries).toEqual(['facebook/react', 'vercel/next.js']);
+      expect(parseRepositoryList(withOwnerAndName, 'csv').entries).toEqual(['facebook/react']);
+    });
+
+    it('JSONは文字列とオブジェクトの配列、およびrepositoriesを持つオブジェクトを読む', () => {
+      const array = JSON.stringify([
+        'facebook/react',
+        { full_name: 'vercel/next.js' },
+        { owner: 'nodejs', name: 'node' },
+      ]);
+      const wrapped = JSON.stringify({ repositories: ['facebook/react'] });
+
+      expect(parseRepositoryList(array, 'json').entries).toEqual(['facebook/react', 'vercel/next.js', 'nodejs/node']);
+      expect(parseRepositoryList(wrapped, 'json').entries).toEqual(['facebook/react']);
+    });
+
+    it('GitHubのURLをowner/nameに正規化する', () => {
+      expect(normalizeRepositoryName('https://github.com/facebook/react.git')).toBe('facebook/react');
+      expect(normalizeRepositoryName('github.com/vercel/next.js/')).toBe('vercel/next.js');
+    });
+  });
+
+  describe('異常系', () => {
+    it('owner/nameとして解釈できないエントリはinvalidになる', () => {
+      const result = parseRepositoryList('facebook/react\nnot-a-repository\nfoo/bar/baz\n', 'txt');
+
+      expect(result.entries).toEqual(['facebook/react']);
+      expect(result.invalid).toEqual(['not-a-repository', 'foo/bar/baz']);
+    });
+
+    it('未対応の拡張子はエラーになる', () => {
+      expect(() => detectFormat('repositories.xlsx')).toThrow('Unsupported repository list format');
+    });
+
+    it('配列でないJSONはエラーになる', () => {
+      expect(() => parseRepositoryList('{"full_name": "facebook/react"}', 'json')).toThrow('must be an array');
+    });
+  });
+
+  describe('エッジケース', () => {
+    it('大文字小文字を区別せずに重複を除き、最初の表記を残す', () => {
+      const result = parseRepositoryList('Facebook/React\nfacebook/react\nhttps://github.com/facebook/react\n', 'txt');
+
+      expect(result.entries).toEqual(['Facebook/React']);
+    });
+
+    it('ヘッダーのないCSVは先頭列を使う', () => {
+      expect(parseRepositoryList('facebook/react,100\nvercel/next.js,200\n', 'csv').entries).toEqual([
+        'facebook/react',
+        'vercel/next.js',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createRootSlice,
+  parseCreatedQualifier,
+  parseStarsQualifier,
+  splitSlice,
+  withQualifier,
+} from '../../src/api/search-slicer.js';
+
+describe('search-slicer', () => {
+  describe('正常系', () => {
+    it('starsクオリファイアの各形式を範囲に変換できる', () => {
+      expect(parseStarsQualifier('language:typescript stars:>100')).toEqual({ min: 101, max: null });
+      expect(parseStarsQualifier('stars:>=100')).toEqual({ min: 100, max: null });
+      expect(parseStarsQualifier('stars:<50')).toEqual({ min: 0, max: 49 });
+      expect(parseStarsQualifier('stars:100..500')).toEqual({ min: 100, max: 500 });
+      expect(parseStarsQualifier('stars:100..*')).toEqual({ min: 100, max: null });
+      expect(parseStarsQualifier('stars:42')).toEqual({ min: 42, max: 42 });
+    });
+
+    it('createdクオリファイアを日付範囲に変換できる', () => {
+      expect(parseCreatedQualifier('created:2020-01-01..2020-12-31')).toEqual({
+        from: '2020-01-01',
+        to: '2020-12-31',
+      });
+      expect(parseCreatedQualifier('created:<2020-01-01')).toEqual({ from: '2007-10-01', to: '2019-12-31' });
+      expect(parseCreatedQualifier('created:>2020-01-01')?.from).toBe('2020-01-02');
+    });
+
+    it('既存のクオリファイアを置き換える', () => {
+      expect(withQualifier('language:typescript stars:>100', 'stars', '101..500')).toBe(
+        'language:typescript stars:101..500',
+      );
+      expect(withQualifier('language:typescript', 'created', '2020-01-01..2020-12-31')).toBe(
+        'language:typescript created:2020-01-01..2020-12-31',
+      );
+    });
+
+    it('スター範囲を上位から順に二分割する', () => {
+      const slice = createRootSlice('language:typescript stars:100..10000');
+      const children = splitSlice(slice);
+
+      expect(children).toHaveLength(2);
+      expect(children?.[0]?.stars).toEqual({ min: 1001, max: 10000 });
+      expect(children?.[1]?.stars).toEqual({ min: 100, max: 1000 });
+      expect(children?.[0]?.query).toBe('language:typescript stars:1001..10000');
+    });
+
+    it('上限のないスター範囲は与えられた上限で分割する', () => {
+      const slice = createRootSlice('language:typescript stars:>100');
+      const children = splitSlice(slice, 200000);
+
+      expect(children?.[0]?.stars.max).toBe(200000);
+      expect(children?.[1]?.stars.min).toBe(101);
+    });
+  });
+
+  describe('エッジケース', () => {
+    it('単一スター数のスライスは作成日で分割する', () => {
+      const slice = createRootSlice('language:typescript stars:150 created:2020-01-01..2020-01-10');
+      const children = splitSlice(slice);
+
+      expect(children?.[0]?.created).toEqual({ from: '2020-01-06', to: '2020-01-10' });
+      expect(children?.[1]?.created).toEqual({ from: '2020-01-01', to: '2020-01-05' });
+      expect(children?.[0]?.query).toBe('language:typescript stars:150 created:2020-01-06..2020-01-10');
+    });
+
+    it('これ以上分割できないスライスはnullを返す', () => {
+      const slice = createRootSlice('stars:150 created:2020-01-01');
+
+      expect(splitSlice(slice)).toBeNull();
+    });
+
+    it('解釈できないクオリファイアはnullとして扱う', () => {
+      expect(parseStarsQualifier('language:typescript')).toBeNull();
+      expect(parseCreatedQualifier('created:yesterday')).toBeNull();
+    });
+  });
+});
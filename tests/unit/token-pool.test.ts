@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from 'vitest';
+import { RateLimitScheduler } from '../../src/api/rate-limit-scheduler.js';
+import { TokenPool, resolveGitHubTokens } from '../../src/api/token-pool.js';
+
+const NOW = 1_700_000_000_000;
+
+const createHttpError = (status: number, message: string, headers: Record<string, string> = {}) =>
+  Object.assign(new Error(message), { status, response: { headers } });
+
+const budgetHeaders = (remaining: number) => ({
+  'x-ratelimit-limit': '5000',
+  'x-ratelimit-remaining': String(remaining),
+  'x-ratelimit-reset': String(NOW / 1000 + 600),
+});
+
+describe('TokenPool', () => {
+  describe('正常系', () => {
+    it('GITHUB_TOKENSとプライマリトークンを重複なく結合する', () => {
+      expect(resolveGitHubTokens('aaa', 'bbb, ccc\naaa')).toEqual(['aaa', 'bbb', 'ccc']);
+      expect(resolveGitHubTokens(undefined, 'bbb')).toEqual(['bbb']);
+      expect(resolveGitHubTokens('', '')).toEqual([]);
+    });
+
+    it('残りクォータが最も多いトークンを選択する', () => {
+      const pool = new TokenPool(['token-a', 'token-b']);
+      const [a, b] = pool.entries();
+      pool.updateBudget(a!, 'core', { limit: 5000, remaining: 10, reset: NOW / 1000 + 600 });
+      pool.updateBudget(b!, 'core', { limit: 5000, remaining: 4000, reset: NOW / 1000 + 600 });
+
+      expect(pool.select('core', NOW)?.token).toBe('token-b');
+    });
+
+    it('並行リクエストのためにリクエスト時点で予算を予約する', () => {
+      const pool = new TokenPool(['token-a', 'token-b']);
+      const [a, b] = pool.entries();
+      pool.updateBudget(a!, 'core', { limit: 5000, remaining: 2, reset: NOW / 1000 + 600 });
+      pool.updateBudget(b!, 'core', { limit: 5000, remaining: 1, reset: NOW / 1000 + 600 });
+
+      // 応答を待たずに同じトークンへ2件送ると、予約済みの分だけ残りが減る
+      pool.recordRequest(a!, 'core');
+      pool.recordRequest(a!, 'core');
+
+      expect(a!.requests).toBe(2);
+      expect(a!.budgets.get('core')?.remaining).toBe(0);
+      expect(pool.select('core', NOW)?.token).toBe('token-b');
+    });
+
+    it('トークンのラベルは末尾4文字のみを含む', () => {
+      const pool = new TokenPool(['ghp_secretvalue1234']);
+
+      expect(pool.getUsage()[0]?.label).toBe('token#1 (…1234)');
+    });
+  });
+
+  describe('異常系', () => {
+    it('クォータを使い切ったトークンから別のトークンへ切り替える', async () => {
+      const pool = new TokenPool(['token-a', 'token-b']);
+      const sleep = vi.fn().mockResolvedValue(undefined);
+      const scheduler = new RateLimitScheduler(pool, { sleep, now: () => NOW });
+      const [a, b] = pool.entries();
+      pool.updateBudget(a!, 'core', { limit: 5000, remaining: 4000, reset: NOW / 1000 + 600 });
+      pool.updateBudget(b!, 'core', { limit: 5000, remaining: 100, reset: NOW / 1000 + 600 });
+
+      const task = vi.fn(async (token: string) => {
+        if (token === 'token-a') {
+          throw createHttpError(403, 'API rate limit exceeded', budgetHeaders(0));
+        }
+        return { headers: budgetHeaders(100) };
+      });
+
+      await scheduler.schedule('core', task);
+
+      expect(task.mock.calls.map(([token]) => token)).toEqual(['token-a', 'token-b']);
+      expect(sleep).not.toHaveBeenCalled();
+    });
+
+    it('無効化されたトークンをローテーションから外す', async () => {
+      const pool = new TokenPool(['revoked', 'valid']);
+      const scheduler = new RateLimitScheduler(pool, { now: () => NOW });
+
+      const task = vi.fn(async (token: string) => {
+        if (token === 'revoked') throw createHttpError(401, 'Bad credentials');
+        return { headers: {} };
+      });
+
+      await scheduler.schedule('core', task);
+      await scheduler.schedule('core', task);
+
+      expect(pool.activeCount).toBe(1);
+      expect(task.mock.calls.map(([token]) => token)).toEqual(['revoked', 'valid', 'valid']);
+    });
+  });
+});